@@ -5,6 +5,7 @@ import { User } from "../lib/user/User.js";
 import Input from "../lib/prompt/prompts/Input.js";
 import { Prompt } from "../lib/prompt/Prompt.js";
 import { CLIPromptHandler } from "../lib/cli-prompt-handler/CLIPromptHandler.js";
+import { Server } from "../lib/server/Server.js";
 
 vi.mock("commander", () => {
   const Command = vi.fn();
@@ -18,6 +19,7 @@ vi.mock("commander", () => {
 });
 
 vi.mock("../lib/cassi/Cassi.js");
+vi.mock("../lib/server/Server.js");
 
 vi.mock("../lib/user/User.js");
 vi.mock("../lib/prompt/prompts/Input.js");
@@ -49,7 +51,6 @@ describe("cassi bin script", () => {
       return sharedMockInputInstance;
     });
 
-
     (CLIPromptHandler as any).mockImplementation(() => ({
       handlePrompt: vi.fn(),
     }));
@@ -69,8 +70,15 @@ describe("cassi bin script", () => {
 
     mockCassiInstance = {
       init: vi.fn().mockResolvedValue(undefined),
-      newTask: vi.fn(),
+      newTask: vi.fn(() => ({ dryRun: false })),
       runTasks: vi.fn().mockResolvedValue(undefined),
+      events: { on: vi.fn() },
+      transcripts: {
+        startRecording: vi.fn(),
+        startReplay: vi.fn().mockResolvedValue(undefined),
+        source: null,
+        transcriptsDir: ".cassi/transcripts",
+      },
       user: mockUserInstance,
       configFile: "cassi.json",
       repositoryDir: ".",
@@ -90,6 +98,10 @@ describe("cassi bin script", () => {
     expect(User).toHaveBeenCalledTimes(1);
     expect(Cassi).toHaveBeenCalledTimes(1);
     expect(mockCassiInstance.init).toHaveBeenCalledTimes(1);
+    expect(mockCassiInstance.events.on).toHaveBeenCalledWith(
+      "task:failed",
+      expect.any(Function)
+    );
 
     expect(mockCassiInstance.newTask).toHaveBeenCalledTimes(2);
     expect(mockCassiInstance.newTask).toHaveBeenNthCalledWith(
@@ -100,7 +112,8 @@ describe("cassi bin script", () => {
       2,
       "Code",
       undefined,
-      "test request"
+      "test request",
+      null
     );
 
     expect(mockCassiInstance.runTasks).toHaveBeenCalledTimes(2);
@@ -113,6 +126,123 @@ describe("cassi bin script", () => {
     expect(consoleErrorSpy).not.toHaveBeenCalled();
   });
 
+  it("should run Code tasks in dry-run mode with --dry-run", async () => {
+    vi.mocked(Command.prototype.opts).mockReturnValueOnce({
+      repositoryDir: ".",
+      configFile: "cassi.json",
+      dryRun: true,
+    });
+    const codeTask = { dryRun: false };
+    mockCassiInstance.newTask
+      .mockReturnValueOnce({ dryRun: false })
+      .mockReturnValueOnce(codeTask);
+
+    await import("../bin/cassi.js");
+
+    expect(mockCassiInstance.newTask).toHaveBeenNthCalledWith(
+      2,
+      "Code",
+      undefined,
+      "test request",
+      null
+    );
+    expect(codeTask.dryRun).toBe(true);
+  });
+
+  it("should set the model override on Code tasks with --model", async () => {
+    vi.mocked(Command.prototype.opts).mockReturnValueOnce({
+      repositoryDir: ".",
+      configFile: "cassi.json",
+      model: "gemini-2.5-pro-exp-03-25",
+    });
+    const codeTask = { dryRun: false, modelOverride: null };
+    mockCassiInstance.newTask
+      .mockReturnValueOnce({ dryRun: false })
+      .mockReturnValueOnce(codeTask);
+
+    await import("../bin/cassi.js");
+
+    expect(codeTask.modelOverride).toBe("gemini-2.5-pro-exp-03-25");
+  });
+
+  it("should kill running commands when Ctrl-C exits without tasks to cancel", async () => {
+    const processOnSpy = vi.spyOn(process, "on");
+    const exitSpy = vi
+      .spyOn(process, "exit")
+      .mockImplementation((() => {}) as any);
+    mockCassiInstance.cancelTasks = vi.fn().mockReturnValue([]);
+
+    await import("../bin/cassi.js");
+    const { LocalConsole } =
+      await import("../lib/tools/console/LocalConsole.js");
+    const killSpy = vi
+      .spyOn(LocalConsole, "killRunningCommands")
+      .mockImplementation(() => {});
+    const onSigint = processOnSpy.mock.calls.find(
+      ([event]) => event === "SIGINT"
+    )?.[1] as () => void;
+    process.removeListener("SIGINT", onSigint);
+    onSigint();
+
+    expect(killSpy).toHaveBeenCalled();
+    expect(exitSpy).toHaveBeenCalledWith(130);
+    processOnSpy.mockRestore();
+    exitSpy.mockRestore();
+    killSpy.mockRestore();
+  });
+
+  it("should apply --dry-run and --model to the tasks of the server", async () => {
+    vi.mocked(Command.prototype.opts).mockReturnValueOnce({
+      repositoryDir: ".",
+      configFile: "cassi.json",
+      server: true,
+      dryRun: true,
+      model: "gemini-2.5-pro-exp-03-25",
+    });
+
+    await import("../bin/cassi.js");
+    await vi.waitFor(() => expect(Server.prototype.init).toHaveBeenCalled());
+
+    const server = vi.mocked(Server).mock.instances[0];
+    expect(server.dryRun).toBe(true);
+    expect(server.modelOverride).toBe("gemini-2.5-pro-exp-03-25");
+    expect(Server.prototype.init).toHaveBeenCalledWith(mockCassiInstance);
+  });
+
+  it("should record model calls with --record", async () => {
+    vi.mocked(Command.prototype.opts).mockReturnValueOnce({
+      repositoryDir: ".",
+      configFile: "cassi.json",
+      record: true,
+    });
+
+    await import("../bin/cassi.js");
+
+    expect(mockCassiInstance.transcripts.startRecording).toHaveBeenCalled();
+    expect(mockCassiInstance.transcripts.startReplay).not.toHaveBeenCalled();
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      "Recording model calls to .cassi/transcripts"
+    );
+  });
+
+  it("should replay model calls before running tasks with --replay", async () => {
+    vi.mocked(Command.prototype.opts).mockReturnValueOnce({
+      repositoryDir: ".",
+      configFile: "cassi.json",
+      replay: "abcd1234-task",
+    });
+
+    await import("../bin/cassi.js");
+
+    expect(mockCassiInstance.transcripts.startReplay).toHaveBeenCalledWith(
+      "abcd1234-task"
+    );
+    expect(
+      mockCassiInstance.transcripts.startReplay.mock.invocationCallOrder[0]
+    ).toBeLessThan(mockCassiInstance.newTask.mock.invocationCallOrder[0]);
+    expect(mockCassiInstance.transcripts.startRecording).not.toHaveBeenCalled();
+  });
+
   it("should break the loop and log message if the first prompt receives null input", async () => {
     mockUserInstance.prompt.mockImplementation(async () => {
       promptCallCounter++;
@@ -6,13 +6,31 @@ import { User } from "../lib/user/User.js";
 import Input from "../lib/prompt/prompts/Input.js";
 import { Prompt } from "../lib/prompt/Prompt.js";
 import { Server } from "../lib/server/Server.js";
+import { formatTaskResult } from "../lib/task/TaskResult.js";
+import { formatTotals } from "../lib/usage/Usage.js";
+import { ModelActivityPrinter } from "../lib/model/ModelActivity.js";
+import { LocalConsole } from "../lib/tools/console/LocalConsole.js";
 
 const program = new Command();
 
 program
   .option("-r, --repository-dir <path>", "repository directory", ".")
   .option("-c, --config-file <file>", "config file", "cassi.json")
-  .option("-s, --server", "run in server mode");
+  .option("-s, --server", "run in server mode")
+  .option("-w, --workflow <name>", "workflow to use for code requests")
+  .option(
+    "-n, --dry-run",
+    "record file changes, commands and git operations without running them"
+  )
+  .option(
+    "-m, --model <name>",
+    "model to use for code requests instead of the configured models"
+  )
+  .option("--record", "record model calls to .cassi/transcripts")
+  .option(
+    "--replay <transcript>",
+    "replay model calls from a transcript file or recorded taskId"
+  );
 
 program.parse(process.argv);
 
@@ -20,8 +38,23 @@ const options = program.opts<{
   repositoryDir: string;
   configFile: string;
   server?: boolean;
+  workflow?: string;
+  dryRun?: boolean;
+  model?: string;
+  record?: boolean;
+  replay?: string;
 }>();
 
+async function initTranscripts(cassi: Cassi) {
+  if (options.replay) {
+    await cassi.transcripts.startReplay(options.replay);
+    console.log(`Replaying model calls from ${cassi.transcripts.source}`);
+  } else if (options.record) {
+    cassi.transcripts.startRecording();
+    console.log(`Recording model calls to ${cassi.transcripts.transcriptsDir}`);
+  }
+}
+
 async function runCli() {
   async function initFn() {
     console.log("cassi cli starting");
@@ -37,15 +70,67 @@ async function runCli() {
 
   const user = new User(initFn, promptFn);
   const cassi = new Cassi(user, options.configFile, options.repositoryDir);
+
+  function logSessionUsage() {
+    if (cassi.usageStore.session.calls > 0) {
+      console.log(`Session usage: ${formatTotals(cassi.usageStore.session)}`);
+    }
+  }
+
+  new ModelActivityPrinter().attach(cassi.events);
+  cassi.events.on("subtask:started", ({ task, parentTask }) => {
+    console.log(
+      `> ${parentTask.constructor.name}: running ${task.constructor.name}`
+    );
+  });
+  cassi.events.on("task:finished", ({ task }) => {
+    if (!task.parentTask) {
+      console.log(`> ${task.constructor.name} finished`);
+      console.log(formatTaskResult(task.getResult()));
+      logSessionUsage();
+    }
+  });
+  cassi.events.on("task:failed", ({ task, error, cancelled }) => {
+    if (!task.parentTask) {
+      console.log(
+        cancelled
+          ? `> ${task.constructor.name} cancelled`
+          : `> ${task.constructor.name} failed: ${error.message}`
+      );
+      console.log(formatTaskResult(task.getResult()));
+      logSessionUsage();
+    }
+  });
+
   await cassi.init();
+  await initTranscripts(cassi);
   cassi.newTask("InitializeRepository");
 
+  process.on("SIGINT", () => {
+    const cancelled = cassi.cancelTasks();
+    if (cancelled.length === 0) {
+      console.log("Exiting.");
+      LocalConsole.killRunningCommands();
+      process.exit(130);
+    }
+    console.log(
+      `Cancelling ${cancelled.length} task(s), press Ctrl-C again to exit.`
+    );
+  });
+
   while (true) {
     await cassi.runTasks();
     const inputPrompt = new Input("Enter your next request:");
     await cassi.user.prompt(inputPrompt);
     if (inputPrompt.response) {
-      cassi.newTask("Code", undefined, inputPrompt.response);
+      const task = cassi.newTask(
+        "Code",
+        undefined,
+        inputPrompt.response,
+        options.workflow ?? null
+      );
+      task.dryRun = options.dryRun ?? false;
+      task.modelOverride = options.model ?? null;
     } else {
       console.log("No input received, exiting.");
       break;
@@ -56,6 +141,8 @@ async function runCli() {
 async function runServer() {
   console.log("cassi server starting");
   const server = new Server();
+  server.dryRun = options.dryRun ?? false;
+  server.modelOverride = options.model ?? null;
 
   async function initFn() {}
 
@@ -66,6 +153,7 @@ async function runServer() {
   const user = new User(initFn, promptFn);
   const cassi = new Cassi(user, options.configFile, options.repositoryDir);
   await cassi.init();
+  await initTranscripts(cassi);
   cassi.newTask("InitializeRepository");
 
   await server.init(cassi);
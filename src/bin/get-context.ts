@@ -3,12 +3,16 @@
 import { Command } from "commander";
 import path from "node:path";
 import { getInterfaces } from "../lib/model/context/getInterfaces.js";
+import { getRelevantInterfaces } from "../lib/model/context/getRelevantInterfaces.js";
+import { LocalGit } from "../lib/tools/git/LocalGit.js";
 import { FileInfo } from "../lib/file-info/FileInfo.js";
 import type { Worktree } from "../lib/repository/Worktree.js"; // Import type only
 
 interface CliOptions {
   repositoryDir: string;
   worktreeDir?: string;
+  prompt?: string;
+  maxTokens?: string;
 }
 
 const program = new Command();
@@ -25,13 +29,29 @@ program
     "-w, --worktree-dir <path>",
     "Optional path to the worktree directory"
   )
+  .option(
+    "-p, --prompt <text>",
+    "Prompt to rank files against for getRelevantInterfaces"
+  )
+  .option("-t, --max-tokens <number>", "Token budget for getRelevantInterfaces")
   .argument(
     "<contextType>",
-    "The type of context to retrieve (e.g., getInterfaces)"
+    "The type of context to retrieve (e.g., getInterfaces, getRelevantInterfaces)"
   )
   .action(async (contextType: string, options: CliOptions) => {
-    const contextFunctions: { [key: string]: Function } = {
+    const contextFunctions: {
+      [key: string]: (worktree: Worktree) => Promise<string>;
+    } = {
       getInterfaces: getInterfaces,
+      getRelevantInterfaces: async (worktree: Worktree) =>
+        getRelevantInterfaces(worktree, options.prompt ?? "", {
+          maxTokens: options.maxTokens
+            ? parseInt(options.maxTokens, 10)
+            : undefined,
+          recentFiles: await new LocalGit(worktree.worktreeDir)
+            .recentFiles()
+            .catch(() => []),
+        }),
     };
 
     try {
@@ -53,7 +73,7 @@ program
         ? new FileInfo(repoDir, worktreeDir, repoFileInfo)
         : repoFileInfo;
 
-      // Create a mock Worktree object with only the properties needed by getInterfaces
+      // Create a mock Worktree object with only the properties needed by the context functions
       const mockWorktree = {
         worktreeDir: targetDir,
         fileInfo: targetFileInfo,
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+import { Command } from "commander";
+import fs from "node:fs/promises";
+import {
+  getTemplateVariables,
+  listPromptTemplates,
+  loadPromptTemplate,
+  renderTemplate,
+} from "../lib/model/templates/PromptTemplates.js";
+
+interface CliOptions {
+  repositoryDir: string;
+  set: string[];
+  list?: boolean;
+}
+
+const SAMPLE_VARIABLES: Record<string, string> = {
+  prompt: "Add a --verbose option to the CLI that logs every tool call.",
+  interfaces: `===== BEGIN FILE_INTERFACES =====
+FILE: src/bin/cassi.ts
+export async function main(): Promise<void>
+===== END FILE_INTERFACES =====`,
+  diff: `diff --git a/src/bin/cassi.ts b/src/bin/cassi.ts
+@@ -10,6 +10,7 @@ program
+   .option("-r, --repository-dir <path>", "Repository directory")
++  .option("--verbose", "Log every tool call")`,
+};
+
+const collect = (value: string, previous: string[]): string[] => [
+  ...previous,
+  value,
+];
+
+/**
+ * Parses `name=value` pairs. A value starting with "@" is read from the file
+ * it names.
+ */
+const parseVariables = async (
+  pairs: string[]
+): Promise<Record<string, string>> => {
+  const variables: Record<string, string> = {};
+  for (const pair of pairs) {
+    const index = pair.indexOf("=");
+    if (index <= 0) {
+      throw new Error(`Invalid variable '${pair}', expected name=value`);
+    }
+    const value = pair.slice(index + 1);
+    variables[pair.slice(0, index)] = value.startsWith("@")
+      ? await fs.readFile(value.slice(1), "utf-8")
+      : value;
+  }
+  return variables;
+};
+
+const program = new Command();
+
+program
+  .name("render-prompt")
+  .description(
+    "CLI tool to render a model prompt template with sample inputs for review"
+  )
+  .option(
+    "-r, --repository-dir <path>",
+    "Path to the repository root directory, its .cassi/prompts override the built-in templates",
+    process.cwd()
+  )
+  .option(
+    "-s, --set <name=value>",
+    "Set a template variable, use @file to read the value from a file",
+    collect,
+    []
+  )
+  .option("-l, --list", "List the available templates")
+  .argument("[name]", "The template to render (e.g., Coder, CommitMessage)")
+  .action(async (name: string | undefined, options: CliOptions) => {
+    try {
+      if (options.list || !name) {
+        for (const templateName of await listPromptTemplates(
+          options.repositoryDir
+        )) {
+          const { file, template } = await loadPromptTemplate(
+            templateName,
+            options.repositoryDir
+          );
+          const variables = getTemplateVariables(template);
+          console.log(
+            `${templateName} (${file})${
+              variables.length > 0 ? `: ${variables.join(", ")}` : ""
+            }`
+          );
+        }
+        return;
+      }
+
+      const { file, template } = await loadPromptTemplate(
+        name,
+        options.repositoryDir
+      );
+      const variables = await parseVariables(options.set);
+      for (const variable of getTemplateVariables(template)) {
+        variables[variable] ??=
+          SAMPLE_VARIABLES[variable] ?? `<sample ${variable}>`;
+      }
+
+      console.error(`Rendering ${file}\n`);
+      console.log(renderTemplate(template, variables, name));
+    } catch (error: any) {
+      console.error("\nAn error occurred while rendering the prompt:");
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+program.parseAsync(process.argv).catch((err) => {
+  console.error("Failed to parse arguments:", err);
+  process.exit(1);
+});
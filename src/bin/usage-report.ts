@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+import { Command } from "commander";
+import { UsageStore } from "../lib/usage/UsageStore.js";
+import { formatUsageReport, summarizeUsage } from "../lib/usage/Usage.js";
+
+interface CliOptions {
+  repositoryDir: string;
+  session?: string;
+  since?: string;
+}
+
+const program = new Command();
+
+program
+  .name("usage-report")
+  .description("CLI tool to report model token usage and cost")
+  .option(
+    "-r, --repository-dir <path>",
+    "Path to the repository root directory",
+    process.cwd()
+  )
+  .option("-s, --session <id>", "Only report usage of this session")
+  .option("--since <date>", "Only report usage since this date (YYYY-MM-DD)")
+  .action(async (options: CliOptions) => {
+    try {
+      const since = options.since ? new Date(options.since) : null;
+      if (since && isNaN(since.getTime())) {
+        console.error(`Error: Invalid date '${options.since}'`);
+        process.exit(1);
+      }
+
+      const usageStore = new UsageStore(options.repositoryDir);
+      const records = (await usageStore.list()).filter(
+        (record) =>
+          (!options.session || record.sessionId === options.session) &&
+          (!since || new Date(record.timestamp) >= since)
+      );
+
+      console.log(formatUsageReport(summarizeUsage(records)));
+    } catch (error: any) {
+      console.error("\nAn error occurred while reading usage:");
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+program.parseAsync(process.argv).catch((err) => {
+  console.error("Failed to parse arguments:", err);
+  process.exit(1);
+});
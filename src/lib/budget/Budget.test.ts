@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  BudgetExceededError,
+  BudgetUsage,
+  checkBudget,
+  exceededLimit,
+} from "./Budget.js";
+
+const makeUsage = (overrides: Partial<BudgetUsage> = {}): BudgetUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  turns: 0,
+  elapsedMs: 0,
+  ...overrides,
+});
+
+describe("Budget", () => {
+  describe("exceededLimit", () => {
+    it("should return null when usage is within all limits", () => {
+      expect(
+        exceededLimit(
+          { maxSeconds: 10, maxTokens: 100, maxTurns: 5 },
+          makeUsage({ elapsedMs: 9000, totalTokens: 99, turns: 4 })
+        )
+      ).toBeNull();
+    });
+
+    it("should return the limit that was reached", () => {
+      expect(
+        exceededLimit({ maxSeconds: 10 }, makeUsage({ elapsedMs: 10000 }))
+      ).toBe("maxSeconds");
+      expect(
+        exceededLimit({ maxTokens: 100 }, makeUsage({ totalTokens: 100 }))
+      ).toBe("maxTokens");
+      expect(exceededLimit({ maxTurns: 5 }, makeUsage({ turns: 6 }))).toBe(
+        "maxTurns"
+      );
+    });
+  });
+
+  describe("checkBudget", () => {
+    it("should not throw without limits", () => {
+      expect(() =>
+        checkBudget("task Code", null, makeUsage({ turns: 1000 }))
+      ).not.toThrow();
+    });
+
+    it("should throw a BudgetExceededError describing the usage so far", () => {
+      const usage = makeUsage({
+        inputTokens: 900,
+        outputTokens: 300,
+        totalTokens: 1200,
+        turns: 7,
+        elapsedMs: 42000,
+      });
+
+      let error: unknown;
+      try {
+        checkBudget("model Coder", { maxTokens: 1000 }, usage);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      const budgetError = error as BudgetExceededError;
+      expect(budgetError.limit).toBe("maxTokens");
+      expect(budgetError.usage).toEqual(usage);
+      expect(budgetError.message).toBe(
+        "Budget exceeded: model Coder reached its maxTokens limit after 42s, 7 turns and 1200 tokens (900 in, 300 out)"
+      );
+    });
+  });
+});
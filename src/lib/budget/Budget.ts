@@ -0,0 +1,116 @@
+import type { JSONSchemaType } from "ajv";
+import type { TokenUsage } from "../task/TaskResult.js";
+
+/**
+ * Limits for a single task or model. A task budget covers the task and all of
+ * its subtasks, a model budget covers one model instance.
+ */
+export interface BudgetLimits {
+  maxSeconds?: number;
+  maxTokens?: number;
+  maxTurns?: number;
+}
+
+export interface BudgetsConfig {
+  tasks?: Record<string, BudgetLimits>;
+  models?: Record<string, BudgetLimits>;
+}
+
+export interface BudgetUsage extends TokenUsage {
+  turns: number;
+  elapsedMs: number;
+}
+
+const budgetLimitsSchema: JSONSchemaType<BudgetLimits> = {
+  type: "object",
+  properties: {
+    maxSeconds: { type: "number", nullable: true, exclusiveMinimum: 0 },
+    maxTokens: { type: "integer", nullable: true, minimum: 1 },
+    maxTurns: { type: "integer", nullable: true, minimum: 1 },
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+export const budgetsSchema: JSONSchemaType<BudgetsConfig> = {
+  type: "object",
+  properties: {
+    tasks: {
+      type: "object",
+      required: [],
+      additionalProperties: budgetLimitsSchema,
+      nullable: true,
+    },
+    models: {
+      type: "object",
+      required: [],
+      additionalProperties: budgetLimitsSchema,
+      nullable: true,
+    },
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+export class BudgetExceededError extends Error {
+  public subject: string;
+  public limit: keyof BudgetLimits;
+  public usage: BudgetUsage;
+
+  constructor(subject: string, limit: keyof BudgetLimits, usage: BudgetUsage) {
+    super(
+      `Budget exceeded: ${subject} reached its ${limit} limit after ${Math.round(
+        usage.elapsedMs / 1000
+      )}s, ${usage.turns} turns and ${usage.totalTokens} tokens (${
+        usage.inputTokens
+      } in, ${usage.outputTokens} out)`
+    );
+    this.name = "BudgetExceededError";
+    this.subject = subject;
+    this.limit = limit;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Returns the first limit that the usage has reached, or null if the usage is
+ * within the budget.
+ */
+export const exceededLimit = (
+  limits: BudgetLimits,
+  usage: BudgetUsage
+): keyof BudgetLimits | null => {
+  if (
+    limits.maxSeconds !== undefined &&
+    usage.elapsedMs >= limits.maxSeconds * 1000
+  ) {
+    return "maxSeconds";
+  }
+  if (limits.maxTokens !== undefined && usage.totalTokens >= limits.maxTokens) {
+    return "maxTokens";
+  }
+  if (limits.maxTurns !== undefined && usage.turns >= limits.maxTurns) {
+    return "maxTurns";
+  }
+  return null;
+};
+
+/**
+ * Throws a BudgetExceededError if the usage has reached one of the limits.
+ * @param subject Describes what the budget applies to, e.g. "task Code".
+ * @param limits The configured limits, nothing is checked if null.
+ * @param usage The usage so far.
+ */
+export const checkBudget = (
+  subject: string,
+  limits: BudgetLimits | null | undefined,
+  usage: BudgetUsage
+): void => {
+  if (!limits) {
+    return;
+  }
+  const limit = exceededLimit(limits, usage);
+  if (limit) {
+    throw new BudgetExceededError(subject, limit, usage);
+  }
+};
@@ -37,6 +37,10 @@ describe("Cassi", () => {
     const configInitMock = vi.fn().mockResolvedValue(undefined);
     const toolInitMock = vi.fn().mockResolvedValue(undefined);
     const tasksInitMock = vi.fn().mockResolvedValue(undefined);
+    const taskStoreInitMock = vi.fn().mockResolvedValue(undefined);
+    const listUnfinishedMock = vi.fn().mockResolvedValue([]);
+    const workflowsInitMock = vi.fn().mockResolvedValue(undefined);
+    const pluginsInitMock = vi.fn().mockResolvedValue(undefined);
 
     cassi.model.init = modelInitMock;
     cassi.user.init = userInitMock;
@@ -44,6 +48,10 @@ describe("Cassi", () => {
     cassi.config.init = configInitMock;
     cassi.tool.init = toolInitMock;
     cassi.task.init = tasksInitMock;
+    cassi.taskStore.init = taskStoreInitMock;
+    cassi.taskStore.listUnfinished = listUnfinishedMock;
+    cassi.workflows.init = workflowsInitMock;
+    cassi.plugins.init = pluginsInitMock;
 
     await cassi.init();
 
@@ -53,6 +61,40 @@ describe("Cassi", () => {
     expect(modelInitMock).toHaveBeenCalledTimes(1);
     expect(repoInitMock).toHaveBeenCalledTimes(1);
     expect(tasksInitMock).toHaveBeenCalledTimes(1);
+    expect(taskStoreInitMock).toHaveBeenCalledTimes(1);
+    expect(workflowsInitMock).toHaveBeenCalledTimes(1);
+    expect(pluginsInitMock).toHaveBeenCalledTimes(1);
+    expect(pluginsInitMock.mock.invocationCallOrder[0]).toBeGreaterThan(
+      tasksInitMock.mock.invocationCallOrder[0]
+    );
+    expect(pluginsInitMock.mock.invocationCallOrder[0]).toBeLessThan(
+      workflowsInitMock.mock.invocationCallOrder[0]
+    );
+    expect(cassi.tasks).toHaveLength(0);
+  });
+
+  test("init should queue ResumeTasks when unfinished tasks are stored", async () => {
+    cassi.model.init = vi.fn().mockResolvedValue(undefined);
+    cassi.user.init = vi.fn().mockResolvedValue(undefined);
+    cassi.repository.init = vi.fn().mockResolvedValue(undefined);
+    cassi.config.init = vi.fn().mockResolvedValue(undefined);
+    cassi.tool.init = vi.fn().mockResolvedValue(undefined);
+    cassi.task.init = vi.fn().mockResolvedValue(undefined);
+    cassi.taskStore.init = vi.fn().mockResolvedValue(undefined);
+    cassi.taskStore.listUnfinished = vi
+      .fn()
+      .mockResolvedValue([{ taskId: "abcd1234-task" }]);
+    const mockTaskInstance = new MockTask(cassi);
+    const newTaskSpy = vi
+      .spyOn(cassi.task, "newTask")
+      .mockReturnValue(mockTaskInstance);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await cassi.init();
+
+    expect(newTaskSpy).toHaveBeenCalledWith("ResumeTasks", undefined);
+    expect(cassi.tasks).toEqual([mockTaskInstance]);
+    vi.restoreAllMocks();
   });
 
   test("newTask should add a task to the tasks array", async () => {
@@ -87,6 +129,63 @@ describe("Cassi", () => {
     newTaskSpy.mockRestore();
   });
 
+  describe("usage", () => {
+    test("should record the usage of model responses", async () => {
+      const recordMock = vi.fn().mockResolvedValue(undefined);
+      cassi.usageStore.record = recordMock;
+      const root = new MockTask(cassi);
+      root.taskId = "abcd1234-task";
+      const child = new MockTask(cassi, root);
+
+      cassi.events.emit("model:response", {
+        model: { constructor: { name: "CommitMessage" } } as any,
+        task: child,
+        modelName: "googleai/gemini-2.0-flash",
+        usage: { inputTokens: 10, outputTokens: 5 },
+        cost: 0.001,
+        text: "message",
+      });
+
+      expect(recordMock).toHaveBeenCalledWith({
+        timestamp: expect.any(String),
+        sessionId: cassi.usageStore.sessionId,
+        taskId: "abcd1234-task",
+        requestType: "MockTask",
+        taskName: "MockTask",
+        modelClass: "CommitMessage",
+        model: "googleai/gemini-2.0-flash",
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+        cost: 0.001,
+      });
+    });
+
+    test("should log errors recording usage", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      cassi.usageStore.record = vi
+        .fn()
+        .mockRejectedValue(new Error("disk full"));
+
+      cassi.events.emit("model:response", {
+        model: { constructor: { name: "Coder" } } as any,
+        task: new MockTask(cassi),
+        modelName: null,
+        usage: undefined,
+        cost: null,
+        text: null,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "[Cassi] Error recording model usage: disk full"
+      );
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe("runTasks", () => {
     beforeEach(() => {
       cassi.tasks = [];
@@ -178,8 +277,99 @@ describe("Cassi", () => {
       errorLogSpy.mockRestore();
     });
 
+    test("should run concurrent tasks in parallel up to the configured limit", async () => {
+      cassi.scheduler.concurrency = 2;
+      const task1 = cassi.newTask("MockTask1");
+      const task2 = cassi.newTask("MockTask2");
+      task1.concurrent = true;
+      task2.concurrent = true;
+      let running = 0;
+      let maxRunning = 0;
+      const run = async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      };
+      vi.spyOn(task1, "run").mockImplementation(run);
+      vi.spyOn(task2, "run").mockImplementation(run);
+
+      await cassi.runTasks();
+
+      expect(maxRunning).toBe(2);
+    });
+
+    test("should run tasks added while running before returning", async () => {
+      const task1 = cassi.newTask("MockTask1");
+      const task2 = new MockTask(cassi);
+      const runSpy2 = vi.spyOn(task2, "run").mockResolvedValue();
+      vi.spyOn(task1, "run").mockImplementation(async () => {
+        cassi.tasks.push(task2);
+      });
+
+      await cassi.runTasks();
+
+      expect(runSpy2).toHaveBeenCalledTimes(1);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("cancelTasks", () => {
+    beforeEach(() => {
+      cassi.tasks = [];
+      vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
     afterEach(() => {
       vi.restoreAllMocks();
     });
+
+    test("should cancel all unfinished tasks", () => {
+      const task1 = new MockTask(cassi);
+      const task2 = new MockTask(cassi);
+      const finished = new MockTask(cassi);
+      finished.finishedAt = new Date();
+      cassi.tasks.push(task1, task2, finished);
+
+      const cancelled = cassi.cancelTasks();
+
+      expect(cancelled).toEqual([task1, task2]);
+      expect(task1.isCancelled()).toBe(true);
+      expect(task2.isCancelled()).toBe(true);
+      expect(finished.isCancelled()).toBe(false);
+    });
+
+    test("should only cancel the task with the given id", () => {
+      const task1 = new MockTask(cassi);
+      const task2 = new MockTask(cassi);
+      task1.taskId = "abcd1234-one";
+      task2.taskId = "abcd1234-two";
+      cassi.tasks.push(task1, task2);
+
+      const cancelled = cassi.cancelTasks("abcd1234-two");
+
+      expect(cancelled).toEqual([task2]);
+      expect(task1.isCancelled()).toBe(false);
+      expect(task2.isCancelled()).toBe(true);
+    });
+
+    test("should log cancelled tasks instead of failures", async () => {
+      const task = new MockTask(cassi);
+      task.cancelled = true;
+      task.error = new Error("Task cancelled");
+      const errorLogSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await cassi.runTask(task);
+
+      expect(console.log).toHaveBeenCalledWith(
+        "[Cassi] Task cancelled: MockTask"
+      );
+      expect(errorLogSpy).not.toHaveBeenCalled();
+    });
   });
 });
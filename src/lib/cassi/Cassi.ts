@@ -4,7 +4,14 @@ import { User } from "../user/User.js";
 import { Tool } from "../tool/Tool.js";
 import { Task } from "../task/Task.js";
 import { Tasks } from "../task/Tasks.js";
+import { TaskStore } from "../task/TaskStore.js";
+import { TaskScheduler } from "../task/TaskScheduler.js";
 import { Model } from "../model/Model.js";
+import { CassiEvents, type CassiEventMap } from "./CassiEvents.js";
+import { Workflows } from "../workflow/Workflows.js";
+import { Plugins } from "../plugin/Plugins.js";
+import { UsageStore } from "../usage/UsageStore.js";
+import { Transcripts } from "../transcript/Transcripts.js";
 
 export type Foo = {
   bar: string;
@@ -19,24 +26,50 @@ export class Cassi {
   tool: Tool;
   model: Model;
   task: Tasks;
+  taskStore: TaskStore;
+  usageStore: UsageStore;
+  transcripts: Transcripts;
+  scheduler: TaskScheduler;
+  events: CassiEvents;
+  workflows: Workflows;
+  plugins: Plugins;
   tasks: Task[] = [];
 
   constructor(user: User, configFile: string, repositoryDir: string) {
+    this.events = new CassiEvents();
     this.user = user;
+    this.user.events = this.events;
     this.config = new Config(configFile, user);
     this.repository = new Repository(repositoryDir, user);
     this.tool = new Tool(this.user, this.config);
     this.model = new Model();
     this.task = new Tasks(this);
+    this.plugins = new Plugins(this);
+    this.workflows = new Workflows(this);
+    this.taskStore = new TaskStore(repositoryDir);
+    this.usageStore = new UsageStore(repositoryDir);
+    this.transcripts = new Transcripts(this);
+    this.events.on("model:response", (response) => this.recordUsage(response));
+    this.scheduler = new TaskScheduler((task) => this.runTask(task));
   }
 
   async init() {
     await this.user.init();
     await this.config.init();
+    this.scheduler.concurrency = this.config.configData?.concurrency ?? 1;
     await this.tool.init();
     await this.model.init();
     await this.repository.init();
     await this.task.init();
+    await this.plugins.init();
+    await this.workflows.init();
+    await this.taskStore.init();
+
+    const unfinished = await this.taskStore.listUnfinished();
+    if (unfinished.length > 0) {
+      console.log(`[Cassi] Found ${unfinished.length} unfinished task(s)`);
+      this.newTask("ResumeTasks");
+    }
   }
 
   newTask(taskName: string, parentTask?: Task, ...args: any[]): Task {
@@ -45,21 +78,93 @@ export class Cassi {
     return newTask;
   }
 
+  pendingTasks(): Task[] {
+    return this.tasks.filter(
+      (task) =>
+        task.startedAt === null &&
+        task.finishedAt === null &&
+        !this.scheduler.isScheduled(task)
+    );
+  }
+
   async runTasks() {
-    for (const task of this.tasks) {
-      if (task.startedAt === null && task.finishedAt === null) {
-        console.log(`[Cassi] Running task: ${task.constructor.name}`);
-        await task.run();
-        if (task.error) {
-          console.error(
-            "[Cassi] Task Failed with Error:",
-            JSON.stringify({
-              message: task.error.message,
-              stack: task.error.stack,
-            })
-          );
-        }
-      }
+    let pending = this.pendingTasks();
+    while (pending.length > 0) {
+      await this.scheduler.schedule(pending);
+      pending = this.pendingTasks();
+    }
+  }
+
+  /**
+   * Cancels running and pending tasks. Cancelled tasks still run their
+   * cleanup.
+   * @param taskId Only cancel the task with this id.
+   * @returns The tasks that were cancelled.
+   */
+  cancelTasks(taskId?: string): Task[] {
+    const cancelled = this.tasks.filter(
+      (task) =>
+        task.finishedAt === null &&
+        !task.isCancelled() &&
+        (taskId === undefined || task.taskId === taskId)
+    );
+    for (const task of cancelled) {
+      console.log(`[Cassi] Cancelling task: ${task.constructor.name}`);
+      task.cancel();
+    }
+    return cancelled;
+  }
+
+  /**
+   * Stores the usage of a model call in the usage store. Errors are logged
+   * and do not fail the task.
+   */
+  private recordUsage({
+    model,
+    task,
+    modelName,
+    usage,
+    cost,
+  }: CassiEventMap["model:response"]): void {
+    const rootTask = task.getRootTask();
+    const inputTokens = usage?.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? 0;
+    this.usageStore
+      .record({
+        timestamp: new Date().toISOString(),
+        sessionId: this.usageStore.sessionId,
+        taskId: rootTask.taskId,
+        requestType: rootTask.constructor.name,
+        taskName: task.constructor.name,
+        modelClass: model.constructor.name,
+        model: modelName,
+        inputTokens,
+        outputTokens,
+        totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+        cost,
+      })
+      .catch((error) => {
+        console.error(
+          `[Cassi] Error recording model usage: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      });
+  }
+
+  async runTask(task: Task) {
+    console.log(`[Cassi] Running task: ${task.constructor.name}`);
+    await task.run();
+    if (task.cancelled) {
+      console.log(`[Cassi] Task cancelled: ${task.constructor.name}`);
+    } else if (task.error) {
+      console.error(
+        "[Cassi] Task Failed with Error:",
+        JSON.stringify({
+          message: task.error.message,
+          stack: task.error.stack,
+        })
+      );
     }
   }
 }
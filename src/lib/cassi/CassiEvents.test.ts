@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CassiEvents } from "./CassiEvents.js";
+import { Task } from "../task/Task.js";
+import type { Cassi } from "./Cassi.js";
+
+const mockCassi = {} as unknown as Cassi;
+
+describe("CassiEvents", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should deliver payloads to listeners of the event type", () => {
+    const events = new CassiEvents();
+    const task = new Task(mockCassi);
+    const started = vi.fn();
+    const finished = vi.fn();
+    events.on("task:started", started);
+    events.on("task:finished", finished);
+
+    events.emit("task:started", { task });
+
+    expect(started).toHaveBeenCalledWith({ task });
+    expect(finished).not.toHaveBeenCalled();
+  });
+
+  it("should remove listeners with the returned unsubscribe function", () => {
+    const events = new CassiEvents();
+    const listener = vi.fn();
+    const unsubscribe = events.on("task:started", listener);
+
+    unsubscribe();
+    events.emit("task:started", { task: new Task(mockCassi) });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should call once listeners a single time", () => {
+    const events = new CassiEvents();
+    const listener = vi.fn();
+    events.once("task:started", listener);
+
+    events.emit("task:started", { task: new Task(mockCassi) });
+    events.emit("task:started", { task: new Task(mockCassi) });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should deliver every event to onAny listeners", () => {
+    const events = new CassiEvents();
+    const listener = vi.fn();
+    const unsubscribe = events.onAny(listener);
+    const task = new Task(mockCassi);
+
+    events.emit("task:started", { task });
+    events.emit("task:finished", { task });
+    unsubscribe();
+    events.emit("task:finished", { task });
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenNthCalledWith(1, "task:started", { task });
+    expect(listener).toHaveBeenNthCalledWith(2, "task:finished", { task });
+  });
+
+  it("should report whether an event has listeners", () => {
+    const events = new CassiEvents();
+    expect(events.hasListeners("model:chunk")).toBe(false);
+
+    const unsubscribe = events.on("model:chunk", vi.fn());
+    expect(events.hasListeners("model:chunk")).toBe(true);
+    unsubscribe();
+    expect(events.hasListeners("model:chunk")).toBe(false);
+
+    events.onAny(vi.fn());
+    expect(events.hasListeners("model:chunk")).toBe(true);
+  });
+
+  it("should log listener errors and keep calling other listeners", () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const events = new CassiEvents();
+    const after = vi.fn();
+    events.on("task:started", () => {
+      throw new Error("listener failed");
+    });
+    events.on("task:started", after);
+
+    expect(() =>
+      events.emit("task:started", { task: new Task(mockCassi) })
+    ).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "[CassiEvents] Error in listener for task:started:",
+      expect.any(Error)
+    );
+  });
+});
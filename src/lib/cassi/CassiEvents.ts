@@ -0,0 +1,130 @@
+import { EventEmitter } from "node:events";
+import type { Task } from "../task/Task.js";
+import type { Invocation } from "../tool/Invocation.js";
+import type { Models } from "../model/Models.js";
+import type { Prompt } from "../prompt/Prompt.js";
+
+export interface CassiEventMap {
+  "task:started": { task: Task };
+  "task:finished": { task: Task };
+  "task:failed": { task: Task; error: Error; cancelled: boolean };
+  "subtask:started": { task: Task; parentTask: Task };
+  "invocation:started": { invocation: Invocation };
+  "invocation:finished": { invocation: Invocation };
+  "model:request": { model: Models; task: Task; options: any };
+  "model:response": {
+    model: Models;
+    task: Task;
+    modelName: string | null;
+    usage: any;
+    cost: number | null;
+    text: string | null;
+  };
+  "model:chunk": { model: Models; task: Task; text: string };
+  "model:toolCall": {
+    model: Models;
+    task: Task;
+    name: string;
+    ref: string | null;
+    input: any;
+  };
+  "model:toolResult": {
+    model: Models;
+    task: Task;
+    name: string;
+    ref: string | null;
+    error: string | null;
+    durationMs: number;
+  };
+  "prompt:requested": { prompt: Prompt };
+  "prompt:answered": { prompt: Prompt };
+}
+
+export type CassiEventName = keyof CassiEventMap;
+
+export type CassiEventListener<K extends CassiEventName> = (
+  payload: CassiEventMap[K]
+) => void;
+
+export type CassiAnyEventListener = <K extends CassiEventName>(
+  type: K,
+  payload: CassiEventMap[K]
+) => void;
+
+const ANY_EVENT = Symbol("any");
+
+/**
+ * Typed event bus for observing tasks, tool invocations, model requests and
+ * prompts. Errors thrown by listeners are logged and never reach the code
+ * that emitted the event.
+ */
+export class CassiEvents {
+  private emitter: EventEmitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Subscribes to an event.
+   * @returns A function that removes the listener.
+   */
+  on<K extends CassiEventName>(
+    type: K,
+    listener: CassiEventListener<K>
+  ): () => void {
+    this.emitter.on(type, listener);
+    return () => this.off(type, listener);
+  }
+
+  once<K extends CassiEventName>(
+    type: K,
+    listener: CassiEventListener<K>
+  ): () => void {
+    this.emitter.once(type, listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends CassiEventName>(type: K, listener: CassiEventListener<K>) {
+    this.emitter.off(type, listener);
+  }
+
+  /**
+   * Subscribes to every event.
+   * @returns A function that removes the listener.
+   */
+  onAny(listener: CassiAnyEventListener): () => void {
+    this.emitter.on(ANY_EVENT, listener);
+    return () => {
+      this.emitter.off(ANY_EVENT, listener);
+    };
+  }
+
+  /**
+   * Returns true if an event has listeners, so that emitters can skip work
+   * that is only needed to build the payload.
+   */
+  hasListeners(type: CassiEventName): boolean {
+    return (
+      this.emitter.listenerCount(type) > 0 ||
+      this.emitter.listenerCount(ANY_EVENT) > 0
+    );
+  }
+
+  emit<K extends CassiEventName>(type: K, payload: CassiEventMap[K]): void {
+    for (const listener of this.emitter.rawListeners(type)) {
+      this.callListener(type, () => listener(payload));
+    }
+    for (const listener of this.emitter.rawListeners(ANY_EVENT)) {
+      this.callListener(type, () => listener(type, payload));
+    }
+  }
+
+  private callListener(type: CassiEventName, call: () => void): void {
+    try {
+      call();
+    } catch (error) {
+      console.error(`[CassiEvents] Error in listener for ${type}:`, error);
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { CLIPromptHandler } from "./CLIPromptHandler.js";
 import { Prompt } from "../prompt/Prompt.js";
 import Input from "../prompt/prompts/Input.js";
 import Confirm from "../prompt/prompts/Confirm.js";
+import Message from "../prompt/prompts/Message.js";
 import * as readline from "node:readline/promises";
 
 vi.mock("node:readline/promises");
@@ -40,6 +41,18 @@ describe("CLIPromptHandler", () => {
     expect(mockClose).toHaveBeenCalledTimes(1);
   });
 
+  it("should print a 'message' prompt without asking a question", async () => {
+    const consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.mocked(readline.createInterface).mockClear();
+    const handler = new CLIPromptHandler(new Message("The answer."));
+
+    await handler.handlePrompt();
+
+    expect(consoleLogSpy).toHaveBeenCalledWith("\nThe answer.\n");
+    expect(vi.mocked(readline.createInterface)).not.toHaveBeenCalled();
+    consoleLogSpy.mockRestore();
+  });
+
   it("should handle a 'confirm' prompt with 'y' response", async () => {
     const mockConfirm = new Confirm("Proceed?");
     const handler = new CLIPromptHandler(mockConfirm);
@@ -105,7 +118,6 @@ describe("CLIPromptHandler", () => {
     expect(mockQuestion).toHaveBeenNthCalledWith(1, "Enter name: ");
     expect(mockInput.response).toBe("Cline");
     expect(mockClose).toHaveBeenCalledTimes(1);
-
   });
 
   it("should handle unknown prompt types gracefully", async () => {
@@ -3,6 +3,7 @@ import * as readline from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
 import Input from "../prompt/prompts/Input.js";
 import Confirm from "../prompt/prompts/Confirm.js";
+import Message from "../prompt/prompts/Message.js";
 
 export class CLIPromptHandler {
   private prompt: Prompt;
@@ -12,6 +13,11 @@ export class CLIPromptHandler {
   }
 
   async handlePrompt(): Promise<void> {
+    if (this.prompt instanceof Message) {
+      console.log(`\n${this.prompt.message}\n`);
+      return;
+    }
+
     const rl = readline.createInterface({ input, output });
     const prompt = this.prompt;
 
@@ -16,6 +16,14 @@ const invalidSchemaMissingApiKeyFile = join(
   testDirAbsolute,
   "invalid_schema_missing_apikey.json"
 );
+const validSchemaWithoutApiKeysFile = join(
+  testDirAbsolute,
+  "valid_schema_without_apikeys.json"
+);
+const validSchemaWithProviderApiKeyFile = join(
+  testDirAbsolute,
+  "valid_schema_provider_apikey.json"
+);
 const invalidSchemaExtraTopLevelFile = join(
   testDirAbsolute,
   "invalid_schema_extra_top.json"
@@ -64,6 +72,54 @@ const invalidSchemaCommandsExtraPropFile = join(
   testDirAbsolute,
   "invalid_schema_commands_extra_prop.json"
 );
+const validSchemaWithConcurrencyFile = join(
+  testDirAbsolute,
+  "valid_schema_concurrency.json"
+);
+const invalidSchemaConcurrencyFile = join(
+  testDirAbsolute,
+  "invalid_schema_concurrency.json"
+);
+const validSchemaWithWorkflowsFile = join(
+  testDirAbsolute,
+  "valid_schema_workflows.json"
+);
+const invalidSchemaWorkflowsFile = join(
+  testDirAbsolute,
+  "invalid_schema_workflows.json"
+);
+const validSchemaWithBudgetsFile = join(
+  testDirAbsolute,
+  "valid_schema_budgets.json"
+);
+const invalidSchemaBudgetsFile = join(
+  testDirAbsolute,
+  "invalid_schema_budgets.json"
+);
+const validSchemaWithProviderFile = join(
+  testDirAbsolute,
+  "valid_schema_provider.json"
+);
+const invalidSchemaProviderFile = join(
+  testDirAbsolute,
+  "invalid_schema_provider.json"
+);
+const validSchemaWithModelsFile = join(
+  testDirAbsolute,
+  "valid_schema_models.json"
+);
+const invalidSchemaModelsFile = join(
+  testDirAbsolute,
+  "invalid_schema_models.json"
+);
+const validSchemaWithPricesFile = join(
+  testDirAbsolute,
+  "valid_schema_prices.json"
+);
+const invalidSchemaPricesFile = join(
+  testDirAbsolute,
+  "invalid_schema_prices.json"
+);
 
 describe("Config", () => {
   let user: User;
@@ -88,6 +144,23 @@ describe("Config", () => {
         JSON.stringify({}),
         "utf-8"
       );
+      await writeFile(
+        validSchemaWithoutApiKeysFile,
+        JSON.stringify({
+          provider: {
+            name: "openai-compatible",
+            baseUrl: "http://localhost:8080/v1",
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithProviderApiKeyFile,
+        JSON.stringify({
+          provider: { name: "googleai", apiKey: "provider-key" },
+        }),
+        "utf-8"
+      );
       await writeFile(
         invalidSchemaExtraTopLevelFile,
         JSON.stringify({ apiKeys: { gemini: "key" }, extra: "data" }),
@@ -160,6 +233,118 @@ describe("Config", () => {
         }),
         "utf-8"
       );
+      await writeFile(
+        validSchemaWithConcurrencyFile,
+        JSON.stringify({ apiKeys: { gemini: "test-key" }, concurrency: 3 }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaConcurrencyFile,
+        JSON.stringify({ apiKeys: { gemini: "test-key" }, concurrency: 0 }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithWorkflowsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          workflow: "quick",
+          workflows: {
+            quick: [
+              { task: "Coder", args: ["{{prompt}}"] },
+              { task: "GitCommitMerge" },
+            ],
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaWorkflowsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          workflows: { quick: [{ name: "Coder" }] },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithBudgetsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          budgets: {
+            tasks: { Code: { maxSeconds: 1800, maxTokens: 2000000 } },
+            models: { Coder: { maxTurns: 50 } },
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaBudgetsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          budgets: { tasks: { Code: { maxTurns: 0 } } },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithProviderFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          provider: {
+            name: "openai-compatible",
+            baseUrl: "http://localhost:8080/v1",
+            model: "qwen2.5-coder",
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaProviderFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          provider: { baseUrl: "http://localhost:8080/v1" },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithModelsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          models: {
+            Coder: {
+              model: "gemini-2.5-pro-exp-03-25",
+              temperature: 0.2,
+              tasks: { Plan: { maxOutputTokens: 4096 } },
+            },
+            CommitMessage: { model: "gemini-2.0-flash" },
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaModelsFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          models: { Coder: { temperature: 0.2, topK: 3 } },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        validSchemaWithPricesFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          prices: {
+            "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+          },
+        }),
+        "utf-8"
+      );
+      await writeFile(
+        invalidSchemaPricesFile,
+        JSON.stringify({
+          apiKeys: { gemini: "test-key" },
+          prices: { "gemini-2.0-flash": { inputPerMillion: 0.1 } },
+        }),
+        "utf-8"
+      );
     } catch (e) {}
   });
 
@@ -169,6 +354,8 @@ describe("Config", () => {
       invalidJsonFile,
       validSchemaFile,
       invalidSchemaMissingApiKeyFile,
+      validSchemaWithoutApiKeysFile,
+      validSchemaWithProviderApiKeyFile,
       invalidSchemaExtraTopLevelFile,
       invalidSchemaMissingGeminiFile,
       invalidSchemaExtraApiKeyFile,
@@ -181,6 +368,18 @@ describe("Config", () => {
       invalidSchemaCommandsBuildTypeFile,
       invalidSchemaCommandsTestTypeFile,
       invalidSchemaCommandsExtraPropFile,
+      validSchemaWithConcurrencyFile,
+      invalidSchemaConcurrencyFile,
+      validSchemaWithWorkflowsFile,
+      invalidSchemaWorkflowsFile,
+      validSchemaWithBudgetsFile,
+      invalidSchemaBudgetsFile,
+      validSchemaWithProviderFile,
+      invalidSchemaProviderFile,
+      validSchemaWithModelsFile,
+      invalidSchemaModelsFile,
+      validSchemaWithPricesFile,
+      invalidSchemaPricesFile,
     ];
     for (const file of filesToUnlink) {
       try {
@@ -218,13 +417,29 @@ describe("Config", () => {
     });
   });
 
-  test("init() should throw validation error if required 'apiKeys' is missing", async () => {
+  test("init() should throw validation error if 'apiKeys' is missing for the googleai provider", async () => {
     const config = new Config(invalidSchemaMissingApiKeyFile, user);
     await expect(config.init()).rejects.toThrow(
-      `Config file ${invalidSchemaMissingApiKeyFile} validation failed: root must have required property 'apiKeys'`
+      `Config file ${invalidSchemaMissingApiKeyFile} validation failed: apiKeys.gemini is required for the googleai provider`
     );
   });
 
+  test("init() should not require 'apiKeys' for other providers", async () => {
+    const config = new Config(validSchemaWithoutApiKeysFile, user);
+    await config.init();
+    expect(config.configData?.apiKeys).toBeUndefined();
+    expect(config.configData?.provider?.name).toBe("openai-compatible");
+  });
+
+  test("init() should accept the googleai provider with its own API key", async () => {
+    const config = new Config(validSchemaWithProviderApiKeyFile, user);
+    await config.init();
+    expect(config.configData?.provider).toEqual({
+      name: "googleai",
+      apiKey: "provider-key",
+    });
+  });
+
   test("init() should throw validation error for extra top-level property", async () => {
     const config = new Config(invalidSchemaExtraTopLevelFile, user);
     await expect(config.init()).rejects.toThrow(
@@ -232,10 +447,10 @@ describe("Config", () => {
     );
   });
 
-  test("init() should throw validation error if required 'gemini' key is missing", async () => {
+  test("init() should throw validation error if 'gemini' key is missing for the googleai provider", async () => {
     const config = new Config(invalidSchemaMissingGeminiFile, user);
     await expect(config.init()).rejects.toThrow(
-      `Config file ${invalidSchemaMissingGeminiFile} validation failed: /apiKeys must have required property 'gemini'`
+      `Config file ${invalidSchemaMissingGeminiFile} validation failed: apiKeys.gemini is required for the googleai provider`
     );
   });
 
@@ -341,4 +556,104 @@ describe("Config", () => {
       `Error processing config file ${invalidSchemaCommandsExtraPropFile}: Config file ${invalidSchemaCommandsExtraPropFile} validation failed: /commands must NOT have additional properties (schema path: #/properties/commands/additionalProperties)`
     );
   });
+
+  test("init() should use provided concurrency value", async () => {
+    const config = new Config(validSchemaWithConcurrencyFile, user);
+    await config.init();
+    expect(config.configData?.concurrency).toBe(3);
+  });
+
+  test("init() should throw validation error if concurrency is less than 1", async () => {
+    const config = new Config(invalidSchemaConcurrencyFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaConcurrencyFile} validation failed: /concurrency must be >= 1`
+    );
+  });
+
+  test("init() should load workflows and the default workflow name", async () => {
+    const config = new Config(validSchemaWithWorkflowsFile, user);
+    await config.init();
+    expect(config.configData?.workflow).toBe("quick");
+    expect(config.configData?.workflows).toEqual({
+      quick: [
+        { task: "Coder", args: ["{{prompt}}"] },
+        { task: "GitCommitMerge" },
+      ],
+    });
+  });
+
+  test("init() should throw validation error for invalid workflow steps", async () => {
+    const config = new Config(invalidSchemaWorkflowsFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaWorkflowsFile} validation failed: /workflows/quick/0 must have required property 'task'`
+    );
+  });
+
+  test("init() should load task and model budgets", async () => {
+    const config = new Config(validSchemaWithBudgetsFile, user);
+    await config.init();
+    expect(config.configData?.budgets).toEqual({
+      tasks: { Code: { maxSeconds: 1800, maxTokens: 2000000 } },
+      models: { Coder: { maxTurns: 50 } },
+    });
+  });
+
+  test("init() should throw validation error for invalid budget limits", async () => {
+    const config = new Config(invalidSchemaBudgetsFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaBudgetsFile} validation failed: /budgets/tasks/Code/maxTurns must be >= 1`
+    );
+  });
+
+  test("init() should load the model provider", async () => {
+    const config = new Config(validSchemaWithProviderFile, user);
+    await config.init();
+    expect(config.configData?.provider).toEqual({
+      name: "openai-compatible",
+      baseUrl: "http://localhost:8080/v1",
+      model: "qwen2.5-coder",
+    });
+  });
+
+  test("init() should throw validation error for a provider without a name", async () => {
+    const config = new Config(invalidSchemaProviderFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaProviderFile} validation failed: /provider must have required property 'name'`
+    );
+  });
+
+  test("init() should load model settings", async () => {
+    const config = new Config(validSchemaWithModelsFile, user);
+    await config.init();
+    expect(config.configData?.models).toEqual({
+      Coder: {
+        model: "gemini-2.5-pro-exp-03-25",
+        temperature: 0.2,
+        tasks: { Plan: { maxOutputTokens: 4096 } },
+      },
+      CommitMessage: { model: "gemini-2.0-flash" },
+    });
+  });
+
+  test("init() should throw validation error for unknown model settings", async () => {
+    const config = new Config(invalidSchemaModelsFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaModelsFile} validation failed: /models/Coder must NOT have additional properties`
+    );
+  });
+
+  test("init() should load model prices", async () => {
+    const config = new Config(validSchemaWithPricesFile, user);
+    await config.init();
+    expect(config.configData?.prices).toEqual({
+      "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    });
+  });
+
+  test("init() should throw validation error for incomplete prices", async () => {
+    const config = new Config(invalidSchemaPricesFile, user);
+    await expect(config.init()).rejects.toThrow(
+      `Config file ${invalidSchemaPricesFile} validation failed: /prices/gemini-2.0-flash must have required property 'outputPerMillion'`
+    );
+  });
 });
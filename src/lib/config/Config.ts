@@ -2,12 +2,38 @@ import { User } from "../user/User.js";
 import { readFile } from "fs/promises";
 import Ajv from "ajv";
 import type { JSONSchemaType, ErrorObject } from "ajv";
+import {
+  workflowStepSchema,
+  type WorkflowStep,
+} from "../workflow/Workflows.js";
+import { budgetsSchema, type BudgetsConfig } from "../budget/Budget.js";
+import {
+  DEFAULT_PROVIDER,
+  providerSchema,
+  type ProviderConfig,
+} from "../model/Provider.js";
+import { modelsSchema, type ModelsConfig } from "../model/ModelSettings.js";
+import { pricesSchema, type PricesConfig } from "../usage/Usage.js";
 
 interface ConfigData {
-  apiKeys: {
-    gemini: string;
+  apiKeys?: {
+    gemini?: string;
   };
   srcDir?: string;
+  concurrency?: number;
+  workflow?: string;
+  workflows?: Record<string, WorkflowStep[]>;
+  budgets?: BudgetsConfig;
+  plugins?: string[];
+  provider?: ProviderConfig;
+  models?: ModelsConfig;
+  prices?: PricesConfig;
+  context?: {
+    maxTokens?: number;
+  };
+  review?: {
+    maxRounds?: number;
+  };
   commands?: {
     build?: string;
     test?: string;
@@ -20,9 +46,9 @@ const configSchema: JSONSchemaType<ConfigData> = {
     apiKeys: {
       type: "object",
       properties: {
-        gemini: { type: "string" },
+        gemini: { type: "string", nullable: true },
       },
-      required: ["gemini"],
+      nullable: true,
       additionalProperties: false,
     },
     srcDir: {
@@ -30,6 +56,50 @@ const configSchema: JSONSchemaType<ConfigData> = {
       nullable: true,
       default: "src",
     },
+    concurrency: {
+      type: "integer",
+      nullable: true,
+      minimum: 1,
+    },
+    workflow: {
+      type: "string",
+      nullable: true,
+    },
+    workflows: {
+      type: "object",
+      required: [],
+      additionalProperties: {
+        type: "array",
+        items: workflowStepSchema,
+        minItems: 1,
+      },
+      nullable: true,
+    },
+    budgets: { ...budgetsSchema, nullable: true },
+    plugins: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      nullable: true,
+    },
+    provider: { ...providerSchema, nullable: true },
+    models: { ...modelsSchema, nullable: true },
+    prices: { ...pricesSchema, nullable: true },
+    context: {
+      type: "object",
+      properties: {
+        maxTokens: { type: "integer", nullable: true, minimum: 1 },
+      },
+      nullable: true,
+      additionalProperties: false,
+    },
+    review: {
+      type: "object",
+      properties: {
+        maxRounds: { type: "integer", nullable: true, minimum: 0 },
+      },
+      nullable: true,
+      additionalProperties: false,
+    },
     commands: {
       type: "object",
       properties: {
@@ -41,7 +111,7 @@ const configSchema: JSONSchemaType<ConfigData> = {
       default: {},
     },
   },
-  required: ["apiKeys"],
+  required: [],
   additionalProperties: false,
 };
 
@@ -72,6 +142,18 @@ export class Config {
       const validate = ajv.compile(configSchema);
 
       if (validate(parsedData)) {
+        const providerConfig = parsedData.provider ?? {
+          name: DEFAULT_PROVIDER,
+        };
+        if (
+          providerConfig.name === DEFAULT_PROVIDER &&
+          !providerConfig.apiKey &&
+          !parsedData.apiKeys?.gemini
+        ) {
+          throw new Error(
+            `Config file ${this.configFile} validation failed: apiKeys.gemini is required for the ${DEFAULT_PROVIDER} provider`
+          );
+        }
         this.configData = parsedData;
       } else {
         const errors = validate.errors
@@ -92,6 +174,9 @@ export class Config {
       );
     }
 
-    process.env.GEMINI_API_KEY = this.configData?.apiKeys.gemini;
+    const geminiApiKey = this.configData?.apiKeys?.gemini;
+    if (geminiApiKey) {
+      process.env.GEMINI_API_KEY = geminiApiKey;
+    }
   }
 }
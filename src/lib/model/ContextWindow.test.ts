@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import type { MessageData } from "genkit";
+import {
+  compactMessages,
+  estimateMessagesTokens,
+  estimateTokens,
+} from "./ContextWindow.js";
+
+const file = (name: string) => `// ${name}\n${"x".repeat(4_000)}`;
+
+const toolTurn = (
+  name: string,
+  input: Record<string, any>,
+  output: any,
+  ref?: string
+): MessageData[] => [
+  { role: "model", content: [{ toolRequest: { name, ref, input } }] },
+  { role: "tool", content: [{ toolResponse: { name, ref, output } }] },
+];
+
+const outputOf = (message: MessageData) =>
+  message.content[0].toolResponse!.output;
+
+describe("estimateTokens", () => {
+  it("should estimate four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens({ a: 1 })).toBe(2);
+    expect(estimateTokens(undefined)).toBe(0);
+    expect(
+      estimateMessagesTokens([{ role: "user", content: [{ text: "abcd" }] }])
+    ).toBe(4);
+  });
+});
+
+describe("compactMessages", () => {
+  const system: MessageData = {
+    role: "system",
+    content: [{ text: `System ${"s".repeat(2_000)}` }],
+  };
+  const prompt: MessageData = {
+    role: "user",
+    content: [{ text: `Refactor ${"p".repeat(2_000)}` }],
+  };
+  const recent = (count: number) =>
+    Array.from({ length: count }, (_, index) =>
+      toolTurn("ListFiles", { n: index }, ["a.ts"])
+    ).flat();
+
+  it("should return the messages unchanged if they fit", () => {
+    const messages = [prompt, ...toolTurn("ReadFile", { path: "a.ts" }, "a")];
+
+    expect(compactMessages(messages, { maxTokens: 10_000 })).toBe(messages);
+  });
+
+  it("should drop file contents superseded by later reads and writes", () => {
+    const messages = [
+      system,
+      prompt,
+      ...toolTurn("ReadFile", { path: "a.ts" }, file("a1"), "1"),
+      ...toolTurn("ReadFile", { path: "b.ts" }, file("b1"), "2"),
+      ...toolTurn(
+        "WriteFile",
+        { path: "a.ts", content: file("a2") },
+        file("a2"),
+        "3"
+      ),
+      ...toolTurn(
+        "ReplaceInFile",
+        { path: "a.ts", find: "x", replace: "y" },
+        "OK"
+      ),
+      ...recent(3),
+    ];
+
+    const compacted = compactMessages(messages, { maxTokens: 3_000 });
+
+    expect(compacted[0]).toEqual(system);
+    expect(compacted[1]).toEqual(prompt);
+    expect(outputOf(compacted[3])).toBe(
+      "[Content of a.ts omitted: the file was read or changed again later]"
+    );
+    expect(outputOf(compacted[5])).toBe(file("b1"));
+    expect(compacted[6].content[0].toolRequest!.input).toEqual({
+      path: "a.ts",
+      content:
+        "[Content of a.ts omitted: the file was read or changed again later]",
+    });
+    expect(outputOf(compacted[7])).toBe(
+      "[Content of a.ts omitted: the file was read or changed again later]"
+    );
+    expect(compacted.slice(-6)).toEqual(messages.slice(-6));
+    expect(outputOf(messages[3])).toBe(file("a1"));
+  });
+
+  it("should shorten old tool outputs if dropping file contents is not enough", () => {
+    const messages = [
+      prompt,
+      ...toolTurn("ReadFile", { path: "a.ts" }, file("a")),
+      ...toolTurn("ExecuteCommand", { command: "npm test" }, "y".repeat(5_000)),
+      ...recent(3),
+    ];
+
+    const compacted = compactMessages(messages, {
+      maxTokens: 2_000,
+      maxOutputChars: 100,
+    });
+
+    expect(outputOf(compacted[2])).toBe(
+      `${file("a").slice(0, 100)}\n[... ${
+        file("a").length - 100
+      } characters omitted to save context]`
+    );
+    expect(outputOf(compacted[4])).toMatch(
+      /^y{100}\n\[\.\.\. 4900 characters omitted to save context\]$/
+    );
+  });
+
+  it("should drop old tool outputs as a last resort", () => {
+    const messages = [
+      prompt,
+      ...toolTurn("ReadFile", { path: "a.ts" }, file("a")),
+      ...toolTurn("ReadFile", { path: "b.ts" }, file("b")),
+      ...recent(1),
+    ];
+
+    const compacted = compactMessages(messages, {
+      maxTokens: 700,
+      recentTurns: 1,
+      maxOutputChars: 1_000,
+    });
+
+    expect(outputOf(compacted[2])).toBe("[Output omitted to save context]");
+    expect(outputOf(compacted[4])).toBe("[Output omitted to save context]");
+    expect(compacted.slice(-2)).toEqual(messages.slice(-2));
+  });
+
+  it("should keep the most recent turns intact", () => {
+    const messages = [
+      prompt,
+      ...toolTurn("ReadFile", { path: "a.ts" }, file("a1")),
+      ...toolTurn("ReadFile", { path: "a.ts" }, file("a2")),
+    ];
+
+    expect(
+      compactMessages(messages, { maxTokens: 100, recentTurns: 2 })
+    ).toEqual(messages);
+  });
+});
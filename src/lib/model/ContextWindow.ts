@@ -0,0 +1,239 @@
+import type { MessageData, Part } from "genkit";
+
+/**
+ * Context window in tokens used for models without a configured
+ * `contextWindow` setting.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/**
+ * Share of the context window the message history may use before it is
+ * compacted.
+ */
+export const COMPACTION_THRESHOLD = 0.8;
+
+export interface CompactionOptions {
+  /** Estimated number of tokens the compacted messages should fit into. */
+  maxTokens: number;
+  /** Number of most recent model turns that are never changed. */
+  recentTurns?: number;
+  /** Length old tool outputs are shortened to. */
+  maxOutputChars?: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_RECENT_TURNS = 3;
+const DEFAULT_MAX_OUTPUT_CHARS = 2_000;
+
+const FILE_READ_TOOLS = ["ReadFile"];
+const FILE_WRITE_TOOLS = ["WriteFile", "ReplaceInFile"];
+
+const pathOf = (request: Part["toolRequest"]): unknown =>
+  (request?.input as { path?: unknown } | undefined)?.path;
+
+/**
+ * Estimates the number of tokens of a value from the length of its text or
+ * JSON.
+ */
+export const estimateTokens = (value: unknown): number => {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+export const estimateMessagesTokens = (messages: MessageData[]): number =>
+  messages.reduce(
+    (sum, message) =>
+      sum +
+      message.content.reduce((total, part) => total + estimateTokens(part), 0),
+    0
+  );
+
+const omittedFile = (filePath: string): string =>
+  `[Content of ${filePath} omitted: the file was read or changed again later]`;
+
+const shorten = (value: unknown, maxChars: number): unknown => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text === undefined || text.length <= maxChars) {
+    return value;
+  }
+  return `${text.slice(0, maxChars)}\n[... ${
+    text.length - maxChars
+  } characters omitted to save context]`;
+};
+
+interface FileContent {
+  messageIndex: number;
+  partIndex: number;
+  filePath: string;
+  kind: "request" | "response";
+}
+
+/**
+ * Finds the tool request each tool response answers, by ref or else by name
+ * in the order of the requests.
+ */
+const matchRequests = (
+  messages: MessageData[]
+): Map<Part, Part["toolRequest"]> => {
+  const matched = new Map<Part, Part["toolRequest"]>();
+  let pending: NonNullable<Part["toolRequest"]>[] = [];
+  for (const message of messages) {
+    if (message.role === "model") {
+      pending = message.content
+        .filter((part) => part.toolRequest)
+        .map((part) => part.toolRequest!);
+      continue;
+    }
+    for (const part of message.content) {
+      if (!part.toolResponse) {
+        continue;
+      }
+      const { name, ref } = part.toolResponse;
+      const index = pending.findIndex((request) =>
+        ref !== undefined ? request.ref === ref : request.name === name
+      );
+      if (index !== -1) {
+        matched.set(part, pending[index]);
+        pending.splice(index, 1);
+      }
+    }
+  }
+  return matched;
+};
+
+/**
+ * Returns the file contents in the messages in order: file reads, echoed
+ * file writes and the content of write requests.
+ */
+const findFileContents = (messages: MessageData[]): FileContent[] => {
+  const requests = matchRequests(messages);
+  const contents: FileContent[] = [];
+  messages.forEach((message, messageIndex) => {
+    message.content.forEach((part, partIndex) => {
+      const request = part.toolRequest;
+      if (request && FILE_WRITE_TOOLS.includes(request.name)) {
+        contents.push({
+          messageIndex,
+          partIndex,
+          filePath: pathOf(request) as string,
+          kind: "request",
+        });
+      }
+      const response = part.toolResponse;
+      const responseRequest = requests.get(part);
+      if (
+        response &&
+        responseRequest &&
+        [...FILE_READ_TOOLS, "WriteFile"].includes(response.name)
+      ) {
+        contents.push({
+          messageIndex,
+          partIndex,
+          filePath: pathOf(responseRequest) as string,
+          kind: "response",
+        });
+      }
+    });
+  });
+  return contents.filter((content) => typeof content.filePath === "string");
+};
+
+/**
+ * Compacts the message history of a tool conversation so that it fits into
+ * the context window. System messages, the first user message and the most
+ * recent turns are kept as they are. In older messages, in order until the
+ * messages fit:
+ * - file contents that a later read or write of the same file superseded
+ *   are dropped,
+ * - long tool outputs are shortened,
+ * - tool outputs are dropped.
+ * @returns The compacted messages, the same array if nothing was changed.
+ */
+export const compactMessages = (
+  messages: MessageData[],
+  options: CompactionOptions
+): MessageData[] => {
+  if (estimateMessagesTokens(messages) <= options.maxTokens) {
+    return messages;
+  }
+  const recentTurns = options.recentTurns ?? DEFAULT_RECENT_TURNS;
+  const maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+
+  const modelIndexes = messages
+    .map((message, index) => (message.role === "model" ? index : -1))
+    .filter((index) => index !== -1);
+  const recentStart =
+    modelIndexes.length > recentTurns
+      ? modelIndexes[modelIndexes.length - recentTurns]
+      : 0;
+  const firstUser = messages.findIndex((message) => message.role === "user");
+  const isOld = (index: number) =>
+    index < recentStart &&
+    index !== firstUser &&
+    messages[index].role !== "system";
+
+  const compacted: MessageData[] = messages.map((message) => ({
+    ...message,
+    content: [...message.content],
+  }));
+  const fits = () => estimateMessagesTokens(compacted) <= options.maxTokens;
+
+  const fileContents = findFileContents(messages);
+  fileContents.forEach((content, index) => {
+    const superseded = fileContents
+      .slice(index + 1)
+      .some((later) => later.filePath === content.filePath);
+    if (!superseded || !isOld(content.messageIndex)) {
+      return;
+    }
+    const message = compacted[content.messageIndex];
+    const part = message.content[content.partIndex];
+    if (content.kind === "response") {
+      message.content[content.partIndex] = {
+        toolResponse: {
+          ...part.toolResponse!,
+          output: omittedFile(content.filePath),
+        },
+      };
+      return;
+    }
+    const input = part.toolRequest!.input as Record<string, unknown>;
+    if (input.content !== undefined) {
+      message.content[content.partIndex] = {
+        toolRequest: {
+          ...part.toolRequest!,
+          input: { ...input, content: omittedFile(content.filePath) },
+        },
+      };
+    }
+  });
+
+  const replaceOldOutputs = (replace: (output: unknown) => unknown) => {
+    compacted.forEach((message, messageIndex) => {
+      if (!isOld(messageIndex)) {
+        return;
+      }
+      message.content = message.content.map((part) =>
+        part.toolResponse
+          ? {
+              toolResponse: {
+                ...part.toolResponse,
+                output: replace(part.toolResponse.output),
+              },
+            }
+          : part
+      );
+    });
+  };
+
+  if (!fits()) {
+    replaceOldOutputs((output) => shorten(output, maxOutputChars));
+  }
+  if (!fits()) {
+    replaceOldOutputs(() => "[Output omitted to save context]");
+  }
+  return compacted;
+};
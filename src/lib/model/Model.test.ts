@@ -6,15 +6,23 @@ import { Config } from "../config/Config.js";
 import { Task } from "../task/Task.js";
 import fs from "fs/promises";
 import path from "path";
+import { ModelReference } from "genkit";
+import {
+  gemini,
+  gemini20Flash,
+  gemini25ProPreview0325,
+} from "@genkit-ai/googleai";
 
 vi.mock("../user/User.js");
 vi.mock("../config/Config.js");
 vi.mock("../task/Task.js");
 vi.mock("fs/promises");
 
-vi.mock("@genkit-ai/googleai", () => {
+vi.mock("@genkit-ai/googleai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@genkit-ai/googleai")>();
   const mockGoogleAI = vi.fn(() => () => "mockGoogleAIPlugin");
   return {
+    ...actual,
     googleAI: mockGoogleAI,
   };
 });
@@ -42,8 +50,8 @@ vi.mock("path", async (importOriginal) => {
 
 class MockModel1 extends Models {
   public plugin: any;
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
     this.plugin = plugin;
   }
   async generate(options: GenerateModelOptions): Promise<string> {
@@ -56,8 +64,8 @@ class MockModel1 extends Models {
 }
 class MockModel2 extends Models {
   public plugin: any;
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
     this.plugin = plugin;
   }
   async generate(options: GenerateModelOptions): Promise<string> {
@@ -124,7 +132,6 @@ describe("Model", () => {
     vi.restoreAllMocks();
   });
 
-
   describe("init", () => {
     it("should initialize availableModels by reading the models directory", async () => {
       const mockFiles = [
@@ -247,7 +254,6 @@ describe("Model", () => {
     });
 
     it("should create a new instance of the specified model class", async () => {
-
       const newInstance = model.newInstance("MockModel1", mockTask);
 
       expect(newInstance).toBeInstanceOf(MockModel1);
@@ -256,6 +262,77 @@ describe("Model", () => {
       expect((newInstance as any).task).toBe(mockTask);
     });
 
+    it("should use the Google AI provider and its default models by default", () => {
+      const newInstance = model.newInstance("MockModel1", mockTask);
+
+      expect(newInstance.model).toBe(gemini25ProPreview0325);
+    });
+
+    it("should use the provider selected in the config", () => {
+      const plugin = () => "mockBedrockPlugin";
+      const getModel = vi.fn(() => gemini20Flash);
+      const factory = vi.fn(() => ({ plugin, getModel }));
+      model.registerProvider("bedrock", factory);
+      const providerConfig = { name: "bedrock", model: "claude" };
+      const task = {
+        cassi: { config: { configData: { provider: providerConfig } } },
+      } as unknown as Task;
+
+      const newInstance = model.newInstance("MockModel2", task) as MockModel2;
+
+      expect(factory).toHaveBeenCalledWith(providerConfig);
+      expect(getModel).toHaveBeenCalledWith("MockModel2");
+      expect(newInstance.plugin).toBe(plugin);
+      expect(newInstance.model).toBe(gemini20Flash);
+    });
+
+    it("should use the model and generation config from the models section", () => {
+      const factory = vi.fn((config) => ({
+        plugin: () => "mockPlugin",
+        getModel: () => gemini(config.model),
+      }));
+      model.registerProvider("googleai", factory);
+      const task = {
+        cassi: {
+          config: {
+            configData: {
+              models: {
+                MockModel1: {
+                  model: "gemini-2.0-flash",
+                  temperature: 0.1,
+                  maxOutputTokens: 512,
+                  maxToolTurns: 20,
+                  contextWindow: 100_000,
+                  lockToolPaths: true,
+                },
+              },
+            },
+          },
+        },
+      } as unknown as Task;
+
+      const newInstance = model.newInstance("MockModel1", task);
+
+      expect(factory).toHaveBeenCalledWith({
+        name: "googleai",
+        model: "gemini-2.0-flash",
+      });
+      expect(newInstance.model?.name).toBe("googleai/gemini-2.0-flash");
+      expect(newInstance.model?.config).toEqual({
+        temperature: 0.1,
+        maxOutputTokens: 512,
+      });
+    });
+
+    it("should throw an error if the configured provider is not registered", () => {
+      const task = {
+        cassi: { config: { configData: { provider: { name: "missing" } } } },
+      } as unknown as Task;
+
+      expect(() => model.newInstance("MockModel1", task)).toThrow(
+        "Model provider 'missing' not found. Available providers: googleai, openai-compatible"
+      );
+    });
 
     it("should throw an error if the model class name is not found", () => {
       const modelName = "NonExistentModel";
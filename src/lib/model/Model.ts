@@ -4,17 +4,39 @@ import { Models } from "./Models.js";
 import fs from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "url";
-import { googleAI } from "@genkit-ai/googleai";
 import { ModelReference } from "genkit/model";
 import { Task } from "../task/Task.js";
+import {
+  ProviderConfig,
+  ProviderFactory,
+  ModelProvider,
+  DEFAULT_PROVIDER,
+} from "./Provider.js";
+import {
+  omitModelsOnlySettings,
+  resolveModelSettings,
+} from "./ModelSettings.js";
+import { googleAIProvider } from "./providers/GoogleAI.js";
+import {
+  openAICompatibleProvider,
+  OPENAI_COMPATIBLE_PROVIDER,
+} from "./providers/OpenAICompatible.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-export type ModelConstructor = new (plugin: any, task: Task) => Models;
+export type ModelConstructor = new (
+  plugin: any,
+  task: Task,
+  model?: ModelReference<any>
+) => Models;
 
 export class Model {
   public availableModels: Map<string, ModelConstructor> = new Map();
+  public availableProviders: Map<string, ProviderFactory> = new Map([
+    [DEFAULT_PROVIDER, googleAIProvider],
+    [OPENAI_COMPATIBLE_PROVIDER, openAICompatibleProvider],
+  ]);
 
   constructor() {
   }
@@ -63,10 +85,37 @@ export class Model {
     }
   }
 
+  /**
+   * Adds a model provider that can be selected with the `provider` section of
+   * the config file. Replaces any provider with the same name.
+   */
+  registerProvider(name: string, factory: ProviderFactory): void {
+    this.availableProviders.set(name, factory);
+  }
+
+  /**
+   * Creates the provider selected in the config file, Google AI by default.
+   * @throws Error if the provider is not registered.
+   */
+  getProvider(config?: ProviderConfig | null): ModelProvider {
+    const providerConfig = config ?? { name: DEFAULT_PROVIDER };
+    const factory = this.availableProviders.get(providerConfig.name);
+    if (!factory) {
+      throw new Error(
+        `Model provider '${providerConfig.name}' not found. Available providers: ${[
+          ...this.availableProviders.keys(),
+        ].join(", ")}`
+      );
+    }
+    return factory(providerConfig);
+  }
+
   /**
    * Creates a new instance of a specified model class.
    * Requires `init()` to be called first to populate available models.
-   * @param modelClassName The name of the model class to instantiate.
+   * The instance is built with the plugin and model reference of the
+   * configured provider, using the model name and generation config from the
+   * `models` section of the config file.
    * @param modelClassName The name of the model class to instantiate.
    * @param task The task context for the new model instance.
    * @returns A new instance of the specified model class (which extends Models).
@@ -77,6 +126,21 @@ export class Model {
     if (!ModelClass) {
       throw new Error(`Model class '${modelClassName}' not found.`);
     }
-    return new ModelClass(googleAI(), task);
+    const configData = task?.cassi?.config?.configData;
+    const { model: modelName, ...settings } = resolveModelSettings(
+      configData?.models,
+      modelClassName,
+      task
+    );
+    const generationConfig = omitModelsOnlySettings(settings);
+    const providerConfig = configData?.provider ?? { name: DEFAULT_PROVIDER };
+    const provider = this.getProvider(
+      modelName ? { ...providerConfig, model: modelName } : providerConfig
+    );
+    let model = provider.getModel(modelClassName);
+    if (Object.keys(generationConfig).length > 0) {
+      model = model.withConfig({ ...model.config, ...generationConfig });
+    }
+    return new ModelClass(provider.plugin, task, model);
   }
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ModelActivityPrinter, describeToolCall } from "./ModelActivity.js";
+import { CassiEvents } from "../cassi/CassiEvents.js";
+import type { Models } from "./Models.js";
+import type { Task } from "../task/Task.js";
+
+class Coder {}
+class Tester {}
+
+describe("describeToolCall", () => {
+  it("should describe a call by the path, command or pattern of its input", () => {
+    expect(describeToolCall("ReadFile", { path: "src/a.ts" })).toBe(
+      "ReadFile src/a.ts"
+    );
+    expect(
+      describeToolCall("ExecuteCommand", { command: "npm test", cwd: "." })
+    ).toBe("ExecuteCommand npm test");
+  });
+
+  it("should fall back to the JSON of the input and truncate it", () => {
+    expect(describeToolCall("RunBuild", {})).toBe("RunBuild");
+    expect(describeToolCall("RunTestAll", undefined)).toBe("RunTestAll");
+    const summary = describeToolCall("Search", { text: "x".repeat(200) });
+    expect(summary.length).toBe("Search ".length + 80);
+    expect(summary.endsWith("...")).toBe(true);
+  });
+});
+
+describe("ModelActivityPrinter", () => {
+  let events: CassiEvents;
+  let output: string;
+  const task = {} as Task;
+  const coder = new Coder() as unknown as Models;
+  const tester = new Tester() as unknown as Models;
+
+  beforeEach(() => {
+    events = new CassiEvents();
+    output = "";
+    new ModelActivityPrinter((text) => {
+      output += text;
+    }).attach(events);
+  });
+
+  it("should print streamed text followed by tool calls on their own lines", () => {
+    events.emit("model:chunk", { model: coder, task, text: "Reading " });
+    events.emit("model:chunk", { model: coder, task, text: "the file" });
+    events.emit("model:response", {
+      model: coder,
+      task,
+      modelName: null,
+      usage: null,
+      cost: null,
+      text: "Reading the file",
+    });
+    events.emit("model:toolCall", {
+      model: coder,
+      task,
+      name: "ReadFile",
+      ref: "0-0",
+      input: { path: "src/a.ts" },
+    });
+    events.emit("model:toolResult", {
+      model: coder,
+      task,
+      name: "ReadFile",
+      ref: "0-0",
+      error: null,
+      durationMs: 3,
+    });
+
+    expect(output).toBe(
+      "[Coder] Reading the file\n  [Coder] ReadFile src/a.ts\n"
+    );
+  });
+
+  it("should print failed tool calls", () => {
+    events.emit("model:toolResult", {
+      model: coder,
+      task,
+      name: "ReplaceInFile",
+      ref: null,
+      error: '"ERROR"',
+      durationMs: 1,
+    });
+
+    expect(output).toBe('  [Coder] ReplaceInFile failed: "ERROR"\n');
+  });
+
+  it("should start a new line when another model streams", () => {
+    events.emit("model:chunk", { model: coder, task, text: "a" });
+    events.emit("model:chunk", { model: tester, task, text: "b" });
+
+    expect(output).toBe("[Coder] a\n[Tester] b");
+  });
+
+  it("should stop printing when detached", () => {
+    const detachedEvents = new CassiEvents();
+    let detachedOutput = "";
+    const detach = new ModelActivityPrinter((text) => {
+      detachedOutput += text;
+    }).attach(detachedEvents);
+
+    detach();
+    detachedEvents.emit("model:chunk", { model: coder, task, text: "a" });
+
+    expect(detachedOutput).toBe("");
+  });
+});
@@ -0,0 +1,86 @@
+import type { CassiEvents } from "../cassi/CassiEvents.js";
+import type { Models } from "./Models.js";
+
+const MAX_SUMMARY_LENGTH = 80;
+const SUMMARY_KEYS = ["path", "command", "pattern", "file", "query"];
+
+const truncate = (text: string): string =>
+  text.length > MAX_SUMMARY_LENGTH
+    ? `${text.slice(0, MAX_SUMMARY_LENGTH - 3)}...`
+    : text;
+
+/**
+ * Returns a one line description of a tool call, e.g. "ReadFile src/a.ts".
+ * Uses the path, command or pattern of the input if it has one.
+ */
+export const describeToolCall = (name: string, input: any): string => {
+  if (input === undefined || input === null) {
+    return name;
+  }
+  if (typeof input !== "object") {
+    return `${name} ${truncate(String(input))}`;
+  }
+  const key = SUMMARY_KEYS.find((key) => typeof input[key] === "string");
+  const summary = key ? input[key] : JSON.stringify(input);
+  return summary === "{}" ? name : `${name} ${truncate(summary)}`;
+};
+
+/**
+ * Prints the activity of models as it happens: partial response text while
+ * it streams and one line per tool call.
+ */
+export class ModelActivityPrinter {
+  private write: (text: string) => void;
+  private streaming: Models | null = null;
+
+  constructor(
+    write: (text: string) => void = (text) => process.stdout.write(text)
+  ) {
+    this.write = write;
+  }
+
+  /**
+   * Subscribes to the model events of a Cassi instance.
+   * @returns A function that removes the subscriptions.
+   */
+  attach(events: CassiEvents): () => void {
+    const subscriptions = [
+      events.on("model:chunk", ({ model, text }) => this.chunk(model, text)),
+      events.on("model:response", ({ model }) => {
+        if (this.streaming === model) {
+          this.endStream();
+        }
+      }),
+      events.on("model:toolCall", ({ model, name, input }) =>
+        this.line(model, describeToolCall(name, input))
+      ),
+      events.on("model:toolResult", ({ model, name, error }) => {
+        if (error !== null) {
+          this.line(model, `${name} failed: ${truncate(error)}`);
+        }
+      }),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private chunk(model: Models, text: string): void {
+    if (this.streaming !== model) {
+      this.endStream();
+      this.write(`[${model.constructor.name}] `);
+      this.streaming = model;
+    }
+    this.write(text);
+  }
+
+  private line(model: Models, text: string): void {
+    this.endStream();
+    this.write(`  [${model.constructor.name}] ${text}\n`);
+  }
+
+  private endStream(): void {
+    if (this.streaming) {
+      this.write("\n");
+      this.streaming = null;
+    }
+  }
+}
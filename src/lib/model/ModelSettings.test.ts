@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveModelSettings,
+  omitModelsOnlySettings,
+  ModelsConfig,
+} from "./ModelSettings.js";
+import { Task } from "../task/Task.js";
+import type { Cassi } from "../cassi/Cassi.js";
+
+class Plan extends Task {}
+class Coder extends Task {}
+
+const config: ModelsConfig = {
+  Coder: {
+    model: "gemini-2.5-pro-exp-03-25",
+    temperature: 0.2,
+    tasks: {
+      Plan: { model: "gemini-2.0-flash", maxOutputTokens: 4096 },
+    },
+  },
+};
+
+describe("resolveModelSettings", () => {
+  const cassi = {} as Cassi;
+
+  it("should return empty settings when nothing is configured", () => {
+    expect(resolveModelSettings(undefined, "Coder", new Coder(cassi))).toEqual(
+      {}
+    );
+  });
+
+  it("should return the settings for the model class", () => {
+    expect(resolveModelSettings(config, "Coder", new Coder(cassi))).toEqual({
+      model: "gemini-2.5-pro-exp-03-25",
+      temperature: 0.2,
+    });
+  });
+
+  it("should apply overrides for the nearest configured task", () => {
+    const plan = new Plan(cassi);
+    const coder = new Coder(cassi, plan);
+
+    expect(resolveModelSettings(config, "Coder", coder)).toEqual({
+      model: "gemini-2.0-flash",
+      temperature: 0.2,
+      maxOutputTokens: 4096,
+    });
+  });
+
+  it("should replace the model with the task's model override", () => {
+    const plan = new Plan(cassi);
+    plan.modelOverride = "qwen2.5-coder";
+    const coder = new Coder(cassi, plan);
+
+    expect(resolveModelSettings(config, "Coder", coder)).toEqual({
+      model: "qwen2.5-coder",
+      temperature: 0.2,
+      maxOutputTokens: 4096,
+    });
+    expect(resolveModelSettings(config, "Tester", coder)).toEqual({
+      model: "qwen2.5-coder",
+    });
+  });
+});
+
+describe("omitModelsOnlySettings", () => {
+  it("should keep only the generation config", () => {
+    const settings = {
+      temperature: 0.2,
+      maxOutputTokens: 512,
+      maxToolTurns: 20,
+      contextWindow: 100_000,
+      stream: false,
+      maxOutputRetries: 1,
+      lockToolPaths: true,
+    };
+
+    expect(omitModelsOnlySettings(settings)).toEqual({
+      temperature: 0.2,
+      maxOutputTokens: 512,
+    });
+    expect(settings.maxToolTurns).toBe(20);
+  });
+});
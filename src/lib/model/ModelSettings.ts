@@ -0,0 +1,138 @@
+import type { JSONSchemaType } from "ajv";
+import type { Task } from "../task/Task.js";
+
+/**
+ * The model name and generation config used by a Models class. Model names
+ * are passed to the configured provider, e.g. "gemini-2.5-pro-exp-03-25".
+ * The `max*Tool*` settings limit the tool loop of the model, see
+ * `ToolLoopLimits`. `contextWindow` is the number of tokens the model
+ * accepts, long tool conversations are compacted to fit into it. `stream`
+ * set to false turns off streaming of partial responses. `maxOutputRetries`
+ * is how often a model is asked again for structured output that does not
+ * match its schema. `lockToolPaths` lets mutating tool calls of one turn run
+ * in parallel when they work on different files, instead of one after the
+ * other.
+ */
+export interface ModelSettings {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  maxToolTurns?: number;
+  maxRepeatedToolCalls?: number;
+  maxRepeatedToolFailures?: number;
+  contextWindow?: number;
+  stream?: boolean;
+  maxOutputRetries?: number;
+  lockToolPaths?: boolean;
+}
+
+/**
+ * Settings applied by Models itself, the tool loop limits, the context
+ * window, streaming, output retries and tool path locking. They are not
+ * passed to the model as generation config.
+ */
+export const MODELS_ONLY_SETTINGS = [
+  "maxToolTurns",
+  "maxRepeatedToolCalls",
+  "maxRepeatedToolFailures",
+  "contextWindow",
+  "stream",
+  "maxOutputRetries",
+  "lockToolPaths",
+] as const satisfies readonly (keyof ModelSettings)[];
+
+export type ModelsOnlySetting = (typeof MODELS_ONLY_SETTINGS)[number];
+
+/**
+ * Returns the settings without the settings applied by Models.
+ */
+export const omitModelsOnlySettings = <T extends ModelSettings>(
+  settings: T
+): Omit<T, ModelsOnlySetting> => {
+  const rest: Partial<T> = { ...settings };
+  for (const key of MODELS_ONLY_SETTINGS) {
+    delete rest[key];
+  }
+  return rest as Omit<T, ModelsOnlySetting>;
+};
+
+/**
+ * Settings for one Models class. `tasks` overrides the settings for models
+ * created by the named task or any of its subtasks.
+ */
+export interface ModelClassSettings extends ModelSettings {
+  tasks?: Record<string, ModelSettings>;
+}
+
+export type ModelsConfig = Record<string, ModelClassSettings>;
+
+const modelSettingsProperties = {
+  model: { type: "string", nullable: true, minLength: 1 },
+  temperature: { type: "number", nullable: true, minimum: 0 },
+  maxOutputTokens: { type: "integer", nullable: true, minimum: 1 },
+  maxToolTurns: { type: "integer", nullable: true, minimum: 1 },
+  maxRepeatedToolCalls: { type: "integer", nullable: true, minimum: 2 },
+  maxRepeatedToolFailures: { type: "integer", nullable: true, minimum: 2 },
+  contextWindow: { type: "integer", nullable: true, minimum: 1 },
+  stream: { type: "boolean", nullable: true },
+  maxOutputRetries: { type: "integer", nullable: true, minimum: 0 },
+  lockToolPaths: { type: "boolean", nullable: true },
+} as const;
+
+const modelSettingsSchema: JSONSchemaType<ModelSettings> = {
+  type: "object",
+  properties: modelSettingsProperties,
+  required: [],
+  additionalProperties: false,
+};
+
+export const modelsSchema: JSONSchemaType<ModelsConfig> = {
+  type: "object",
+  required: [],
+  additionalProperties: {
+    type: "object",
+    properties: {
+      ...modelSettingsProperties,
+      tasks: {
+        type: "object",
+        required: [],
+        additionalProperties: modelSettingsSchema,
+        nullable: true,
+      },
+    },
+    required: [],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Resolves the settings for a Models class created by a task. Settings for
+ * the class are overridden by the settings for the nearest task in the
+ * task's parent chain, and the model name by a `--model` override on the
+ * task.
+ * @param config The `models` section of the config file.
+ * @param modelClassName The name of the Models class.
+ * @param task The task creating the model.
+ * @returns The resolved settings, empty if nothing is configured.
+ */
+export const resolveModelSettings = (
+  config: ModelsConfig | undefined,
+  modelClassName: string,
+  task: Task | null
+): ModelSettings => {
+  const { tasks, ...classSettings } = config?.[modelClassName] ?? {};
+  let taskSettings: ModelSettings = {};
+  for (let current = task; current; current = current.parentTask) {
+    const override = tasks?.[current.constructor.name];
+    if (override) {
+      taskSettings = override;
+      break;
+    }
+  }
+  const settings: ModelSettings = { ...classSettings, ...taskSettings };
+  const modelOverride = task?.getModelOverride?.();
+  if (modelOverride) {
+    settings.model = modelOverride;
+  }
+  return settings;
+};
@@ -3,6 +3,10 @@ import { z } from "zod";
 import { Models, GenerateModelOptions } from "./Models.js";
 import { Task } from "../task/Task.js";
 import { ToolDefinition } from "../tool/Tool.js";
+import { CassiEvents } from "../cassi/CassiEvents.js";
+import { BudgetExceededError } from "../budget/Budget.js";
+import { ToolLoopError } from "./ToolLoop.js";
+import Confirm from "../prompt/prompts/Confirm.js";
 import {
   genkit,
   GenkitError,
@@ -13,6 +17,7 @@ import {
   ToolResponse,
   ToolRequestPart,
   ToolResponsePart,
+  ModelReference,
 } from "genkit";
 
 vi.mock("genkit", async (importOriginal) => {
@@ -27,9 +32,15 @@ vi.mock("genkit", async (importOriginal) => {
 });
 
 vi.mock("../task/Task.js", () => ({
-  Task: vi.fn().mockImplementation(() => ({
-    config: { cwd: "/fake/path" },
-  })),
+  Task: vi.fn().mockImplementation(() => {
+    const controller = new AbortController();
+    return {
+      config: { cwd: "/fake/path" },
+      abortController: controller,
+      getSignal: () => controller.signal,
+      checkBudget: vi.fn(),
+    };
+  }),
 }));
 
 const createToolParameters = (
@@ -40,8 +51,8 @@ const createToolParameters = (
 };
 
 class TestModel extends Models {
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
   }
 
   async generate(options: GenerateModelOptions): Promise<string> {
@@ -66,6 +77,35 @@ describe("Models", () => {
     expect(() => new TestModel({}, task)).not.toThrow();
   });
 
+  describe("model", () => {
+    it("should use the provider model for requests without a model", async () => {
+      const providerModel = { name: "openai-compatible/qwen" } as any;
+      const model = new TestModel({}, task, providerModel);
+      const generate = model.ai.generate as ReturnType<typeof vi.fn>;
+      generate.mockResolvedValue({ text: "Done", toolRequests: [] });
+
+      await model.generateWithTools({ prompt: "p" });
+
+      expect(generate).toHaveBeenCalledWith({
+        prompt: "p",
+        model: providerModel,
+      });
+    });
+
+    it("should keep a model passed in the request options", async () => {
+      const requestModel = { name: "googleai/gemini-2.0-flash" } as any;
+      const model = new TestModel({}, task, {
+        name: "openai-compatible/qwen",
+      } as any);
+      const generate = model.ai.generate as ReturnType<typeof vi.fn>;
+      generate.mockResolvedValue({ text: "Done", toolRequests: [] });
+
+      await model.generateWithTools({ model: requestModel, prompt: "p" });
+
+      expect(generate.mock.calls[0][0].model).toBe(requestModel);
+    });
+  });
+
   describe("initializeTools", () => {
     it("should initialize tools and handlers correctly", () => {
       const mockToolDef: ToolDefinition = {
@@ -105,11 +145,9 @@ describe("Models", () => {
       mockToolDef = {
         name: "testTool",
         description: "A test tool",
-        inputSchema: createToolParameters(
-          {
-            param1: z.string(),
-          }
-        ),
+        inputSchema: createToolParameters({
+          param1: z.string(),
+        }),
         outputSchema: z.object({ result: z.string() }),
       };
       mockHandler = vi.fn().mockResolvedValue({ result: "tool success" });
@@ -133,14 +171,16 @@ describe("Models", () => {
           custom: {},
           metadata: {},
         } as any,
+        text: "Final response",
         usage: { totalTokens: 10 },
         toolRequests: [],
       };
       mockGenkitGenerate.mockResolvedValue(mockResponse as any);
 
       const generateOptions = { model: {} as any, prompt: "test prompt" };
-      await testModel.generateWithTools(generateOptions);
+      const result = await testModel.generateWithTools(generateOptions);
 
+      expect(result).toBe("Final response");
       expect(mockGenkitGenerate).toHaveBeenCalledTimes(1);
       expect(mockGenkitGenerate).toHaveBeenCalledWith(generateOptions);
       expect(mockHandler).not.toHaveBeenCalled();
@@ -434,5 +474,464 @@ describe("Models", () => {
         expectedSecondCallOptions
       );
     });
+
+    it("should not call the model when the task is cancelled", async () => {
+      (task as any).abortController.abort(new Error("Task cancelled"));
+
+      await expect(
+        testModel.generateWithTools({ model: {} as any, prompt: "prompt" })
+      ).rejects.toThrow("Task cancelled");
+      expect(mockGenkitGenerate).not.toHaveBeenCalled();
+    });
+
+    it("should stop waiting for the model when the task is cancelled", async () => {
+      mockGenkitGenerate.mockReturnValue(new Promise(() => {}));
+
+      const result = testModel.generateWithTools({
+        model: {} as any,
+        prompt: "prompt",
+      });
+      (task as any).abortController.abort(new Error("Task cancelled"));
+
+      await expect(result).rejects.toThrow("Task cancelled");
+      expect(mockGenkitGenerate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stream partial text as model chunk events", async () => {
+      const events = new CassiEvents();
+      (task as any).cassi = { events };
+      const chunk = vi.fn();
+      events.on("model:chunk", chunk);
+      mockGenkitGenerate.mockImplementation(async (options) => {
+        options.onChunk({ text: "Hel" });
+        options.onChunk({ text: "" });
+        options.onChunk({ text: "lo" });
+        return { text: "Hello", toolRequests: [] };
+      });
+
+      await testModel.generateWithTools({ model: {} as any, prompt: "p" });
+
+      expect(chunk.mock.calls.map(([payload]) => payload.text)).toEqual([
+        "Hel",
+        "lo",
+      ]);
+      expect(chunk).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        text: "Hel",
+      });
+    });
+
+    it("should not request streaming without chunk listeners or when turned off", async () => {
+      const events = new CassiEvents();
+      (task as any).cassi = { events };
+      mockGenkitGenerate.mockResolvedValue({ text: "Done", toolRequests: [] });
+
+      await testModel.generateWithTools({ model: {} as any, prompt: "p" });
+      expect(mockGenkitGenerate.mock.calls[0][0].onChunk).toBeUndefined();
+
+      events.on("model:chunk", vi.fn());
+      (task as any).cassi.config = {
+        configData: { models: { TestModel: { stream: false } } },
+      };
+      await testModel.generateWithTools({ model: {} as any, prompt: "p" });
+      expect(mockGenkitGenerate.mock.calls[1][0].onChunk).toBeUndefined();
+    });
+
+    it("should publish tool call and result events", async () => {
+      const events = new CassiEvents();
+      (task as any).cassi = { events };
+      const toolCall = vi.fn();
+      const toolResult = vi.fn();
+      events.on("model:toolCall", toolCall);
+      events.on("model:toolResult", toolResult);
+      const readHandler = vi.fn().mockResolvedValue("content");
+      const failHandler = vi.fn().mockRejectedValue(new Error("no access"));
+      testModel.toolHandlers.set("ReadFile", readHandler);
+      testModel.toolHandlers.set("WriteFile", failHandler);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockGenkitGenerate
+        .mockResolvedValueOnce({
+          toolRequests: [
+            {
+              toolRequest: {
+                name: "ReadFile",
+                ref: "r1",
+                input: { path: "a" },
+              },
+            },
+            {
+              toolRequest: {
+                name: "WriteFile",
+                ref: "r2",
+                input: { path: "b" },
+              },
+            },
+          ],
+          messages: [],
+        })
+        .mockResolvedValueOnce({ text: "Done", toolRequests: [] });
+
+      await testModel.generateWithTools({ model: {} as any, prompt: "p" });
+
+      expect(toolCall).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        name: "ReadFile",
+        ref: "r1",
+        input: { path: "a" },
+      });
+      expect(toolResult).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        name: "ReadFile",
+        ref: "r1",
+        error: null,
+        durationMs: expect.any(Number),
+      });
+      expect(toolResult).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        name: "WriteFile",
+        ref: "r2",
+        error: JSON.stringify("Tool execution failed: no access"),
+        durationMs: expect.any(Number),
+      });
+    });
+
+    it("should publish model request and response events", async () => {
+      const events = new CassiEvents();
+      (task as any).cassi = { events };
+      const request = vi.fn();
+      const response = vi.fn();
+      events.on("model:request", request);
+      events.on("model:response", response);
+      mockGenkitGenerate.mockResolvedValue({
+        text: "Final response",
+        usage: { totalTokens: 10 },
+        toolRequests: [],
+      });
+
+      const generateOptions = { model: {} as any, prompt: "prompt" };
+      await testModel.generateWithTools(generateOptions);
+
+      expect(request).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        options: generateOptions,
+      });
+      expect(response).toHaveBeenCalledWith({
+        model: testModel,
+        task,
+        modelName: null,
+        usage: { totalTokens: 10 },
+        cost: null,
+        text: "Final response",
+      });
+    });
+
+    it("should calculate the cost of requests from the configured prices", async () => {
+      const events = new CassiEvents();
+      const response = vi.fn();
+      events.on("model:response", response);
+      (task as any).cassi = {
+        events,
+        config: {
+          configData: {
+            prices: {
+              "gemini-2.0-flash": {
+                inputPerMillion: 0.1,
+                outputPerMillion: 0.4,
+              },
+            },
+          },
+        },
+      };
+      mockGenkitGenerate.mockResolvedValue({
+        text: "Done",
+        usage: { inputTokens: 1000, outputTokens: 500 },
+        toolRequests: [],
+      });
+
+      await testModel.generateWithTools({
+        model: { name: "googleai/gemini-2.0-flash" } as any,
+        prompt: "p",
+      });
+      await testModel.generateWithTools({
+        model: { name: "googleai/gemini-2.0-flash" } as any,
+        prompt: "p",
+      });
+
+      expect(testModel.cost).toBeCloseTo(0.0006);
+      expect(response).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelName: "googleai/gemini-2.0-flash",
+          cost: expect.closeTo(0.0003),
+        })
+      );
+    });
+
+    it("should accumulate token usage across requests", async () => {
+      mockGenkitGenerate
+        .mockResolvedValueOnce({
+          text: "",
+          usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+          toolRequests: [{ toolRequest: { name: "testTool", input: {} } }],
+          messages: [],
+        })
+        .mockResolvedValueOnce({
+          text: "Done",
+          usage: { inputTokens: 15, outputTokens: 5 },
+          toolRequests: [],
+        });
+
+      await testModel.generateWithTools({ model: {} as any, prompt: "p" });
+
+      expect(testModel.usage).toEqual({
+        inputTokens: 25,
+        outputTokens: 7,
+        totalTokens: 32,
+      });
+    });
+
+    it("should fail with a budget error when the model turn limit is reached", async () => {
+      (task as any).cassi = {
+        config: {
+          configData: { budgets: { models: { TestModel: { maxTurns: 2 } } } },
+        },
+      };
+      mockGenkitGenerate.mockResolvedValue({
+        text: "",
+        usage: { inputTokens: 1, outputTokens: 1 },
+        toolRequests: [{ toolRequest: { name: "testTool", input: {} } }],
+        messages: [],
+      });
+
+      const result = testModel.generateWithTools({
+        model: {} as any,
+        prompt: "p",
+      });
+
+      await expect(result).rejects.toThrow(BudgetExceededError);
+      await expect(result).rejects.toThrow(
+        "Budget exceeded: model TestModel reached its maxTurns limit"
+      );
+      expect(mockGenkitGenerate).toHaveBeenCalledTimes(2);
+      expect(testModel.usage.totalTokens).toBe(4);
+    });
+
+    it("should check the task budget before each request", async () => {
+      const budgetError = new Error("task budget");
+      vi.mocked(task.checkBudget).mockImplementation(() => {
+        throw budgetError;
+      });
+
+      await expect(
+        testModel.generateWithTools({ model: {} as any, prompt: "p" })
+      ).rejects.toThrow(budgetError);
+      expect(mockGenkitGenerate).not.toHaveBeenCalled();
+    });
+
+    it("should compact the message history when it nears the context window", async () => {
+      (task as any).cassi = {
+        config: {
+          configData: { models: { TestModel: { contextWindow: 4_000 } } },
+        },
+      };
+      testModel.toolHandlers.set(
+        "ReadFile",
+        vi.fn().mockResolvedValue("x".repeat(4_000))
+      );
+      let turn = 0;
+      mockGenkitGenerate.mockImplementation(async (options: any) => {
+        if (++turn > 4) {
+          return { text: "Done", toolRequests: [] };
+        }
+        const toolRequest = {
+          toolRequest: {
+            name: "ReadFile",
+            ref: `${turn}`,
+            input: { path: "a.ts" },
+          },
+        };
+        return {
+          text: "",
+          toolRequests: [toolRequest],
+          messages: [
+            ...(options.messages ?? [
+              { role: "user", content: [{ text: "p" }] },
+            ]),
+            { role: "model", content: [toolRequest] },
+          ],
+        };
+      });
+
+      await testModel.generateWithTools({ prompt: "p" });
+
+      const outputs = mockGenkitGenerate.mock.calls[4][0].messages
+        .filter((message: any) => message.role === "tool")
+        .map((message: any) => message.content[0].toolResponse.output);
+      expect(outputs).toEqual([
+        "[Content of a.ts omitted: the file was read or changed again later]",
+        "x".repeat(4_000),
+        "x".repeat(4_000),
+        "x".repeat(4_000),
+      ]);
+    });
+
+    it("should apply edits of the same file in one turn one after the other", async () => {
+      let content = "a b";
+      const replace = async (input: any) => {
+        const current = content;
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        content = current.replace(input.find, input.replace);
+        return "OK";
+      };
+      (testModel as any).initializeTools([
+        [
+          { ...mockToolDef, name: "ReplaceInFile" },
+          replace,
+          { readOnly: false, getPath: (input: any) => input.path },
+        ],
+      ]);
+      const edit = (ref: string, find: string) => ({
+        toolRequest: {
+          name: "ReplaceInFile",
+          ref,
+          input: { path: "a.ts", find, replace: find.toUpperCase() },
+        },
+      });
+      mockGenkitGenerate
+        .mockResolvedValueOnce({
+          text: "",
+          toolRequests: [edit("1", "a"), edit("2", "b")],
+          messages: [],
+        })
+        .mockResolvedValueOnce({ text: "Done", toolRequests: [] });
+
+      await testModel.generateWithTools({ prompt: "p" });
+
+      expect(content).toBe("A B");
+      const refs = mockGenkitGenerate.mock.calls[1][0].messages.map(
+        (message: any) => message.content[0].toolResponse.ref
+      );
+      expect(refs).toEqual(["1", "2"]);
+    });
+
+    describe("tool loop", () => {
+      const failingReplace = {
+        text: "",
+        toolRequests: [
+          {
+            toolRequest: {
+              name: "ReplaceInFile",
+              ref: "r",
+              input: { path: "a.ts", find: "missing", replace: "x" },
+            },
+          },
+        ],
+        messages: [],
+      };
+      let prompt: ReturnType<typeof vi.fn>;
+
+      beforeEach(() => {
+        prompt = vi.fn();
+        (task as any).cassi = {
+          config: {
+            configData: {
+              models: { TestModel: { maxRepeatedToolFailures: 2 } },
+            },
+          },
+          user: { prompt },
+        };
+        testModel.toolHandlers.set(
+          "ReplaceInFile",
+          vi.fn().mockResolvedValue("ERROR")
+        );
+      });
+
+      it("should nudge the model when it gets the same error repeatedly", async () => {
+        mockGenkitGenerate
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce({ text: "Gave up", toolRequests: [] });
+
+        const result = await testModel.generateWithTools({ prompt: "p" });
+
+        expect(result).toBe("Gave up");
+        const messages = mockGenkitGenerate.mock.calls[2][0].messages;
+        expect(messages.at(-1)).toEqual({
+          role: "user",
+          content: [
+            {
+              text: expect.stringContaining(
+                "You got the same error from ReplaceInFile 2 times. Do not repeat the same tool call."
+              ),
+            },
+          ],
+        });
+        expect(prompt).not.toHaveBeenCalled();
+      });
+
+      it("should ask the user and fail if the model is still stuck after the nudge", async () => {
+        mockGenkitGenerate.mockResolvedValue(failingReplace);
+        prompt.mockImplementation(async (confirm: Confirm) => {
+          confirm.response = false;
+        });
+
+        const result = testModel.generateWithTools({ prompt: "p" });
+
+        await expect(result).rejects.toThrow(ToolLoopError);
+        await expect(result).rejects.toThrow(
+          "Model TestModel stopped because it got the same error from ReplaceInFile 3 times and the user chose not to continue"
+        );
+        expect(prompt).toHaveBeenCalledTimes(1);
+        expect(prompt.mock.calls[0][0].message).toBe(
+          "Model TestModel seems to be stuck: it got the same error from ReplaceInFile 3 times. Continue?"
+        );
+        expect(mockGenkitGenerate).toHaveBeenCalledTimes(3);
+      });
+
+      it("should start over when the user continues", async () => {
+        mockGenkitGenerate
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce(failingReplace)
+          .mockResolvedValueOnce({ text: "Done", toolRequests: [] });
+        prompt.mockImplementation(async (confirm: Confirm) => {
+          confirm.response = true;
+        });
+
+        const result = await testModel.generateWithTools({ prompt: "p" });
+
+        expect(result).toBe("Done");
+        expect(prompt).toHaveBeenCalledTimes(1);
+        const messages = mockGenkitGenerate.mock.calls[4][0].messages;
+        expect(messages.filter((m: any) => m.role === "user")).toHaveLength(0);
+      });
+
+      it("should limit the number of tool turns", async () => {
+        (task as any).cassi.config.configData.models.TestModel = {
+          maxToolTurns: 2,
+        };
+        let turn = 0;
+        testModel.toolHandlers.set("ReadFile", vi.fn().mockResolvedValue("x"));
+        mockGenkitGenerate.mockImplementation(async () => ({
+          text: "",
+          toolRequests: [
+            { toolRequest: { name: "ReadFile", input: { path: `${turn++}` } } },
+          ],
+          messages: [],
+        }));
+
+        await expect(
+          testModel.generateWithTools({ prompt: "p" })
+        ).rejects.toThrow(
+          "Model TestModel stopped because it reached the limit of 2 tool turns"
+        );
+        expect(mockGenkitGenerate).toHaveBeenCalledTimes(3);
+      });
+    });
   });
 });
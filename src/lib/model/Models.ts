@@ -1,3 +1,4 @@
+import type { z } from "zod";
 import {
   genkit,
   GenerateOptions,
@@ -5,12 +6,46 @@ import {
   GenkitError,
   ToolResponsePart,
   ToolRequestPart,
+  MessageData,
+  GenerateResponseChunk,
 } from "genkit";
 import { Task } from "../task/Task.js";
 import { ToolDefinition } from "../tool/Tool.js";
+import { TokenUsage, addUsage, emptyUsage } from "../task/TaskResult.js";
+import { checkBudget } from "../budget/Budget.js";
+import { addCost, calculateCost } from "../usage/Usage.js";
+import { ModelSettings, resolveModelSettings } from "./ModelSettings.js";
+import {
+  DEFAULT_TOOL_LOOP_LIMITS,
+  ToolLoopDetector,
+  ToolLoopError,
+  ToolLoopLimits,
+  getToolError,
+  toolLoopNudge,
+} from "./ToolLoop.js";
+import {
+  COMPACTION_THRESHOLD,
+  DEFAULT_CONTEXT_WINDOW,
+  compactMessages,
+  estimateMessagesTokens,
+} from "./ContextWindow.js";
+import {
+  DEFAULT_MAX_OUTPUT_RETRIES,
+  StructuredOutputError,
+  getSchemaValidationError,
+  parseStructuredOutput,
+  withOutputFeedback,
+} from "./StructuredOutput.js";
+import {
+  ToolAccess,
+  UNKNOWN_TOOL_ACCESS,
+  scheduleToolCalls,
+  toScheduledToolCall,
+} from "./ToolScheduler.js";
+import Confirm from "../prompt/prompts/Confirm.js";
 
 export interface GenerateModelOptions extends GenerateOptions {
-  model: ModelReference<any>;
+  model?: ModelReference<any>;
   prompt?: string | any[];
   audioBase64?: string;
 }
@@ -18,10 +53,16 @@ export interface GenerateModelOptions extends GenerateOptions {
 export abstract class Models {
   public ai: any;
   public task: Task;
+  public model: ModelReference<any> | null;
+  public usage: TokenUsage = emptyUsage();
+  public cost: number | null = null;
+  public turns: number = 0;
+  public startedAt: Date | null = null;
   public toolHandlers: Map<string, (input: any) => Promise<any>> = new Map();
+  public toolAccess: Map<string, ToolAccess> = new Map();
   public tools: any[] = [];
 
-  constructor(plugin: any, task: Task) {
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
     if (!plugin) {
       throw new GenkitError({
         source: "Models",
@@ -31,15 +72,21 @@ export abstract class Models {
     }
     this.ai = genkit({ plugins: [plugin] });
     this.task = task;
+    this.model = model ?? null;
   }
 
   protected initializeTools(
-    toolDefinitions: [ToolDefinition, (input: any) => Promise<any>][]
+    toolDefinitions: [
+      ToolDefinition,
+      (input: any) => Promise<any>,
+      ToolAccess?,
+    ][]
   ): void {
     this.toolHandlers = new Map();
+    this.toolAccess = new Map();
     this.tools = toolDefinitions.map(
-      (args: [ToolDefinition, (input: any) => Promise<any>]) => {
-        const [localToolDefinition, handler] = args;
+      (args: [ToolDefinition, (input: any) => Promise<any>, ToolAccess?]) => {
+        const [localToolDefinition, handler, access] = args;
         if (
           typeof localToolDefinition.name !== "string" ||
           typeof handler !== "function"
@@ -49,6 +96,10 @@ export abstract class Models {
           );
         }
         this.toolHandlers.set(localToolDefinition.name, handler);
+        this.toolAccess.set(
+          localToolDefinition.name,
+          access ?? UNKNOWN_TOOL_ACCESS
+        );
         return this.ai.defineTool(localToolDefinition, handler);
       }
     );
@@ -58,64 +109,42 @@ export abstract class Models {
    * Abstract method for generating content using a specific model.
    * Subclasses must implement this method.
    * @param options - Options for generation, including the prompt and model reference.
-   * @returns A promise that resolves with the generated content as a string.
+   * @returns A promise that resolves with the generated content, a string or
+   * the structured output of the model.
    */
-  abstract generate(options: GenerateModelOptions): Promise<string>;
+  abstract generate(options: GenerateModelOptions): Promise<unknown>;
 
-  async generateWithTools(generateOptions: GenerateOptions) {
+  /**
+   * Calls the model and runs requested tools until the model stops requesting
+   * tools. A model that repeats the same tool calls or failures, or reaches
+   * the tool turn limit, is first told to change its approach. If it is still
+   * stuck the user is asked whether to continue. The message history is
+   * compacted when it nears the context window of the model. Tool calls of
+   * one turn are run by `runToolCalls`.
+   * @returns The text of the final model response.
+   * @throws ToolLoopError if the model is stuck and the user does not
+   * continue.
+   */
+  async generateWithTools(generateOptions: GenerateOptions): Promise<string> {
     let llmResponse;
-    let finalUsage;
+
+    const signal = this.task.getSignal();
+    const detector = new ToolLoopDetector(this.getToolLoopLimits());
+    let nudged = false;
 
     while (true) {
-      llmResponse = await this.ai.generate(generateOptions);
-      finalUsage = llmResponse.usage;
+      this.throwIfAborted(signal);
+      llmResponse = await this.abortable<any>(
+        this.request(generateOptions),
+        signal
+      );
 
       const toolRequests = llmResponse.toolRequests ?? [];
       if (toolRequests.length < 1) {
         break;
       }
 
-      const toolResponses: ToolResponsePart[] = await Promise.all(
-        toolRequests.map(async (part: ToolRequestPart) => {
-          const handler = this.toolHandlers.get(part.toolRequest.name);
-          if (!handler) {
-            console.error(
-              `Tool handler not found for: ${part.toolRequest.name}`
-            );
-            return {
-              toolResponse: {
-                name: part.toolRequest.name,
-                ref: part.toolRequest.ref,
-                output: { error: `Tool not found: ${part.toolRequest.name}` },
-              },
-            };
-          }
-          try {
-            const output = await handler(part.toolRequest.input);
-            return {
-              toolResponse: {
-                name: part.toolRequest.name,
-                ref: part.toolRequest.ref,
-                output: output,
-              },
-            };
-          } catch (error: any) {
-            console.error(
-              `Error executing tool ${part.toolRequest.name}:`,
-              error
-            );
-            return {
-              toolResponse: {
-                name: part.toolRequest.name,
-                ref: part.toolRequest.ref,
-                output: {
-                  error: `Tool execution failed: ${error.message || error}`,
-                },
-              },
-            };
-          }
-        })
-      );
+      const toolResponses = await this.runToolCalls(toolRequests);
 
       let nextMessages = llmResponse.messages ? [...llmResponse.messages] : [];
       toolResponses.forEach((toolResponsePart) => {
@@ -124,12 +153,348 @@ export abstract class Models {
           content: [toolResponsePart],
         });
       });
-      generateOptions.messages = nextMessages;
+
+      const stuckReason = detector.check(toolRequests, toolResponses);
+      if (stuckReason && !nudged) {
+        console.log(
+          `[Models] ${this.constructor.name} ${stuckReason}, asking it to change its approach`
+        );
+        nextMessages.push({
+          role: "user",
+          content: [{ text: toolLoopNudge(stuckReason) }],
+        });
+        nudged = true;
+      } else if (stuckReason) {
+        await this.confirmContinue(stuckReason);
+        detector.reset();
+        nudged = false;
+      }
+
+      generateOptions.messages = this.compactMessages(nextMessages);
       generateOptions.prompt = undefined;
     }
 
-    if (finalUsage) {
-      console.log("AI Usage:", finalUsage);
+    return llmResponse?.text ?? "";
+  }
+
+  /**
+   * Runs the tool requests of one model turn. Read-only tools run in
+   * parallel, mutating tools in the order the model requested them. With the
+   * `lockToolPaths` setting, mutating calls on different files may also run
+   * in parallel.
+   * @returns The tool responses in the order of the requests.
+   */
+  private runToolCalls(
+    toolRequests: ToolRequestPart[]
+  ): Promise<ToolResponsePart[]> {
+    const lockPaths = this.getSettings().lockToolPaths ?? false;
+    const calls = toolRequests.map((part) =>
+      toScheduledToolCall(
+        this.toolAccess.get(part.toolRequest.name) ?? UNKNOWN_TOOL_ACCESS,
+        part.toolRequest.input,
+        lockPaths
+      )
+    );
+    return scheduleToolCalls(calls, (index) =>
+      this.callTool(toolRequests[index])
+    );
+  }
+
+  /**
+   * Runs the handler for a tool request and publishes the call and its result
+   * on the Cassi event bus. Failures are returned to the model as an `error`
+   * output.
+   */
+  private async callTool(part: ToolRequestPart): Promise<ToolResponsePart> {
+    const { name, ref, input } = part.toolRequest;
+    const events = this.task.cassi?.events;
+    const startedAt = Date.now();
+    events?.emit("model:toolCall", {
+      model: this,
+      task: this.task,
+      name,
+      ref: ref ?? null,
+      input,
+    });
+
+    let output: any;
+    const handler = this.toolHandlers.get(name);
+    if (!handler) {
+      console.error(`Tool handler not found for: ${name}`);
+      output = { error: `Tool not found: ${name}` };
+    } else {
+      try {
+        output = await handler(input);
+      } catch (error: any) {
+        console.error(`Error executing tool ${name}:`, error);
+        output = {
+          error: `Tool execution failed: ${error.message || error}`,
+        };
+      }
+    }
+
+    events?.emit("model:toolResult", {
+      model: this,
+      task: this.task,
+      name,
+      ref: ref ?? null,
+      error: getToolError(output),
+      durationMs: Date.now() - startedAt,
+    });
+    return { toolResponse: { name, ref, output } };
+  }
+
+  /**
+   * Returns the tool loop limits for this model from the `models` section of
+   * the config file.
+   */
+  getToolLoopLimits(): ToolLoopLimits {
+    const settings = this.getSettings();
+    return {
+      maxToolTurns:
+        settings.maxToolTurns ?? DEFAULT_TOOL_LOOP_LIMITS.maxToolTurns,
+      maxRepeatedToolCalls:
+        settings.maxRepeatedToolCalls ??
+        DEFAULT_TOOL_LOOP_LIMITS.maxRepeatedToolCalls,
+      maxRepeatedToolFailures:
+        settings.maxRepeatedToolFailures ??
+        DEFAULT_TOOL_LOOP_LIMITS.maxRepeatedToolFailures,
+    };
+  }
+
+  /**
+   * Compacts the message history if it nears the context window of this
+   * model.
+   */
+  protected compactMessages(messages: MessageData[]): MessageData[] {
+    const contextWindow =
+      this.getSettings().contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const compacted = compactMessages(messages, {
+      maxTokens: Math.floor(contextWindow * COMPACTION_THRESHOLD),
+    });
+    if (compacted !== messages) {
+      console.log(
+        `[Models] Compacted the context of ${
+          this.constructor.name
+        } from ${estimateMessagesTokens(
+          messages
+        )} to ${estimateMessagesTokens(compacted)} estimated tokens`
+      );
     }
+    return compacted;
+  }
+
+  private getSettings(): ModelSettings {
+    return resolveModelSettings(
+      this.task.cassi?.config?.configData?.models,
+      this.constructor.name,
+      this.task
+    );
+  }
+
+  /**
+   * Asks the user whether a model that is stuck should continue.
+   * @throws ToolLoopError if the user does not confirm.
+   */
+  private async confirmContinue(reason: string): Promise<void> {
+    const modelClass = this.constructor.name;
+    const confirmPrompt = new Confirm(
+      `Model ${modelClass} seems to be stuck: it ${reason}. Continue?`
+    );
+    await this.task.cassi?.user?.prompt(confirmPrompt);
+    if (!confirmPrompt.response) {
+      throw new ToolLoopError(modelClass, reason);
+    }
+  }
+
+  /**
+   * Throws a BudgetExceededError if this model or its task has used up the
+   * budget configured in cassi.json.
+   */
+  checkBudget(): void {
+    const modelName = this.constructor.name;
+    checkBudget(
+      `model ${modelName}`,
+      this.task.cassi?.config?.configData?.budgets?.models?.[modelName],
+      {
+        ...this.usage,
+        turns: this.turns,
+        elapsedMs: this.startedAt ? Date.now() - this.startedAt.getTime() : 0,
+      }
+    );
+    this.task.checkBudget();
+  }
+
+  /**
+   * Sends a generate request to the model and publishes the request and
+   * response on the Cassi event bus. Budgets are checked before the request
+   * is sent. Requests without a model use the model from the provider. The
+   * usage and cost of the request are added to the totals of this model.
+   * When transcripts are replayed the recorded response is returned instead
+   * of calling the model, otherwise partial text is published as it streams.
+   * @param generateOptions - Options passed through to genkit.
+   * @returns The genkit generate response.
+   */
+  protected async request(generateOptions: GenerateOptions): Promise<any> {
+    this.checkBudget();
+    if (!generateOptions.model && this.model) {
+      generateOptions.model = this.model;
+    }
+    this.startedAt = this.startedAt ?? new Date();
+    const events = this.task.cassi?.events;
+    events?.emit("model:request", {
+      model: this,
+      task: this.task,
+      options: generateOptions,
+    });
+    const transcripts = this.task.cassi?.transcripts;
+    const response = transcripts?.isReplaying()
+      ? transcripts.replay(this)
+      : await this.ai.generate(this.withStreaming(generateOptions));
+    const modelName = Models.getModelName(generateOptions.model);
+    await transcripts
+      ?.record(this, modelName, generateOptions, response)
+      .catch((error: any) => {
+        console.error(
+          `[Models] Error recording transcript: ${error?.message ?? error}`
+        );
+      });
+    const cost = calculateCost(
+      this.task.cassi?.config?.configData?.prices,
+      modelName,
+      response?.usage
+    );
+    this.usage = addUsage(this.usage, response?.usage);
+    this.cost = addCost(this.cost, cost);
+    this.turns++;
+    events?.emit("model:response", {
+      model: this,
+      task: this.task,
+      modelName,
+      usage: response?.usage,
+      cost,
+      text: response?.text ?? null,
+    });
+    return response;
+  }
+
+  /**
+   * Adds a chunk callback that publishes partial response text as
+   * `model:chunk` events. Streaming is only requested while someone listens
+   * and can be turned off with the `stream` model setting. Providers that do
+   * not stream return the whole response without calling it.
+   */
+  private withStreaming(generateOptions: GenerateOptions): GenerateOptions {
+    const events = this.task.cassi?.events;
+    if (
+      !events?.hasListeners("model:chunk") ||
+      this.getSettings().stream === false
+    ) {
+      return generateOptions;
+    }
+    return {
+      ...generateOptions,
+      onChunk: (chunk: GenerateResponseChunk) => {
+        const text = chunk.text;
+        if (text) {
+          events.emit("model:chunk", { model: this, task: this.task, text });
+        }
+      },
+    };
+  }
+
+  /**
+   * Sends a request for structured output and validates the response against
+   * the schema. A response that is not valid JSON or does not match the
+   * schema is retried with the validation error appended to the prompt, up
+   * to the `maxOutputRetries` model setting.
+   * @returns The validated output.
+   * @throws StructuredOutputError if no response matched the schema.
+   */
+  protected async requestOutput<S extends z.ZodTypeAny>(
+    schema: S,
+    generateOptions: GenerateOptions
+  ): Promise<z.infer<S>> {
+    const maxRetries =
+      this.getSettings().maxOutputRetries ?? DEFAULT_MAX_OUTPUT_RETRIES;
+    let error = "";
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const options: GenerateOptions = {
+        ...generateOptions,
+        output: { ...generateOptions.output, schema },
+      };
+      if (attempt > 0) {
+        console.log(
+          `[Models] ${this.constructor.name} returned invalid output, retrying (${attempt}/${maxRetries}): ${error}`
+        );
+        options.prompt = withOutputFeedback(
+          generateOptions.prompt as string | any[] | undefined,
+          error
+        );
+      }
+      try {
+        const result = parseStructuredOutput(
+          schema,
+          await this.request(options)
+        );
+        if (result.success) {
+          return result.data;
+        }
+        error = result.error;
+      } catch (requestError) {
+        const validationError = getSchemaValidationError(requestError);
+        if (validationError === null) {
+          throw requestError;
+        }
+        error = validationError;
+      }
+    }
+    throw new StructuredOutputError(
+      this.constructor.name,
+      maxRetries + 1,
+      error
+    );
+  }
+
+  private static getModelName(model: any): string | null {
+    if (typeof model === "string") {
+      return model;
+    }
+    return model?.name ?? model?.__action?.name ?? null;
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw signal.reason instanceof Error
+        ? signal.reason
+        : new Error("Task cancelled");
+    }
+  }
+
+  /**
+   * Rejects as soon as the signal is aborted. Genkit does not accept an
+   * abort signal so the request itself is left to finish in the background.
+   */
+  private abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(
+          signal.reason instanceof Error
+            ? signal.reason
+            : new Error("Task cancelled")
+        );
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
   }
 }
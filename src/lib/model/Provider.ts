@@ -0,0 +1,39 @@
+import type { JSONSchemaType } from "ajv";
+import type { ModelReference } from "genkit";
+
+/**
+ * The `provider` section of the config file. `name` selects a registered
+ * provider, the other settings are passed to it.
+ */
+export interface ProviderConfig {
+  name: string;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+export const providerSchema: JSONSchemaType<ProviderConfig> = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    baseUrl: { type: "string", nullable: true, minLength: 1 },
+    apiKey: { type: "string", nullable: true },
+    model: { type: "string", nullable: true, minLength: 1 },
+  },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+/**
+ * A backend that models are generated with. The provider supplies the genkit
+ * plugin every Models instance is built with and the model reference each
+ * Models class uses by default.
+ */
+export interface ModelProvider {
+  plugin: any;
+  getModel(modelClassName: string): ModelReference<any>;
+}
+
+export type ProviderFactory = (config: ProviderConfig) => ModelProvider;
+
+export const DEFAULT_PROVIDER = "googleai";
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { z } from "zod";
+import {
+  StructuredOutputError,
+  parseStructuredOutput,
+  withOutputFeedback,
+} from "./StructuredOutput.js";
+import {
+  ModelScript,
+  scriptedProvider,
+  SCRIPTED_PROVIDER,
+} from "./providers/Scripted.js";
+import { EvaluateCodePrompt } from "./models/EvaluateCodePrompt.js";
+import type { Task } from "../task/Task.js";
+
+const schema = z.object({ summary: z.string(), modifiesFiles: z.boolean() });
+
+describe("parseStructuredOutput", () => {
+  it("should prefer the parsed output of the response", () => {
+    expect(
+      parseStructuredOutput(schema, {
+        output: { summary: "a", modifiesFiles: true },
+        text: "ignored",
+      })
+    ).toEqual({ success: true, data: { summary: "a", modifiesFiles: true } });
+  });
+
+  it("should parse the response text, also in a markdown code block", () => {
+    expect(
+      parseStructuredOutput(schema, {
+        text: 'Here it is:\n```json\n{"summary": "a", "modifiesFiles": false}\n```',
+      })
+    ).toEqual({ success: true, data: { summary: "a", modifiesFiles: false } });
+  });
+
+  it("should describe invalid JSON", () => {
+    const result = parseStructuredOutput(schema, { text: "no json" });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain(
+      "the response is not valid JSON"
+    );
+  });
+
+  it("should describe the fields that do not match the schema", () => {
+    const result = parseStructuredOutput(schema, {
+      output: { summary: 1 },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        'summary: Expected string, received number; modifiesFiles: Required in {"summary":1}',
+    });
+  });
+});
+
+describe("withOutputFeedback", () => {
+  it("should append the error to a text or multipart prompt", () => {
+    expect(withOutputFeedback("Prompt", "x: Required")).toEqual([
+      { text: "Prompt" },
+      { text: expect.stringContaining("rejected because x: Required") },
+    ]);
+    const media = { media: { url: "data:audio/ogg;base64,AA" } };
+    expect(withOutputFeedback([media], "bad")).toEqual([
+      media,
+      { text: expect.stringContaining("rejected because bad") },
+    ]);
+  });
+});
+
+describe("Models.requestOutput with genkit", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const newModel = (script: ModelScript, configData: any = {}) => {
+    const provider = scriptedProvider(script)({ name: SCRIPTED_PROVIDER });
+    const task = {
+      cassi: { config: { configData } },
+      getSignal: () => new AbortController().signal,
+      checkBudget: vi.fn(),
+      parentTask: null,
+    } as unknown as Task;
+    return new EvaluateCodePrompt(
+      provider.plugin,
+      task,
+      provider.getModel("EvaluateCodePrompt")
+    );
+  };
+
+  it("should retry output that genkit rejects for its schema", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const script = new ModelScript({
+      EvaluateCodePrompt: [
+        { output: { summary: "Greet" } },
+        { output: { summary: "Greet", modifiesFiles: true } },
+      ],
+    });
+
+    const result = await newModel(script).generate({ prompt: "greet" });
+
+    expect(result).toEqual({ summary: "Greet", modifiesFiles: true });
+    const retry = script.requests[1].request.messages.at(-1)!;
+    expect(retry.content.map((part) => part.text ?? "").join("")).toContain(
+      "rejected because (root): must have required property 'modifiesFiles'"
+    );
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const script = new ModelScript({
+      EvaluateCodePrompt: [{ text: "no" }, { text: "still no" }],
+    });
+    const model = newModel(script, {
+      models: { EvaluateCodePrompt: { maxOutputRetries: 1 } },
+    });
+
+    const error = await model.generate({ prompt: "greet" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(2);
+    expect(script.remaining()).toBe(0);
+  });
+});
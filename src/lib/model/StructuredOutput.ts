@@ -0,0 +1,114 @@
+import type { z } from "zod";
+import type { Part } from "genkit";
+
+/**
+ * Number of times a model is asked again after a response that does not
+ * match the output schema, used for models without a configured
+ * `maxOutputRetries` setting.
+ */
+export const DEFAULT_MAX_OUTPUT_RETRIES = 2;
+
+export class StructuredOutputError extends Error {
+  public modelClass: string;
+  public attempts: number;
+  public validationError: string;
+
+  constructor(modelClass: string, attempts: number, validationError: string) {
+    super(
+      `Model ${modelClass} did not return valid output after ${attempts} attempt(s): ${validationError}`
+    );
+    this.name = "StructuredOutputError";
+    this.modelClass = modelClass;
+    this.attempts = attempts;
+    this.validationError = validationError;
+  }
+}
+
+export type StructuredOutputResult<T> =
+  { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Parses the JSON of a response text, also when the model wrapped it in a
+ * markdown code block.
+ */
+const parseText = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+};
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+
+/**
+ * Validates the output of a generate response against a schema. The parsed
+ * `output` of the response is used if genkit provides one, otherwise the
+ * response text is parsed as JSON.
+ */
+export const parseStructuredOutput = <S extends z.ZodTypeAny>(
+  schema: S,
+  response: any
+): StructuredOutputResult<z.infer<S>> => {
+  let data = response?.output ?? null;
+  if (data === null) {
+    const text = response?.text ?? "";
+    try {
+      data = parseText(text);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `the response is not valid JSON (${error.message}): ${text}`,
+      };
+    }
+  }
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      error: `${formatIssues(result.error)} in ${JSON.stringify(data)}`,
+    };
+  }
+  return { success: true, data: result.data };
+};
+
+/**
+ * Returns the parse errors of the validation error genkit throws for output
+ * that does not match the schema, or null for other errors. The error is
+ * matched by shape because genkit is loaded as both ESM and CommonJS.
+ */
+export const getSchemaValidationError = (error: any): string | null => {
+  if (
+    error?.status !== "INVALID_ARGUMENT" ||
+    !Array.isArray(error?.detail?.errors)
+  ) {
+    return null;
+  }
+  return error.detail.errors
+    .map(
+      (item: { path?: string; message?: string }) =>
+        `${item.path || "(root)"}: ${item.message}`
+    )
+    .join("; ");
+};
+
+/**
+ * Appends the validation error of the previous attempt to a prompt.
+ */
+export const withOutputFeedback = (
+  prompt: string | Part[] | undefined,
+  error: string
+): Part[] => {
+  const parts: Part[] =
+    prompt === undefined
+      ? []
+      : typeof prompt === "string"
+        ? [{ text: prompt }]
+        : prompt;
+  return [
+    ...parts,
+    {
+      text: `\nYour previous response was rejected because ${error}. OUTPUT only the JSON object, with every required property and the correct types.`,
+    },
+  ];
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { ToolLoopDetector, ToolLoopError, toolLoopNudge } from "./ToolLoop.js";
+
+const request = (name: string, input: any): any => ({
+  toolRequest: { name, input },
+});
+
+const response = (name: string, output: any): any => ({
+  toolResponse: { name, output },
+});
+
+describe("ToolLoopDetector", () => {
+  const limits = {
+    maxToolTurns: 10,
+    maxRepeatedToolCalls: 3,
+    maxRepeatedToolFailures: 2,
+  };
+
+  it("should detect repeated calls with the same input", () => {
+    const detector = new ToolLoopDetector(limits);
+    const read = [request("ReadFile", { path: "a.ts" })];
+    const output = [response("ReadFile", "content")];
+
+    expect(detector.check(read, output)).toBeNull();
+    expect(
+      detector.check([request("ReadFile", { path: "b.ts" })], output)
+    ).toBeNull();
+    expect(detector.check(read, output)).toBeNull();
+    expect(detector.check(read, output)).toBe(
+      "called ReadFile 3 times with the same input"
+    );
+  });
+
+  it("should detect the same failure with different input", () => {
+    const detector = new ToolLoopDetector(limits);
+
+    expect(
+      detector.check(
+        [request("ReplaceInFile", { find: "a" })],
+        [response("ReplaceInFile", "ERROR")]
+      )
+    ).toBeNull();
+    expect(
+      detector.check(
+        [request("ReplaceInFile", { find: "b" })],
+        [response("ReplaceInFile", "ERROR")]
+      )
+    ).toBe("got the same error from ReplaceInFile 2 times");
+  });
+
+  it("should count tool errors returned as objects by error", () => {
+    const detector = new ToolLoopDetector(limits);
+    const failed = (error: string) => [response("ExecuteCommand", { error })];
+
+    detector.check([request("ExecuteCommand", { c: 1 })], failed("a"));
+    expect(
+      detector.check([request("ExecuteCommand", { c: 2 })], failed("b"))
+    ).toBeNull();
+    expect(
+      detector.check([request("ExecuteCommand", { c: 3 })], failed("a"))
+    ).toBe("got the same error from ExecuteCommand 2 times");
+  });
+
+  it("should detect the tool turn limit", () => {
+    const detector = new ToolLoopDetector({ ...limits, maxToolTurns: 2 });
+
+    expect(
+      detector.check(
+        [request("ListFiles", { n: 1 })],
+        [response("ListFiles", [])]
+      )
+    ).toBeNull();
+    expect(
+      detector.check(
+        [request("ListFiles", { n: 2 })],
+        [response("ListFiles", [])]
+      )
+    ).toBe("reached the limit of 2 tool turns");
+  });
+
+  it("should forget previous calls when reset", () => {
+    const detector = new ToolLoopDetector(limits);
+    const replace = [request("ReplaceInFile", { find: "a" })];
+    const failed = [response("ReplaceInFile", "ERROR")];
+    detector.check(replace, failed);
+
+    detector.reset();
+
+    expect(detector.turns).toBe(0);
+    expect(detector.check(replace, failed)).toBeNull();
+  });
+});
+
+describe("ToolLoopError", () => {
+  it("should describe why the model was stopped", () => {
+    const error = new ToolLoopError(
+      "Coder",
+      "reached the limit of 2 tool turns"
+    );
+
+    expect(error.name).toBe("ToolLoopError");
+    expect(error.message).toBe(
+      "Model Coder stopped because it reached the limit of 2 tool turns and the user chose not to continue"
+    );
+    expect(
+      toolLoopNudge("called ReadFile 3 times with the same input")
+    ).toMatch(
+      /^You called ReadFile 3 times with the same input\. Do not repeat/
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { ToolRequestPart, ToolResponsePart } from "genkit";
+
+/**
+ * Limits for the tool loop of `Models.generateWithTools`. Repeated calls are
+ * calls of the same tool with the same input, repeated failures are failures
+ * of the same tool with the same error.
+ */
+export interface ToolLoopLimits {
+  maxToolTurns: number;
+  maxRepeatedToolCalls: number;
+  maxRepeatedToolFailures: number;
+}
+
+export const DEFAULT_TOOL_LOOP_LIMITS: ToolLoopLimits = {
+  maxToolTurns: 50,
+  maxRepeatedToolCalls: 5,
+  maxRepeatedToolFailures: 3,
+};
+
+export class ToolLoopError extends Error {
+  public modelClass: string;
+  public reason: string;
+
+  constructor(modelClass: string, reason: string) {
+    super(
+      `Model ${modelClass} stopped because it ${reason} and the user chose not to continue`
+    );
+    this.name = "ToolLoopError";
+    this.modelClass = modelClass;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Returns the error of a failed tool call, or null if the call succeeded.
+ * Tools report failures by returning "ERROR" or an object with an `error`.
+ */
+export const getToolError = (output: any): string | null => {
+  if (output === "ERROR") {
+    return output;
+  }
+  if (output && typeof output === "object" && "error" in output) {
+    return JSON.stringify(output.error);
+  }
+  return null;
+};
+
+/**
+ * Tracks the tool calls of one generateWithTools loop and detects a model
+ * that is stuck.
+ */
+export class ToolLoopDetector {
+  public limits: ToolLoopLimits;
+  public turns: number = 0;
+  private calls: Map<string, number> = new Map();
+  private failures: Map<string, number> = new Map();
+
+  constructor(limits: ToolLoopLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Records one turn of tool calls.
+   * @returns Why the model seems to be stuck, or null.
+   */
+  check(
+    toolRequests: ToolRequestPart[],
+    toolResponses: ToolResponsePart[]
+  ): string | null {
+    this.turns++;
+    let reason: string | null = null;
+
+    for (const [index, part] of toolRequests.entries()) {
+      const { name, input } = part.toolRequest;
+      const callKey = `${name}:${JSON.stringify(input ?? null)}`;
+      const calls = (this.calls.get(callKey) ?? 0) + 1;
+      this.calls.set(callKey, calls);
+      if (!reason && calls >= this.limits.maxRepeatedToolCalls) {
+        reason = `called ${name} ${calls} times with the same input`;
+      }
+
+      const error = getToolError(toolResponses[index]?.toolResponse.output);
+      if (error === null) {
+        continue;
+      }
+      const failureKey = `${name}:${error}`;
+      const failures = (this.failures.get(failureKey) ?? 0) + 1;
+      this.failures.set(failureKey, failures);
+      if (!reason && failures >= this.limits.maxRepeatedToolFailures) {
+        reason = `got the same error from ${name} ${failures} times`;
+      }
+    }
+
+    if (!reason && this.turns >= this.limits.maxToolTurns) {
+      reason = `reached the limit of ${this.limits.maxToolTurns} tool turns`;
+    }
+    return reason;
+  }
+
+  reset(): void {
+    this.turns = 0;
+    this.calls.clear();
+    this.failures.clear();
+  }
+}
+
+/**
+ * The corrective message sent to a model that seems to be stuck.
+ */
+export const toolLoopNudge = (reason: string): string =>
+  `You ${reason}. Do not repeat the same tool call. If a tool result is not what you expected, read the file again and try a different approach, or finish with a final answer without calling any more tools.`;
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  ScheduledToolCall,
+  scheduleToolCalls,
+  toScheduledToolCall,
+  toolCallsConflict,
+} from "./ToolScheduler.js";
+
+const read = (path: string | null = null): ScheduledToolCall => ({
+  readOnly: true,
+  path,
+});
+const write = (path: string | null = null): ScheduledToolCall => ({
+  readOnly: false,
+  path,
+});
+
+/**
+ * Runs the calls and returns the order in which they started and finished.
+ * Each call waits for the given number of macrotasks before it finishes.
+ */
+const runCalls = async (calls: ScheduledToolCall[], delays: number[]) => {
+  const log: string[] = [];
+  const results = await scheduleToolCalls(calls, async (index) => {
+    log.push(`start ${index}`);
+    for (let i = 0; i < delays[index]; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    log.push(`end ${index}`);
+    return index;
+  });
+  return { log, results };
+};
+
+describe("toScheduledToolCall", () => {
+  const access = { readOnly: false, getPath: (input: any) => input.path };
+
+  it("should treat mutating calls as touching any file without path locks", () => {
+    expect(toScheduledToolCall(access, { path: "a.ts" }, false)).toEqual(
+      write()
+    );
+    expect(
+      toScheduledToolCall(
+        { ...access, readOnly: true },
+        { path: "a.ts" },
+        false
+      )
+    ).toEqual(read("a.ts"));
+  });
+
+  it("should normalize the path of mutating calls with path locks", () => {
+    expect(toScheduledToolCall(access, { path: "./src//a.ts" }, true)).toEqual(
+      write("src/a.ts")
+    );
+    expect(toScheduledToolCall({ readOnly: false }, {}, true)).toEqual(write());
+  });
+});
+
+describe("toolCallsConflict", () => {
+  it("should only let mutating calls conflict with calls on the same file", () => {
+    expect(toolCallsConflict(read(), read("a.ts"))).toBe(false);
+    expect(toolCallsConflict(read("a.ts"), write("a.ts"))).toBe(true);
+    expect(toolCallsConflict(write("a.ts"), write("b.ts"))).toBe(false);
+    expect(toolCallsConflict(write(), read("b.ts"))).toBe(true);
+  });
+});
+
+describe("scheduleToolCalls", () => {
+  it("should run read-only calls in parallel", async () => {
+    const { log, results } = await runCalls(
+      [read(), read(), read()],
+      [2, 1, 0]
+    );
+
+    expect(log.slice(0, 3)).toEqual(["start 0", "start 1", "start 2"]);
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it("should run mutating calls in the order they were issued", async () => {
+    const { log, results } = await runCalls([write(), write()], [2, 0]);
+
+    expect(log).toEqual(["start 0", "end 0", "start 1", "end 1"]);
+    expect(results).toEqual([0, 1]);
+  });
+
+  it("should let reads wait for earlier writes of the same file", async () => {
+    const { log } = await runCalls(
+      [write("a.ts"), read("b.ts"), read("a.ts")],
+      [2, 0, 0]
+    );
+
+    expect(log).toEqual([
+      "start 0",
+      "start 1",
+      "end 1",
+      "end 0",
+      "start 2",
+      "end 2",
+    ]);
+  });
+
+  it("should run mutating calls on different files in parallel", async () => {
+    const { log } = await runCalls(
+      [write("a.ts"), write("b.ts"), write("a.ts")],
+      [2, 0, 0]
+    );
+
+    expect(log.slice(0, 2)).toEqual(["start 0", "start 1"]);
+    expect(log.indexOf("start 2")).toBeGreaterThan(log.indexOf("end 0"));
+  });
+
+  it("should run later calls after a call that failed", async () => {
+    const started: number[] = [];
+    const error = await scheduleToolCalls([write(), write()], async (index) => {
+      started.push(index);
+      if (index === 0) {
+        throw new Error("failed");
+      }
+      return index;
+    }).catch((e) => e);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(error.message).toBe("failed");
+    expect(started).toEqual([0, 1]);
+  });
+});
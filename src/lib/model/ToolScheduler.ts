@@ -0,0 +1,78 @@
+import path from "path";
+
+/**
+ * How a tool accesses the working directory. Read-only tools do not change
+ * files or run commands. `getPath` returns the file a call works on, or null
+ * if the call may touch any file.
+ */
+export interface ToolAccess {
+  readOnly: boolean;
+  getPath?: (input: any) => string | null;
+}
+
+/**
+ * A tool call of one model turn, as seen by `scheduleToolCalls`. `path` is
+ * null for calls that may touch any file.
+ */
+export interface ScheduledToolCall {
+  readOnly: boolean;
+  path: string | null;
+}
+
+/**
+ * Access of tools without a known access, e.g. tools of other plugins. They
+ * are treated as mutating any file.
+ */
+export const UNKNOWN_TOOL_ACCESS: ToolAccess = { readOnly: false };
+
+/**
+ * Returns the scheduled form of a tool call. Without `lockPaths` every
+ * mutating call is treated as touching any file, so mutating calls run one
+ * after the other.
+ */
+export const toScheduledToolCall = (
+  access: ToolAccess,
+  input: any,
+  lockPaths: boolean
+): ScheduledToolCall => {
+  const callPath =
+    access.readOnly || lockPaths ? (access.getPath?.(input) ?? null) : null;
+  return {
+    readOnly: access.readOnly,
+    path: callPath === null ? null : path.normalize(callPath),
+  };
+};
+
+/**
+ * Returns true if two tool calls must not run at the same time: at least one
+ * of them is mutating and they may work on the same file.
+ */
+export const toolCallsConflict = (
+  a: ScheduledToolCall,
+  b: ScheduledToolCall
+): boolean => {
+  if (a.readOnly && b.readOnly) {
+    return false;
+  }
+  return a.path === null || b.path === null || a.path === b.path;
+};
+
+/**
+ * Runs the tool calls of one model turn. A call starts once every earlier
+ * call it conflicts with has finished, so read-only calls run in parallel
+ * and mutating calls run in the order the model issued them.
+ * @param calls The calls in the order the model issued them.
+ * @param run Runs the call at the given index.
+ * @returns The results in the order of the calls.
+ */
+export const scheduleToolCalls = <T>(
+  calls: ScheduledToolCall[],
+  run: (index: number) => Promise<T>
+): Promise<T[]> => {
+  const results: Promise<T>[] = [];
+  calls.forEach((call, index) => {
+    const earlier = results.filter((_, i) => toolCallsConflict(calls[i], call));
+    results.push(Promise.allSettled(earlier).then(() => run(index)));
+  });
+  return Promise.all(results);
+};
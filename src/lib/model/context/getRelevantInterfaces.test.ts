@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from "vitest";
+import * as glob from "glob";
+import {
+  extractKeywords,
+  rankFiles,
+  getRelevantInterfaces,
+  getTaskInterfaces,
+  FileContext,
+} from "./getRelevantInterfaces.js";
+import type { InterfaceInfo } from "../../file-info/providers/InterfaceProvider.js";
+import { Worktree } from "../../repository/Worktree.js";
+import { FileInfo } from "../../file-info/FileInfo.js";
+import { Task } from "../../task/Task.js";
+
+vi.mock("glob");
+
+const info = (
+  symbols: { classes?: string[]; functions?: string[] } = {},
+  imports: string[] = []
+): InterfaceInfo => ({
+  imports: imports.map((from) => ({ symbols: "{ X }", from })),
+  exports: {
+    variable: [],
+    type: [],
+    class: (symbols.classes ?? []).map((name) => ({
+      name,
+      properties: [],
+      methods: [],
+    })),
+    function: (symbols.functions ?? []).map((name) => ({
+      name,
+      signature: `function ${name}()`,
+    })),
+  },
+});
+
+const file = (
+  filePath: string,
+  interfaceInfo: InterfaceInfo | null = info(),
+  interfacePrompt = `File: ${filePath}`
+): FileContext => ({
+  path: filePath,
+  interfacePrompt,
+  interface: interfaceInfo,
+});
+
+describe("extractKeywords", () => {
+  it("should split identifiers and drop stop words and short words", () => {
+    expect(
+      extractKeywords("Add a pauseTask method to the TaskScheduler class")
+    ).toEqual(["pause", "task", "method", "scheduler", "class"]);
+  });
+});
+
+describe("rankFiles", () => {
+  it("should rank files by symbol, path and keyword matches", () => {
+    const files = [
+      file("src/lib/user/User.ts", info({ classes: ["User"] })),
+      file("src/lib/task/Task.ts", info({ classes: ["Task"] })),
+      file(
+        "src/lib/task/TaskScheduler.ts",
+        info({ classes: ["TaskScheduler"] })
+      ),
+      file("src/lib/config/Config.ts", info(), "class Config { scheduler }"),
+    ];
+
+    const ranked = rankFiles(files, "Fix the TaskScheduler concurrency");
+
+    expect(ranked.map((ranked) => ranked.path)).toEqual([
+      "src/lib/task/TaskScheduler.ts",
+      "src/lib/task/Task.ts",
+      "src/lib/config/Config.ts",
+    ]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it("should give files connected by imports a share of the score", () => {
+    const files = [
+      file(
+        "src/a/Widget.ts",
+        info({ classes: ["Widget"] }, ["../b/helpers.js"])
+      ),
+      file("src/b/helpers.ts", info({ functions: ["helper"] })),
+      file("src/c/unrelated.ts", info({ functions: ["other"] })),
+    ];
+
+    const ranked = rankFiles(files, "Widget");
+
+    expect(ranked.map((ranked) => [ranked.path, ranked.score])).toEqual([
+      ["src/a/Widget.ts", 17],
+      ["src/b/helpers.ts", 4.25],
+    ]);
+  });
+
+  it("should rank recently changed files", () => {
+    const files = [file("src/a.ts"), file("src/b.ts")];
+
+    expect(rankFiles(files, "anything", ["src/b.ts"])).toEqual([
+      { ...files[1], score: 5 },
+    ]);
+  });
+});
+
+describe("getRelevantInterfaces", () => {
+  let worktree: Worktree;
+  let fileInfo: Mocked<FileInfo>;
+  const infos: Record<string, InterfaceInfo> = {
+    "src/Task.ts": info({ classes: ["Task"] }),
+    "src/User.ts": info({ classes: ["User"] }),
+    "src/Tool.ts": info({ classes: ["Tool"] }),
+  };
+
+  beforeEach(() => {
+    fileInfo = {
+      getInfo: vi.fn(async (type: string, filePath: string) =>
+        type === "interface"
+          ? infos[filePath]
+          : `${filePath} ${"x".repeat(390)}`
+      ),
+    } as unknown as Mocked<FileInfo>;
+    worktree = {
+      worktreeDir: "/repo/.cassi/worktrees/task1",
+      fileInfo,
+    } as unknown as Worktree;
+    vi.mocked(glob.glob).mockResolvedValue(Object.keys(infos) as any);
+  });
+
+  it("should include the most relevant interfaces that fit the budget", async () => {
+    const result = await getRelevantInterfaces(
+      worktree,
+      "Change Task and Tool",
+      {
+        maxTokens: 150,
+        recentFiles: ["src/Tool.ts"],
+      }
+    );
+
+    expect(glob.glob).toHaveBeenCalledWith("**/*.ts", {
+      cwd: worktree.worktreeDir,
+      ignore: ["node_modules/**", ".cassi/**", "dist/**", "**/*.test.ts"],
+      posix: true,
+    });
+    expect(result).toBe(
+      `===== BEGIN FILE_INTERFACES =====\nsrc/Tool.ts ${"x".repeat(
+        390
+      )}\n===== END FILE_INTERFACES =====`
+    );
+  });
+
+  it("should separate multiple interfaces", async () => {
+    const result = await getRelevantInterfaces(
+      worktree,
+      "Change Task and Tool"
+    );
+
+    expect(result.split("\n\n--- FILE_SEPARATOR ---\n\n")).toHaveLength(2);
+    expect(result).not.toContain("src/User.ts");
+  });
+
+  it("should return an empty string if no file is relevant", async () => {
+    expect(await getRelevantInterfaces(worktree, "nothing matches")).toBe("");
+  });
+
+  it("should use the configured budget and recent files for a task", async () => {
+    const task = {
+      invoke: vi.fn().mockResolvedValue(["src/User.ts"]),
+      cassi: { config: { configData: { context: { maxTokens: 120 } } } },
+    } as unknown as Task;
+
+    const result = await getTaskInterfaces(task, worktree, "Task");
+
+    expect(task.invoke).toHaveBeenCalledWith(
+      "git",
+      "recentFiles",
+      [worktree.worktreeDir],
+      []
+    );
+    expect(result).toContain("src/Task.ts");
+    expect(result).not.toContain("src/User.ts");
+  });
+});
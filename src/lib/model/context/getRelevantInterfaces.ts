@@ -0,0 +1,285 @@
+import { glob } from "glob";
+import path from "path";
+import type { Worktree } from "../../repository/Worktree.js";
+import type { Task } from "../../task/Task.js";
+import type { InterfaceInfo } from "../../file-info/providers/InterfaceProvider.js";
+import { estimateTokens } from "../ContextWindow.js";
+
+/**
+ * Estimated number of tokens of file interfaces included when no
+ * `context.maxTokens` is configured.
+ */
+export const DEFAULT_CONTEXT_MAX_TOKENS = 10_000;
+
+/**
+ * The directory interfaces are read from and the file info of its files,
+ * usually a worktree or the main repository.
+ */
+export type InterfaceSource = Pick<Worktree, "worktreeDir" | "fileInfo">;
+
+export interface RelevantInterfacesOptions {
+  maxTokens?: number;
+  /** Files changed recently, relative to the worktree. */
+  recentFiles?: string[];
+}
+
+/**
+ * A file that can be included in the context.
+ */
+export interface FileContext {
+  path: string;
+  interfacePrompt: string;
+  interface: InterfaceInfo | null;
+}
+
+export interface RankedFile extends FileContext {
+  score: number;
+}
+
+const SYMBOL_SCORE = 10;
+const SYMBOL_PART_SCORE = 2;
+const PATH_SCORE = 4;
+const TEXT_SCORE = 1;
+const RECENT_SCORE = 5;
+const IMPORT_SHARE = 0.25;
+
+const STOP_WORDS = new Set([
+  "add",
+  "all",
+  "and",
+  "are",
+  "but",
+  "can",
+  "change",
+  "code",
+  "file",
+  "files",
+  "for",
+  "from",
+  "have",
+  "into",
+  "make",
+  "new",
+  "not",
+  "should",
+  "that",
+  "the",
+  "then",
+  "this",
+  "update",
+  "use",
+  "when",
+  "with",
+]);
+
+const splitWords = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+
+/**
+ * Returns the keywords of a prompt, including the parts of camelCase
+ * identifiers.
+ */
+export const extractKeywords = (prompt: string): string[] => [
+  ...new Set(splitWords(prompt)),
+];
+
+/**
+ * Returns the identifiers mentioned in a prompt, lowercased.
+ */
+const extractIdentifiers = (prompt: string): Set<string> =>
+  new Set(
+    (prompt.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) ?? []).map((identifier) =>
+      identifier.toLowerCase()
+    )
+  );
+
+const getSymbols = (info: InterfaceInfo | null): string[] => {
+  if (!info) {
+    return [];
+  }
+  const { variable, type, class: classes, function: functions } = info.exports;
+  return [
+    ...variable.map((item) => item.name),
+    ...type.map((item) => item.name),
+    ...functions.map((item) => item.name ?? ""),
+    ...classes.flatMap((item) => [
+      item.name,
+      ...item.methods.map((method) => method.name ?? ""),
+    ]),
+  ].filter((symbol) => symbol.length > 0);
+};
+
+/**
+ * Resolves the relative imports of a file to the files they refer to.
+ */
+const resolveImports = (file: FileContext, paths: Set<string>): string[] =>
+  (file.interface?.imports ?? [])
+    .filter((item) => item.from.startsWith("."))
+    .map((item) => {
+      const target = path.posix.join(path.posix.dirname(file.path), item.from);
+      const base = target.replace(/\.(js|ts)$/, "");
+      return [`${base}.ts`, `${base}/index.ts`].find((candidate) =>
+        paths.has(candidate)
+      );
+    })
+    .filter((target): target is string => target !== undefined);
+
+/**
+ * Ranks files by their relevance to a prompt. Files score for exported
+ * symbols the prompt mentions or shares words with, prompt keywords in their
+ * path and interface, and recent changes. Files that import or are imported
+ * by a scoring file get a share of its score.
+ * @returns The files with a score above zero, most relevant first.
+ */
+export const rankFiles = (
+  files: FileContext[],
+  prompt: string,
+  recentFiles: string[] = []
+): RankedFile[] => {
+  const keywords = extractKeywords(prompt);
+  const identifiers = extractIdentifiers(prompt);
+  const recent = new Set(recentFiles);
+
+  const baseScores = new Map<string, number>();
+  for (const file of files) {
+    let score = 0;
+    for (const symbol of getSymbols(file.interface)) {
+      if (identifiers.has(symbol.toLowerCase())) {
+        score += SYMBOL_SCORE;
+      }
+      const parts = splitWords(symbol);
+      score +=
+        keywords.filter((keyword) => parts.includes(keyword)).length *
+        SYMBOL_PART_SCORE;
+    }
+    const pathWords = splitWords(file.path);
+    const text = file.interfacePrompt.toLowerCase();
+    for (const keyword of keywords) {
+      if (pathWords.includes(keyword)) {
+        score += PATH_SCORE;
+      }
+      if (text.includes(keyword)) {
+        score += TEXT_SCORE;
+      }
+    }
+    if (recent.has(file.path)) {
+      score += RECENT_SCORE;
+    }
+    baseScores.set(file.path, score);
+  }
+
+  const paths = new Set(files.map((file) => file.path));
+  const scores = new Map(baseScores);
+  for (const file of files) {
+    for (const target of resolveImports(file, paths)) {
+      const fileScore = baseScores.get(file.path) ?? 0;
+      const targetScore = baseScores.get(target) ?? 0;
+      scores.set(target, scores.get(target)! + fileScore * IMPORT_SHARE);
+      scores.set(
+        file.path,
+        scores.get(file.path)! + targetScore * IMPORT_SHARE
+      );
+    }
+  }
+
+  return files
+    .map((file) => ({ ...file, score: scores.get(file.path) ?? 0 }))
+    .filter((file) => file.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
+
+/**
+ * Returns the interfaces of the files in the worktree that are most relevant
+ * to a prompt, as many as fit into the token budget. Unlike getInterfaces,
+ * files that are not relevant to the prompt are left out.
+ */
+export async function getRelevantInterfaces(
+  worktree: InterfaceSource,
+  prompt: string,
+  options: RelevantInterfacesOptions = {}
+): Promise<string> {
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS;
+  const files = await glob("**/*.ts", {
+    cwd: worktree.worktreeDir,
+    ignore: ["node_modules/**", ".cassi/**", "dist/**", "**/*.test.ts"],
+    posix: true,
+  });
+
+  const contexts: FileContext[] = [];
+  for (const file of files.sort()) {
+    try {
+      const interfacePrompt = await worktree.fileInfo.getInfo<string>(
+        "interfacePrompt",
+        file
+      );
+      if (!interfacePrompt) {
+        continue;
+      }
+      const info = await worktree.fileInfo.getInfo<InterfaceInfo>(
+        "interface",
+        file
+      );
+      contexts.push({ path: file, interfacePrompt, interface: info ?? null });
+    } catch (error) {
+      console.error(`Error processing file ${file}:`, error);
+    }
+  }
+
+  const selected: string[] = [];
+  let tokens = 0;
+  for (const file of rankFiles(contexts, prompt, options.recentFiles)) {
+    const fileTokens = estimateTokens(file.interfacePrompt);
+    if (tokens + fileTokens > maxTokens) {
+      continue;
+    }
+    selected.push(file.interfacePrompt);
+    tokens += fileTokens;
+  }
+
+  if (selected.length === 0) {
+    return "";
+  }
+
+  return `===== BEGIN FILE_INTERFACES =====\n${selected.join(
+    "\n\n--- FILE_SEPARATOR ---\n\n"
+  )}\n===== END FILE_INTERFACES =====`;
+}
+
+/**
+ * Returns the relevant interfaces for the prompt of a model, using the
+ * `context` settings of the config file and the files recently changed in
+ * the worktree.
+ */
+export async function getTaskInterfaces(
+  task: Task,
+  worktree: InterfaceSource,
+  prompt: unknown
+): Promise<string> {
+  let recentFiles: string[] = [];
+  try {
+    recentFiles = await task.invoke(
+      "git",
+      "recentFiles",
+      [worktree.worktreeDir],
+      []
+    );
+  } catch (error) {
+    console.error(
+      `Error listing recently changed files in ${worktree.worktreeDir}:`,
+      error
+    );
+  }
+  return getRelevantInterfaces(
+    worktree,
+    typeof prompt === "string" ? prompt : "",
+    {
+      maxTokens: task.cassi?.config?.configData?.context?.maxTokens,
+      recentFiles,
+    }
+  );
+}
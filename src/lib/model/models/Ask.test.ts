@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Ask } from "./Ask.js";
+import { Task } from "../../task/Task.js";
+import { ModelReference } from "genkit/model";
+import { Worktree } from "../../repository/Worktree.js";
+import { getTaskInterfaces } from "../context/getRelevantInterfaces.js";
+
+vi.mock("../context/getRelevantInterfaces.js", () => ({
+  getTaskInterfaces: vi.fn().mockResolvedValue("mock interfaces"),
+}));
+
+vi.mock("../Models.js", async () => {
+  return {
+    Models: class {
+      plugin: any;
+      task: Task;
+      tools: any[] = [];
+      constructor(plugin: any, task: Task) {
+        this.plugin = plugin;
+        this.task = task;
+      }
+      initializeTools(tools: any[]) {
+        this.tools = tools;
+      }
+      async generateWithTools(options: any): Promise<string> {
+        return "mock answer";
+      }
+    },
+  };
+});
+
+describe("Ask", () => {
+  let mockTask: Task;
+  const mockFileInfo = { getInfo: vi.fn() };
+
+  beforeEach(() => {
+    vi.mocked(getTaskInterfaces).mockClear();
+    mockTask = {
+      getWorkTree: vi.fn(() => {
+        throw new Error("Worktree not found for this task or any parent task.");
+      }),
+      getCwd: vi.fn().mockReturnValue("/fake/repo"),
+      cassi: { repository: { fileInfo: mockFileInfo } },
+    } as unknown as Task;
+  });
+
+  it("should only initialize read-only tools", () => {
+    const ask = new Ask({}, mockTask);
+    expect(ask.tools.map((tool) => tool[0].name)).toEqual([
+      "ReadFile",
+      "ListFiles",
+      "SearchFiles",
+    ]);
+  });
+
+  it("should use the main repository for interfaces without a worktree", async () => {
+    const ask = new Ask({}, mockTask);
+
+    await ask.generate({ model: {} as ModelReference<any>, prompt: "q" });
+
+    expect(getTaskInterfaces).toHaveBeenCalledWith(
+      mockTask,
+      {
+        worktreeDir: "/fake/repo",
+        fileInfo: mockFileInfo,
+      },
+      "q"
+    );
+  });
+
+  it("should use the task worktree for interfaces when there is one", async () => {
+    const worktree = { worktreeDir: "/fake/worktree" } as Worktree;
+    vi.mocked(mockTask.getWorkTree).mockReturnValue(worktree);
+    const ask = new Ask({}, mockTask);
+
+    await ask.generate({ model: {} as ModelReference<any>, prompt: "q" });
+
+    expect(getTaskInterfaces).toHaveBeenCalledWith(mockTask, worktree, "q");
+  });
+
+  it("should return the final answer from generateWithTools", async () => {
+    const ask = new Ask({}, mockTask);
+    const generateWithToolsSpy = vi.spyOn(ask, "generateWithTools");
+    const options = {
+      model: {} as ModelReference<any>,
+      prompt: "Where is Foo used?",
+    };
+
+    const answer = await ask.generate(options);
+
+    expect(answer).toBe("mock answer");
+    expect(generateWithToolsSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: options.model,
+        prompt: expect.stringContaining("mock interfaces"),
+        tools: ask.tools,
+        returnToolRequests: true,
+        messages: [],
+      })
+    );
+    expect(generateWithToolsSpy.mock.calls[0][0].prompt).toContain(
+      "Where is Foo used?"
+    );
+  });
+});
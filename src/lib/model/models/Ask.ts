@@ -0,0 +1,78 @@
+import { Models, GenerateModelOptions } from "../Models.js";
+import { Task } from "../../task/Task.js";
+import { GenerateOptions, ModelReference } from "genkit";
+import { ReadFile } from "../tools/ReadFile.js";
+import { ListFiles } from "../tools/ListFiles.js";
+import { SearchFiles } from "../tools/SearchFiles.js";
+import {
+  InterfaceSource,
+  getTaskInterfaces,
+} from "../context/getRelevantInterfaces.js";
+
+export class Ask extends Models {
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
+
+    this.initializeTools([
+      ReadFile.modelToolArgs(this),
+      ListFiles.modelToolArgs(this),
+      SearchFiles.modelToolArgs(this),
+    ]);
+  }
+
+  /**
+   * Returns the worktree of the task, or the main repository when the task
+   * does not run in a worktree.
+   */
+  private getContextWorktree(): InterfaceSource {
+    try {
+      return this.task.getWorkTree();
+    } catch (e) {
+      return {
+        worktreeDir: this.task.getCwd(),
+        fileInfo: this.task.cassi.repository.fileInfo,
+      };
+    }
+  }
+
+  async generate(options: GenerateModelOptions): Promise<string> {
+    const {
+      model,
+      prompt,
+      messages: initialMessages,
+      ...restOptions
+    } = options;
+
+    const generateOptions: GenerateOptions = {
+      model: model,
+      prompt: `
+You are an expert senior TypeScript developer answering a question about an existing codebase. You must not modify any files. Use the provided tools only to read and search the code.
+
+INPUTS:
+
+File Interfaces:
+${await getTaskInterfaces(this.task, this.getContextWorktree(), prompt)}
+
+User Question:
+${prompt}
+
+AVAILABLE TOOLS:
+ReadFile, ListFiles, SearchFiles
+
+INSTRUCTIONS:
+
+Analyze the User Question and the provided File Interfaces. Identify the files that are relevant to the question.
+
+Use the SearchFiles tool to find where symbols are defined or used, and the ReadFile tool to read the implementation of relevant files. Use the ListFiles tool only if the File Interfaces are insufficient.
+
+Answer the User Question directly and concisely. Reference files by their relative path and include short code excerpts only when they help explain the answer. If the codebase does not contain enough information to answer the question, say so.
+`,
+      tools: this.tools,
+      returnToolRequests: true,
+      messages: initialMessages ?? [],
+      ...restOptions,
+    };
+
+    return await this.generateWithTools(generateOptions);
+  }
+}
@@ -14,7 +14,7 @@ vi.mock("../../task/Task.js", () => {
       ...args, // Include any args passed to constructor if needed
       // Provide the mock worktree property (might be used elsewhere)
       worktree: mockWorktree,
-      // Provide the getWorkTree method as expected by Coder.generate -> getInterfaces
+      // Provide the getWorkTree method as expected by Coder.generate -> getTaskInterfaces
       getWorkTree: vi.fn().mockReturnValue(mockWorktree),
       // Add mocks for any other methods/properties of Task used by Coder if necessary
       invoke: vi.fn(),
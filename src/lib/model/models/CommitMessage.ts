@@ -1,9 +1,11 @@
 import { Models, GenerateModelOptions } from "../Models.js";
 import { Task } from "../../task/Task.js";
+import { ModelReference } from "genkit";
+import { renderPrompt } from "../templates/PromptTemplates.js";
 
 export class CommitMessage extends Models {
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
   }
 
   async generate(options: GenerateModelOptions): Promise<string> {
@@ -13,15 +15,9 @@ export class CommitMessage extends Models {
       throw new Error("CommitMessage requires a string prompt.");
     }
 
-    const { text } = await this.ai.generate({
+    const { text } = await this.request({
       model: model,
-      prompt: `
-<GIT_DIFF>
-${prompt}
-</GIT_DIFF>
-
-Create a summary git commit message with a maximum 80 character description and a maximum of 3 bullet points to describe the GIT_DIFF as succinctly as possible, highlighting key changes in the commit. Do not include any "prefix:" like "feat:" or "bug:" on summary. Add bullet points with "*" and a single space after the "*" before the text for the bullet point.
-`,
+      prompt: await renderPrompt("CommitMessage", { diff: prompt }, this.task),
       ...restOptions,
     });
 
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreateTests } from "./CreateTests.js";
+import { Task } from "../../task/Task.js";
+
+vi.mock("../../task/Task.js");
+vi.mock("../context/getRelevantInterfaces.js", () => ({
+  getTaskInterfaces: vi.fn().mockResolvedValue("interface Foo {}"),
+}));
+vi.mock("../Models.js", async () => {
+  return {
+    Models: class {
+      plugin: any;
+      task: Task;
+      tools: any[] = [];
+      constructor(plugin: any, task: Task) {
+        this.plugin = plugin;
+        this.task = task;
+      }
+      initializeTools(tools: any[]) {
+        this.tools = tools;
+      }
+      async generateWithTools(options: any): Promise<string> {
+        return "Added tests";
+      }
+    },
+  };
+});
+
+describe("CreateTests", () => {
+  let mockTask: Task;
+
+  beforeEach(() => {
+    mockTask = new Task({} as any);
+  });
+
+  it("should be able to run test files", () => {
+    const model = new CreateTests({}, mockTask);
+
+    expect(model.tools.map((tool) => tool[0].name)).toEqual([
+      "ExecuteCommand",
+      "ReadFile",
+      "WriteFile",
+      "ReplaceInFile",
+      "RunBuild",
+      "ListFiles",
+      "RunTestFile",
+    ]);
+  });
+
+  it("should render the CreateTests prompt and return the summary", async () => {
+    const model = new CreateTests({}, mockTask);
+    const generateWithToolsSpy = vi.spyOn(model, "generateWithTools");
+
+    const summary = await model.generate({ prompt: "Write tests for foo.ts" });
+
+    expect(summary).toBe("Added tests");
+    const options = generateWithToolsSpy.mock.calls[0][0];
+    expect(options.prompt).toContain("interface Foo {}");
+    expect(options.prompt).toContain("Write tests for foo.ts");
+    expect(options.prompt).not.toContain(
+      "Do NOT write or modify any unit tests"
+    );
+    expect(options.returnToolRequests).toBe(true);
+  });
+});
@@ -59,7 +59,10 @@ describe("EvaluateAudioCodePrompt Model", () => {
   });
 
   it("should call ai.generate with correct parameters including audio data", async () => {
-    const mockResponse = { text: "{...}", usage: { totalTokens: 20 } };
+    const mockResponse = {
+      text: '{"summary": "add feature", "modifiesFiles": true, "transcription": "add a feature"}',
+      usage: { totalTokens: 20 },
+    };
     mockGenerate.mockResolvedValue(mockResponse);
 
     const options = {
@@ -94,10 +97,15 @@ describe("EvaluateAudioCodePrompt Model", () => {
     }
   });
 
-  it("should return the text content from the ai.generate response", async () => {
-    const expectedText =
-      '{"summary": "refactor code", "modifiesFiles": true, "steps": ["step 1", "step 2"]}';
-    const mockResponse = { text: expectedText, usage: { totalTokens: 15 } };
+  it("should return the validated output of the ai.generate response", async () => {
+    const mockResponse = {
+      output: {
+        summary: "refactor code",
+        modifiesFiles: true,
+        transcription: "refactor the code",
+      },
+      usage: { totalTokens: 15 },
+    };
     mockGenerate.mockResolvedValue(mockResponse);
 
     const options = {
@@ -106,10 +114,33 @@ describe("EvaluateAudioCodePrompt Model", () => {
     };
 
     const result = await evaluateInstance.generate(options);
-    expect(result).toBe(expectedText);
+    expect(result).toEqual(mockResponse.output);
+  });
+
+  it("should retry with the audio prompt and the validation error", async () => {
+    mockGenerate
+      .mockResolvedValueOnce({ text: "not json" })
+      .mockResolvedValueOnce({
+        text: '```json\n{"summary": "a", "modifiesFiles": false, "transcription": "b"}\n```',
+      });
+
+    const result = await evaluateInstance.generate({
+      model: "mockModelRef" as any,
+      audioBase64: "base64encodedaudio_retry",
+    });
+
+    expect(result).toEqual({
+      summary: "a",
+      modifiesFiles: false,
+      transcription: "b",
+    });
+    const retryPrompt = mockGenerate.mock.calls[1][0].prompt;
+    expect(retryPrompt).toHaveLength(4);
+    expect(retryPrompt[1].media).toBeDefined();
+    expect(retryPrompt[3].text).toContain("the response is not valid JSON");
   });
 
-  it("should return an empty string if ai.generate response has no text", async () => {
+  it("should throw a StructuredOutputError if the response never matches the schema", async () => {
     const mockResponse = { usage: { totalTokens: 10 } };
     mockGenerate.mockResolvedValue(mockResponse);
 
@@ -118,7 +149,8 @@ describe("EvaluateAudioCodePrompt Model", () => {
       audioBase64: "base64encodedaudio_empty",
     };
 
-    const result = await evaluateInstance.generate(options);
-    expect(result).toBe("");
+    await expect(evaluateInstance.generate(options)).rejects.toThrow(
+      "Model EvaluateAudioCodePrompt did not return valid output after 3 attempt(s)"
+    );
   });
 });
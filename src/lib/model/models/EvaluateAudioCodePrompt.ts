@@ -1,20 +1,24 @@
-import { z } from "genkit";
+import { z, ModelReference } from "genkit";
 import { Models, GenerateModelOptions } from "../Models.js";
 import { Task } from "../../task/Task.js";
 
-const EvaluateAudioCodePromptSchema = z.object({
+export const EvaluateAudioCodePromptSchema = z.object({
   summary: z.string(),
   modifiesFiles: z.boolean(),
   transcription: z.string(),
 });
+export type AudioCodePromptEvaluation = z.infer<
+  typeof EvaluateAudioCodePromptSchema
+>;
+
 export class EvaluateAudioCodePrompt extends Models {
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
   }
 
   async generate(
     options: GenerateModelOptions & { audioBase64: string }
-  ): Promise<string> {
+  ): Promise<AudioCodePromptEvaluation> {
     const { model, audioBase64, ...restOptions } = options;
 
     if (typeof audioBase64 !== "string") {
@@ -23,7 +27,7 @@ export class EvaluateAudioCodePrompt extends Models {
       );
     }
 
-    const { text } = await this.ai.generate({
+    return this.requestOutput(EvaluateAudioCodePromptSchema, {
       model: model,
       prompt: [
         {
@@ -43,10 +47,7 @@ The JSON object to OUTPUT is:
 `,
         },
       ],
-      output: { schema: EvaluateAudioCodePromptSchema },
       ...restOptions,
     });
-
-    return text ?? "";
   }
 }
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { EvaluateCodePrompt } from "./EvaluateCodePrompt.js";
 import { Models, GenerateModelOptions } from "../Models.js";
 import { Task } from "../../task/Task.js";
+import { StructuredOutputError } from "../StructuredOutput.js";
 import { genkit } from "genkit";
 import { z } from "zod";
 
@@ -60,7 +61,10 @@ describe("EvaluateCodePrompt Model", () => {
   });
 
   it("should call ai.generate with correct parameters", async () => {
-    const mockResponse = { text: "{...}", usage: { totalTokens: 20 } };
+    const mockResponse = {
+      text: '{"summary": "analyze code", "modifiesFiles": false}',
+      usage: { totalTokens: 20 },
+    };
     mockGenerate.mockResolvedValue(mockResponse);
 
     const options: GenerateModelOptions = {
@@ -88,10 +92,11 @@ describe("EvaluateCodePrompt Model", () => {
     }
   });
 
-  it("should return the text content from the ai.generate response", async () => {
-    const expectedText =
-      '{"summary": "refactor code", "modifiesFiles": true, "steps": ["step 1", "step 2"]}';
-    const mockResponse = { text: expectedText, usage: { totalTokens: 15 } };
+  it("should return the validated output of the ai.generate response", async () => {
+    const mockResponse = {
+      text: '{"summary": "refactor code", "modifiesFiles": true, "steps": ["step 1", "step 2"]}',
+      usage: { totalTokens: 15 },
+    };
     mockGenerate.mockResolvedValue(mockResponse);
 
     const options: GenerateModelOptions = {
@@ -100,19 +105,39 @@ describe("EvaluateCodePrompt Model", () => {
     };
 
     const result = await evaluateInstance.generate(options);
-    expect(result).toBe(expectedText);
+    expect(result).toEqual({ summary: "refactor code", modifiesFiles: true });
   });
 
-  it("should return an empty string if ai.generate response has no text", async () => {
-    const mockResponse = { usage: { totalTokens: 10 } };
-    mockGenerate.mockResolvedValue(mockResponse);
+  it("should retry with the validation error when a field is missing", async () => {
+    mockGenerate
+      .mockResolvedValueOnce({ text: '{"summary": "refactor code"}' })
+      .mockResolvedValueOnce({
+        output: { summary: "refactor code", modifiesFiles: true },
+      });
+
+    const result = await evaluateInstance.generate({
+      model: "mockModelRef" as any,
+      prompt: "Refactor the code.",
+    });
+
+    expect(result).toEqual({ summary: "refactor code", modifiesFiles: true });
+    expect(mockGenerate).toHaveBeenCalledTimes(2);
+    const retryPrompt = mockGenerate.mock.calls[1][0].prompt;
+    expect(retryPrompt[0].text).toContain("Refactor the code.");
+    expect(retryPrompt[1].text).toContain("modifiesFiles: Required");
+  });
+
+  it("should throw a StructuredOutputError if the response never matches the schema", async () => {
+    mockGenerate.mockResolvedValue({ usage: { totalTokens: 10 } });
 
     const options: GenerateModelOptions = {
       model: "mockModelRef" as any,
       prompt: "Generate empty",
     };
 
-    const result = await evaluateInstance.generate(options);
-    expect(result).toBe("");
+    await expect(evaluateInstance.generate(options)).rejects.toThrow(
+      StructuredOutputError
+    );
+    expect(mockGenerate).toHaveBeenCalledTimes(3);
   });
 });
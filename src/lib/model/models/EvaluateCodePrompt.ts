@@ -1,44 +1,30 @@
-import { z } from "genkit";
+import { z, ModelReference } from "genkit";
 import { Models, GenerateModelOptions } from "../Models.js";
 import { Task } from "../../task/Task.js";
+import { renderPrompt } from "../templates/PromptTemplates.js";
 
-const EvaluateCodePromptSchema = z.object({
+export const EvaluateCodePromptSchema = z.object({
   summary: z.string(),
   modifiesFiles: z.boolean(),
 });
+export type CodePromptEvaluation = z.infer<typeof EvaluateCodePromptSchema>;
+
 export class EvaluateCodePrompt extends Models {
-  constructor(plugin: any, task: Task) {
-    super(plugin, task);
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
   }
 
-  async generate(options: GenerateModelOptions): Promise<string> {
+  async generate(options: GenerateModelOptions): Promise<CodePromptEvaluation> {
     const { model, prompt, ...restOptions } = options;
 
     if (typeof prompt !== "string") {
       throw new Error("EvaluateCodePrompt requires a string prompt.");
     }
 
-    const { text } = await this.ai.generate({
+    return this.requestOutput(EvaluateCodePromptSchema, {
       model: model,
-      prompt: `
-OUTPUT the following JSON object, substituting in the results of model queries for properties. use the following CONTEXT when generating text for JSON properties:
-
-FILE TREE:
-
-TASK DESCRIPTION:
-
-${prompt}
-
-The JSON object to OUTPUT is:
-{
-    "summary": "(( INSERT a 3-5 word summary of the TASK DESCRIPTION that is as short as possible. do not include an punctuation.))",
-    "modifiesFiles" (( INSERT boolean true if the TASK DESCRIPTION involves creating or modifying files or false if it does not)),
-}            
-`,
-      output: { schema: EvaluateCodePromptSchema },
+      prompt: await renderPrompt("EvaluateCodePrompt", { prompt }, this.task),
       ...restOptions,
     });
-
-    return text ?? "";
   }
 }
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Planner, PlanSchema } from "./Planner.js";
+import { Models } from "../Models.js";
+import { Task } from "../../task/Task.js";
+import { getTaskInterfaces } from "../context/getRelevantInterfaces.js";
+
+vi.mock("../../task/Task.js");
+vi.mock("../context/getRelevantInterfaces.js", () => ({
+  getTaskInterfaces: vi.fn().mockResolvedValue("interface Foo {}"),
+}));
+
+const mockGenerate = vi.fn();
+vi.mock("genkit", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("genkit")>();
+  return {
+    ...actual,
+    genkit: vi.fn(() => ({ generate: mockGenerate })),
+  };
+});
+
+describe("Planner Model", () => {
+  let mockTask: Task;
+  let planner: Planner;
+  const worktree = { worktreeDir: "/repo/.cassi/worktrees/abcd1234" };
+
+  beforeEach(() => {
+    mockGenerate.mockReset();
+    mockTask = new (Task as any)() as Task;
+    vi.mocked(mockTask.getWorkTree).mockReturnValue(worktree as any);
+    planner = new Planner({}, mockTask);
+  });
+
+  it("should extend Models", () => {
+    expect(planner).toBeInstanceOf(Models);
+  });
+
+  it("should request a structured plan using the file interfaces", async () => {
+    mockGenerate.mockResolvedValue({ text: '{"steps":[]}' });
+
+    const result = await planner.generate({
+      model: "test-model" as any,
+      prompt: "Add Foo",
+    });
+
+    expect(result).toEqual({ steps: [] });
+    expect(getTaskInterfaces).toHaveBeenCalledWith(
+      mockTask,
+      worktree,
+      "Add Foo"
+    );
+    const options = mockGenerate.mock.calls[0][0];
+    expect(options.model).toBe("test-model");
+    expect(options.prompt).toContain("interface Foo {}");
+    expect(options.prompt).toContain("USER REQUEST:\nAdd Foo");
+    expect(options.prompt).not.toContain("PREVIOUS PLAN");
+    expect(options.output).toEqual({ schema: PlanSchema });
+  });
+
+  it("should include the previous plan and feedback when revising", async () => {
+    mockGenerate.mockResolvedValue({ text: '{"steps":[]}' });
+    const previousPlan = [
+      { description: "Add Foo", files: ["src/foo.ts"], changes: "Add it" },
+    ];
+
+    await planner.generate({
+      model: "test-model" as any,
+      prompt: "Add Foo",
+      previousPlan,
+      feedback: "Also export it",
+    });
+
+    const options = mockGenerate.mock.calls[0][0];
+    expect(options.prompt).toContain("PREVIOUS PLAN");
+    expect(options.prompt).toContain('"src/foo.ts"');
+    expect(options.prompt).toContain("Also export it");
+    expect(options).not.toHaveProperty("previousPlan");
+    expect(options).not.toHaveProperty("feedback");
+  });
+
+  it("should throw if the prompt is not a string", async () => {
+    await expect(
+      planner.generate({ model: "test-model" as any, prompt: [] as any })
+    ).rejects.toThrow("Planner requires a string prompt.");
+  });
+});
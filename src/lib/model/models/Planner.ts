@@ -0,0 +1,72 @@
+import { z, ModelReference } from "genkit";
+import { Models, GenerateModelOptions } from "../Models.js";
+import { Task } from "../../task/Task.js";
+import { getTaskInterfaces } from "../context/getRelevantInterfaces.js";
+
+export const PlanStepSchema = z.object({
+  description: z.string(),
+  files: z.array(z.string()),
+  changes: z.string(),
+});
+
+export const PlanSchema = z.object({
+  steps: z.array(PlanStepSchema),
+});
+
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+export type Plan = z.infer<typeof PlanSchema>;
+
+export interface PlannerOptions extends GenerateModelOptions {
+  previousPlan?: PlanStep[];
+  feedback?: string;
+}
+
+export class Planner extends Models {
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
+  }
+
+  async generate(options: PlannerOptions): Promise<Plan> {
+    const { model, prompt, previousPlan, feedback, ...restOptions } = options;
+
+    if (typeof prompt !== "string") {
+      throw new Error("Planner requires a string prompt.");
+    }
+
+    const revision =
+      previousPlan && feedback
+        ? `
+PREVIOUS PLAN:
+${JSON.stringify({ steps: previousPlan }, null, 2)}
+
+The user asked for the following changes to the PREVIOUS PLAN, OUTPUT a revised plan:
+${feedback}
+`
+        : "";
+
+    return this.requestOutput(PlanSchema, {
+      model: model,
+      prompt: `
+You are an expert senior TypeScript developer planning how to implement a user request in an existing codebase. Do not write any code. Break the request into a short sequence of steps that can each be implemented and built on their own, in the order they should be applied.
+
+FILE INTERFACES:
+${await getTaskInterfaces(this.task, this.task.getWorkTree(), prompt)}
+
+USER REQUEST:
+${prompt}
+${revision}
+OUTPUT the following JSON object:
+{
+    "steps": [
+        {
+            "description": "(( INSERT a one sentence description of the step ))",
+            "files": [(( INSERT the relative paths of the files the step creates or modifies ))],
+            "changes": "(( INSERT a description of the changes to make to each file ))"
+        }
+    ]
+}
+`,
+      ...restOptions,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Reviewer, ReviewSchema } from "./Reviewer.js";
+import { Models } from "../Models.js";
+import { Task } from "../../task/Task.js";
+import { getTaskInterfaces } from "../context/getRelevantInterfaces.js";
+
+vi.mock("../../task/Task.js");
+vi.mock("../context/getRelevantInterfaces.js", () => ({
+  getTaskInterfaces: vi.fn().mockResolvedValue("interface Foo {}"),
+}));
+
+const mockGenerate = vi.fn();
+vi.mock("genkit", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("genkit")>();
+  return {
+    ...actual,
+    genkit: vi.fn(() => ({ generate: mockGenerate })),
+  };
+});
+
+describe("Reviewer Model", () => {
+  let mockTask: Task;
+  let reviewer: Reviewer;
+  const worktree = { worktreeDir: "/repo/.cassi/worktrees/abcd1234" };
+  const finding = {
+    file: "src/foo.ts",
+    line: 3,
+    severity: "blocking",
+    suggestion: "Export Foo.",
+  };
+
+  beforeEach(() => {
+    mockGenerate.mockReset();
+    mockTask = new (Task as any)() as Task;
+    vi.mocked(mockTask.getWorkTree).mockReturnValue(worktree as any);
+    reviewer = new Reviewer({}, mockTask);
+  });
+
+  it("should extend Models", () => {
+    expect(reviewer).toBeInstanceOf(Models);
+  });
+
+  it("should review the diff for the prompt using the file interfaces", async () => {
+    mockGenerate.mockResolvedValue({
+      output: { findings: [finding] },
+    });
+
+    const result = await reviewer.generate({
+      model: "test-model" as any,
+      prompt: "Add Foo",
+      diff: "+interface Foo {}",
+    });
+
+    expect(result).toEqual({ findings: [finding] });
+    expect(getTaskInterfaces).toHaveBeenCalledWith(
+      mockTask,
+      worktree,
+      "Add Foo"
+    );
+    const options = mockGenerate.mock.calls[0][0];
+    expect(options.model).toBe("test-model");
+    expect(options.prompt).toContain("interface Foo {}");
+    expect(options.prompt).toContain("USER REQUEST:\nAdd Foo");
+    expect(options.prompt).toContain("<GIT_DIFF>\n+interface Foo {}\n");
+    expect(options.output).toEqual({ schema: ReviewSchema });
+    expect(options).not.toHaveProperty("diff");
+  });
+
+  it("should throw if the prompt is not a string", async () => {
+    await expect(
+      reviewer.generate({ prompt: [] as any, diff: "" })
+    ).rejects.toThrow("Reviewer requires a string prompt.");
+  });
+});
@@ -0,0 +1,55 @@
+import { z, ModelReference } from "genkit";
+import { Models, GenerateModelOptions } from "../Models.js";
+import { Task } from "../../task/Task.js";
+import { getTaskInterfaces } from "../context/getRelevantInterfaces.js";
+import { renderPrompt } from "../templates/PromptTemplates.js";
+
+export const ReviewFindingSchema = z.object({
+  file: z.string(),
+  line: z.number().int().nullable(),
+  severity: z.enum(["blocking", "warning", "info"]),
+  suggestion: z.string(),
+});
+
+export const ReviewSchema = z.object({
+  findings: z.array(ReviewFindingSchema),
+});
+
+export type ReviewFinding = z.infer<typeof ReviewFindingSchema>;
+export type Review = z.infer<typeof ReviewSchema>;
+
+export interface ReviewerOptions extends GenerateModelOptions {
+  diff: string;
+}
+
+export class Reviewer extends Models {
+  constructor(plugin: any, task: Task, model?: ModelReference<any>) {
+    super(plugin, task, model);
+  }
+
+  async generate(options: ReviewerOptions): Promise<Review> {
+    const { model, prompt, diff, ...restOptions } = options;
+
+    if (typeof prompt !== "string") {
+      throw new Error("Reviewer requires a string prompt.");
+    }
+
+    return this.requestOutput(ReviewSchema, {
+      model: model,
+      prompt: await renderPrompt(
+        "Reviewer",
+        {
+          interfaces: await getTaskInterfaces(
+            this.task,
+            this.task.getWorkTree(),
+            prompt
+          ),
+          prompt,
+          diff,
+        },
+        this.task
+      ),
+      ...restOptions,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  googleAI,
+  gemini20Flash,
+  gemini25FlashPreview0417,
+  gemini25ProPreview0325,
+} from "@genkit-ai/googleai";
+import { googleAIProvider } from "./GoogleAI.js";
+
+vi.mock("@genkit-ai/googleai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@genkit-ai/googleai")>();
+  return {
+    ...actual,
+    googleAI: vi.fn(() => () => "mockGoogleAIPlugin"),
+  };
+});
+
+describe("googleAIProvider", () => {
+  it("should use the default Gemini model for each Models class", () => {
+    const provider = googleAIProvider({ name: "googleai" });
+
+    expect(provider.getModel("Coder")).toBe(gemini25ProPreview0325);
+    expect(provider.getModel("Planner")).toBe(gemini25ProPreview0325);
+    expect(provider.getModel("EvaluateCodePrompt")).toBe(gemini20Flash);
+    expect(provider.getModel("EvaluateAudioCodePrompt")).toBe(gemini20Flash);
+    expect(provider.getModel("CommitMessage")).toBe(gemini25FlashPreview0417);
+    expect(googleAI).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should use the configured model for every Models class", () => {
+    const provider = googleAIProvider({
+      name: "googleai",
+      model: "gemini-2.5-pro-exp-03-25",
+    });
+
+    expect(provider.getModel("Coder").name).toBe(
+      "googleai/gemini-2.5-pro-exp-03-25"
+    );
+    expect(provider.getModel("CommitMessage").name).toBe(
+      "googleai/gemini-2.5-pro-exp-03-25"
+    );
+  });
+
+  it("should pass a configured api key to the plugin", () => {
+    googleAIProvider({ name: "googleai", apiKey: "key" });
+
+    expect(googleAI).toHaveBeenCalledWith({ apiKey: "key" });
+  });
+});
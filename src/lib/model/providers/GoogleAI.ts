@@ -0,0 +1,35 @@
+import {
+  googleAI,
+  gemini,
+  gemini20Flash,
+  gemini25FlashPreview0417,
+  gemini25ProPreview0325,
+} from "@genkit-ai/googleai";
+import type { ModelReference } from "genkit";
+import type { ProviderConfig, ModelProvider } from "../Provider.js";
+
+/**
+ * Models that use a smaller model than the default when no model is
+ * configured.
+ */
+const getDefaultModel = (modelClassName: string): ModelReference<any> => {
+  switch (modelClassName) {
+    case "EvaluateCodePrompt":
+    case "EvaluateAudioCodePrompt":
+      return gemini20Flash;
+    case "CommitMessage":
+      return gemini25FlashPreview0417;
+    default:
+      return gemini25ProPreview0325;
+  }
+};
+
+/**
+ * Gemini models through the Google AI API. The API key defaults to the
+ * `apiKeys.gemini` config setting.
+ */
+export const googleAIProvider = (config: ProviderConfig): ModelProvider => ({
+  plugin: googleAI(config.apiKey ? { apiKey: config.apiKey } : undefined),
+  getModel: (modelClassName: string) =>
+    config.model ? gemini(config.model) : getDefaultModel(modelClassName),
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { genkit } from "genkit";
+import {
+  openAICompatibleProvider,
+  toChatMessages,
+  toChatRequest,
+  fromChatResponse,
+} from "./OpenAICompatible.js";
+
+const config = {
+  name: "openai-compatible",
+  baseUrl: "http://localhost:8080/v1/",
+  model: "qwen2.5-coder",
+};
+
+const chatResponse = (message: any, finishReason = "stop") => ({
+  choices: [{ message, finish_reason: finishReason }],
+  usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+});
+
+describe("OpenAI-compatible provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should require a base url and model", () => {
+    expect(() =>
+      openAICompatibleProvider({ name: "openai-compatible", model: "qwen" })
+    ).toThrow(
+      'Provider openai-compatible requires "baseUrl" and "model" settings.'
+    );
+  });
+
+  it("should use the configured model for every Models class", () => {
+    const provider = openAICompatibleProvider(config);
+
+    expect(provider.getModel("Coder").name).toBe(
+      "openai-compatible/qwen2.5-coder"
+    );
+    expect(provider.getModel("CommitMessage").name).toBe(
+      "openai-compatible/qwen2.5-coder"
+    );
+  });
+
+  it("should convert messages to chat completion messages", () => {
+    expect(
+      toChatMessages({ role: "system", content: [{ text: "Be brief." }] })
+    ).toEqual([{ role: "system", content: "Be brief." }]);
+    expect(
+      toChatMessages({
+        role: "model",
+        content: [
+          { text: "Reading." },
+          { toolRequest: { name: "readFile", ref: "call_1", input: { p: 1 } } },
+        ],
+      })
+    ).toEqual([
+      {
+        role: "assistant",
+        content: "Reading.",
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "readFile", arguments: '{"p":1}' },
+          },
+        ],
+      },
+    ]);
+    expect(
+      toChatMessages({
+        role: "tool",
+        content: [
+          { toolResponse: { name: "readFile", ref: "call_1", output: "abc" } },
+          { toolResponse: { name: "listFiles", output: ["a.ts"] } },
+        ],
+      })
+    ).toEqual([
+      { role: "tool", tool_call_id: "call_1", content: '"abc"' },
+      { role: "tool", tool_call_id: "listFiles", content: '["a.ts"]' },
+    ]);
+  });
+
+  it("should build a request with tools, config and a json schema", () => {
+    const schema = { type: "object", properties: { a: { type: "string" } } };
+    const body = toChatRequest("qwen", {
+      messages: [{ role: "user", content: [{ text: "hi" }] }],
+      config: { temperature: 0.2, maxOutputTokens: 100 },
+      tools: [
+        {
+          name: "readFile",
+          description: "Read a file",
+          inputSchema: { type: "object" },
+        },
+      ],
+      output: { format: "json", schema },
+    });
+
+    expect(body).toEqual({
+      model: "qwen",
+      messages: [{ role: "user", content: "hi" }],
+      temperature: 0.2,
+      max_tokens: 100,
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "readFile",
+            description: "Read a file",
+            parameters: { type: "object" },
+          },
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "output", schema },
+      },
+    });
+  });
+
+  it("should convert tool calls and usage from the response", () => {
+    const response = fromChatResponse(
+      chatResponse(
+        {
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "readFile", arguments: '{"path":"a.ts"}' },
+            },
+          ],
+        },
+        "tool_calls"
+      )
+    );
+
+    expect(response).toEqual({
+      message: {
+        role: "model",
+        content: [
+          {
+            toolRequest: {
+              name: "readFile",
+              ref: "call_1",
+              input: { path: "a.ts" },
+            },
+          },
+        ],
+      },
+      finishReason: "stop",
+      usage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 },
+    });
+  });
+
+  it("should throw if the response has no message", () => {
+    expect(() => fromChatResponse({ choices: [] })).toThrow(
+      "OpenAI-compatible response did not include a message."
+    );
+  });
+
+  it("should generate through the chat completions endpoint", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => chatResponse({ content: "Hello" }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = openAICompatibleProvider({ ...config, apiKey: "secret" });
+    const ai = genkit({ plugins: [provider.plugin] });
+
+    const response = await ai.generate({
+      model: provider.getModel("Ask"),
+      prompt: "Say hello",
+    });
+
+    expect(response.text).toBe("Hello");
+    expect(response.usage.totalTokens).toBe(15);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: "qwen2.5-coder",
+      messages: [{ role: "user", content: "Say hello" }],
+    });
+  });
+
+  it("should report failed requests", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        text: async () => "model loading",
+      })
+    );
+    const provider = openAICompatibleProvider(config);
+    const ai = genkit({ plugins: [provider.plugin] });
+
+    await expect(
+      ai.generate({ model: provider.getModel("Ask"), prompt: "Say hello" })
+    ).rejects.toThrow(
+      "OpenAI-compatible request to http://localhost:8080/v1/chat/completions failed with status 503: model loading"
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import type {
+  GenerateRequest,
+  MessageData,
+  ModelResponseData,
+  Part,
+} from "genkit";
+import { modelRef } from "genkit/model";
+import { genkitPlugin } from "genkit/plugin";
+import type { ProviderConfig, ModelProvider } from "../Provider.js";
+
+export const OPENAI_COMPATIBLE_PROVIDER = "openai-compatible";
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | any[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+const FINISH_REASONS: Record<string, ModelResponseData["finishReason"]> = {
+  stop: "stop",
+  tool_calls: "stop",
+  function_call: "stop",
+  length: "length",
+  content_filter: "blocked",
+};
+
+const textOf = (content: Part[]): string =>
+  content
+    .filter((part) => part.text !== undefined)
+    .map((part) => part.text)
+    .join("");
+
+/**
+ * Converts a genkit message into one or more chat completion messages. Tool
+ * responses become one `tool` message per response.
+ */
+export const toChatMessages = (message: MessageData): ChatMessage[] => {
+  switch (message.role) {
+    case "system":
+      return [{ role: "system", content: textOf(message.content) }];
+    case "model": {
+      const toolCalls = message.content
+        .filter((part) => part.toolRequest)
+        .map((part) => ({
+          id: part.toolRequest!.ref ?? part.toolRequest!.name,
+          type: "function" as const,
+          function: {
+            name: part.toolRequest!.name,
+            arguments: JSON.stringify(part.toolRequest!.input ?? {}),
+          },
+        }));
+      return [
+        {
+          role: "assistant",
+          content: textOf(message.content) || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+      ];
+    }
+    case "tool":
+      return message.content
+        .filter((part) => part.toolResponse)
+        .map((part) => ({
+          role: "tool",
+          tool_call_id: part.toolResponse!.ref ?? part.toolResponse!.name,
+          content: JSON.stringify(part.toolResponse!.output ?? null),
+        }));
+    default: {
+      const hasMedia = message.content.some((part) => part.media);
+      if (!hasMedia) {
+        return [{ role: "user", content: textOf(message.content) }];
+      }
+      return [
+        {
+          role: "user",
+          content: message.content.map((part) =>
+            part.media
+              ? { type: "image_url", image_url: { url: part.media.url } }
+              : { type: "text", text: part.text ?? "" }
+          ),
+        },
+      ];
+    }
+  }
+};
+
+/**
+ * Builds the body of a chat completions request from a genkit request.
+ */
+export const toChatRequest = (
+  model: string,
+  request: GenerateRequest
+): Record<string, any> => {
+  const config = request.config ?? {};
+  const body: Record<string, any> = {
+    model,
+    messages: request.messages.flatMap(toChatMessages),
+  };
+  if (config.temperature !== undefined) body.temperature = config.temperature;
+  if (config.topP !== undefined) body.top_p = config.topP;
+  if (config.maxOutputTokens !== undefined)
+    body.max_tokens = config.maxOutputTokens;
+  if (config.stopSequences !== undefined) body.stop = config.stopSequences;
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema ?? { type: "object", properties: {} },
+      },
+    }));
+  }
+  if (request.output?.format === "json") {
+    body.response_format = request.output.schema
+      ? {
+          type: "json_schema",
+          json_schema: { name: "output", schema: request.output.schema },
+        }
+      : { type: "json_object" };
+  }
+  return body;
+};
+
+/**
+ * Converts a chat completions response into a genkit response.
+ */
+export const fromChatResponse = (response: any): ModelResponseData => {
+  const choice = response?.choices?.[0];
+  if (!choice?.message) {
+    throw new Error("OpenAI-compatible response did not include a message.");
+  }
+  const content: Part[] = [];
+  if (choice.message.content) {
+    content.push({ text: choice.message.content });
+  }
+  for (const toolCall of choice.message.tool_calls ?? []) {
+    content.push({
+      toolRequest: {
+        name: toolCall.function.name,
+        ref: toolCall.id,
+        input: toolCall.function.arguments
+          ? JSON.parse(toolCall.function.arguments)
+          : {},
+      },
+    });
+  }
+  return {
+    message: { role: "model", content },
+    finishReason: FINISH_REASONS[choice.finish_reason] ?? "other",
+    usage: response.usage
+      ? {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        }
+      : undefined,
+  };
+};
+
+/**
+ * Models served by any HTTP endpoint that implements the OpenAI chat
+ * completions API, e.g. llama.cpp, Ollama or vLLM running locally. The
+ * configured `model` is used for every Models class.
+ */
+export const openAICompatibleProvider = (
+  config: ProviderConfig
+): ModelProvider => {
+  const { baseUrl, apiKey, model } = config;
+  if (!baseUrl || !model) {
+    throw new Error(
+      `Provider ${OPENAI_COMPATIBLE_PROVIDER} requires "baseUrl" and "model" settings.`
+    );
+  }
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const name = `${OPENAI_COMPATIBLE_PROVIDER}/${model}`;
+
+  const plugin = genkitPlugin(OPENAI_COMPATIBLE_PROVIDER, async (ai) => {
+    ai.defineModel(
+      {
+        name,
+        label: `OpenAI-compatible ${model}`,
+        supports: {
+          multiturn: true,
+          tools: true,
+          systemRole: true,
+          media: true,
+          output: ["text", "json"],
+        },
+      },
+      async (request) => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify(toChatRequest(model, request)),
+        });
+        if (!response.ok) {
+          throw new Error(
+            `OpenAI-compatible request to ${url} failed with status ${
+              response.status
+            }: ${await response.text()}`
+          );
+        }
+        return fromChatResponse(await response.json());
+      }
+    );
+  });
+
+  return {
+    plugin,
+    getModel: () => modelRef({ name }),
+  };
+};
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import { writeFileSync } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { rimraf } from "rimraf";
+import {
+  ModelScript,
+  scriptedProvider,
+  SCRIPTED_PROVIDER,
+} from "./Scripted.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { User } from "../../user/User.js";
+import { Task } from "../../task/Task.js";
+import { Coder } from "../models/Coder.js";
+import { CommitMessage } from "../models/CommitMessage.js";
+import { EvaluateCodePrompt } from "../models/EvaluateCodePrompt.js";
+import { BudgetExceededError } from "../../budget/Budget.js";
+import LocalFS from "../../tools/fs/LocalFS.js";
+import { LocalGit } from "../../tools/git/LocalGit.js";
+import { LocalConsole } from "../../tools/console/LocalConsole.js";
+
+const request = (text: string): any => ({
+  messages: [{ role: "user", content: [{ text }] }],
+});
+
+describe("ModelScript", () => {
+  it("should answer with the turns of each Models class in order", () => {
+    const script = new ModelScript({
+      Coder: [
+        { toolRequests: [{ name: "ReadFile", input: { path: "a.ts" } }] },
+        { text: "Done", usage: { inputTokens: 5, outputTokens: 1 } },
+      ],
+      EvaluateCodePrompt: [{ output: { summary: "a", modifiesFiles: true } }],
+    });
+
+    expect(script.next("Coder", request("one"))).toEqual({
+      message: {
+        role: "model",
+        content: [
+          {
+            toolRequest: {
+              name: "ReadFile",
+              ref: "0-0",
+              input: { path: "a.ts" },
+            },
+          },
+        ],
+      },
+      finishReason: "stop",
+      usage: undefined,
+    });
+    expect(script.next("EvaluateCodePrompt", request("two")).message).toEqual({
+      role: "model",
+      content: [{ text: '{"summary":"a","modifiesFiles":true}' }],
+    });
+    expect(script.remaining()).toBe(1);
+    expect(script.next("Coder", request("three"))).toMatchObject({
+      message: { content: [{ text: "Done" }] },
+      usage: { inputTokens: 5, outputTokens: 1 },
+    });
+    expect(script.remaining("Coder")).toBe(0);
+    expect(
+      script.requests.map(({ modelClass, turn }) => [modelClass, turn])
+    ).toEqual([
+      ["Coder", 0],
+      ["EvaluateCodePrompt", 0],
+      ["Coder", 1],
+    ]);
+  });
+
+  it("should build turns from the request with a function", () => {
+    const script = new ModelScript({
+      Ask: [(req) => ({ text: `You said ${req.messages[0].content[0].text}` })],
+    });
+
+    expect(script.next("Ask", request("hi")).message?.content).toEqual([
+      { text: "You said hi" },
+    ]);
+  });
+
+  it("should throw when a Models class has no more turns", () => {
+    const script = new ModelScript({ Ask: [{ text: "Once" }] });
+    script.next("Ask", request("hi"));
+
+    expect(() => script.next("Ask", request("again"))).toThrow(
+      "Model script has no more turns for Ask after 1 turn(s)"
+    );
+  });
+});
+
+describe("scriptedProvider", () => {
+  it("should reference a scripted model for each Models class", () => {
+    const provider = scriptedProvider(new ModelScript({ Coder: [] }))({
+      name: SCRIPTED_PROVIDER,
+    });
+
+    expect(provider.getModel("Coder").name).toBe("scripted/Coder");
+    expect(() => provider.getModel("Ask")).toThrow(
+      "Model script has no turns for Ask. Scripted classes: Coder"
+    );
+  });
+});
+
+describe("scriptedProvider end to end", () => {
+  let testDir: string;
+  let repositoryDir: string;
+  let cassi: Cassi;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: repositoryDir, encoding: "utf-8" });
+
+  const createCassi = async (config: object = {}): Promise<Cassi> => {
+    const configFile = path.join(testDir, "cassi.json");
+    await fs.writeFile(
+      configFile,
+      JSON.stringify({
+        provider: { name: SCRIPTED_PROVIDER },
+        workflows: {
+          quick: [
+            { task: "Coder", args: ["{{prompt}}"] },
+            { task: "GitCommitMerge" },
+          ],
+        },
+        ...config,
+      })
+    );
+    const cassi = new Cassi(new User(), configFile, repositoryDir);
+    await cassi.tool.register("fs", LocalFS);
+    await cassi.tool.register("git", LocalGit);
+    await cassi.tool.register("console", LocalConsole);
+    for (const ModelClass of [EvaluateCodePrompt, Coder, CommitMessage]) {
+      cassi.model.availableModels.set(ModelClass.name, ModelClass);
+    }
+    return cassi;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), "cassi-scripted-"));
+    repositoryDir = path.join(testDir, "repo");
+    await fs.mkdir(path.join(repositoryDir, "src"), { recursive: true });
+    await fs.writeFile(
+      path.join(repositoryDir, "src", "greet.ts"),
+      'export const greet = () => "hello";\n'
+    );
+    await fs.writeFile(path.join(repositoryDir, ".gitignore"), ".cassi\n");
+    git("init", "-q", "-b", "main");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    git("add", "-A");
+    git("commit", "-q", "-m", "initial");
+
+    cassi = await createCassi();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rimraf(testDir);
+  });
+
+  it("should run the Code pipeline and merge the scripted changes", async () => {
+    const script = new ModelScript({
+      EvaluateCodePrompt: [
+        { output: { summary: "Greet the world", modifiesFiles: true } },
+      ],
+      Coder: [
+        {
+          toolRequests: [{ name: "ReadFile", input: { path: "src/greet.ts" } }],
+        },
+        {
+          toolRequests: [
+            {
+              name: "ReplaceInFile",
+              input: {
+                path: "src/greet.ts",
+                find: '"hello"',
+                replace: '"hello world"',
+              },
+            },
+          ],
+        },
+        { text: "Changed the greeting." },
+      ],
+      CommitMessage: [{ text: "Greet the world" }],
+    });
+    cassi.model.registerProvider(SCRIPTED_PROVIDER, scriptedProvider(script));
+    await cassi.init();
+    const chunks: string[] = [];
+    const toolCalls: string[] = [];
+    cassi.events.on("model:chunk", ({ model, text }) =>
+      chunks.push(`${model.constructor.name}: ${text}`)
+    );
+    cassi.events.on("model:toolCall", ({ name }) => toolCalls.push(name));
+
+    const code = cassi.newTask("Code", undefined, "greet the world", "quick");
+    await cassi.runTasks();
+
+    expect(code.error).toBeNull();
+    expect(script.remaining()).toBe(0);
+    const coderRequests = script.requests.filter(
+      ({ modelClass }) => modelClass === "Coder"
+    );
+    const readResponse = coderRequests[1].request.messages.at(-1)?.content[0];
+    expect(readResponse?.toolResponse?.output).toBe(
+      'export const greet = () => "hello";\n'
+    );
+    expect(
+      await fs.readFile(path.join(repositoryDir, "src", "greet.ts"), "utf-8")
+    ).toBe('export const greet = () => "hello world";\n');
+    expect(git("log", "-1", "--format=%s").trim()).toBe(
+      `${code.getTaskIdShort()}: Greet the world`
+    );
+    expect(chunks).toContain("Coder: Changed the greeting.");
+    expect(toolCalls).toEqual(["ReadFile", "ReplaceInFile"]);
+  }, 30000);
+
+  it("should not create a worktree or branch in a dry run", async () => {
+    const script = new ModelScript({
+      EvaluateCodePrompt: [
+        { output: { summary: "Greet the world", modifiesFiles: true } },
+      ],
+      Coder: [
+        {
+          toolRequests: [
+            {
+              name: "ReplaceInFile",
+              input: {
+                path: "src/greet.ts",
+                find: '"hello"',
+                replace: '"hello world"',
+              },
+            },
+          ],
+        },
+        { text: "Changed the greeting." },
+      ],
+    });
+    cassi.model.registerProvider(SCRIPTED_PROVIDER, scriptedProvider(script));
+    await cassi.init();
+    const branches = git("branch", "--list");
+
+    const code = cassi.newTask("Code", undefined, "greet the world", "quick");
+    code.dryRun = true;
+    await cassi.runTasks();
+
+    expect(code.error).toBeNull();
+    expect(git("branch", "--list")).toBe(branches);
+    expect(git("worktree", "list", "--porcelain")).not.toContain(code.taskId);
+    await expect(
+      fs.access(path.join(repositoryDir, ".cassi", "worktrees", code.taskId!))
+    ).rejects.toThrow();
+    expect(
+      await fs.readFile(path.join(repositoryDir, "src", "greet.ts"), "utf-8")
+    ).toBe('export const greet = () => "hello";\n');
+    expect(
+      code
+        .getResult()
+        .plannedEffects.map(({ toolName, method }) =>
+          [toolName, method].join(".")
+        )
+    ).toEqual(["fs.writeFile", "git.commitAll", "git.rebase", "git.merge"]);
+  }, 30000);
+
+  it("should remove the worktree and branch of a cancelled Code task", async () => {
+    let code!: Task;
+    let worktreeDir = "";
+    const script = new ModelScript({
+      EvaluateCodePrompt: [
+        { output: { summary: "Greet the world", modifiesFiles: true } },
+      ],
+      Coder: [
+        () => {
+          // leave an uncommitted change, as a task cancelled while editing
+          worktreeDir = code.getCwd();
+          writeFileSync(path.join(worktreeDir, "src", "new.ts"), "");
+          code.cancel();
+          return {
+            toolRequests: [
+              {
+                name: "ReplaceInFile",
+                input: {
+                  path: "src/greet.ts",
+                  find: '"hello"',
+                  replace: '"hello world"',
+                },
+              },
+            ],
+          };
+        },
+      ],
+    });
+    cassi.model.registerProvider(SCRIPTED_PROVIDER, scriptedProvider(script));
+    await cassi.init();
+
+    code = cassi.newTask("Code", undefined, "greet the world", "quick");
+    await cassi.runTasks();
+
+    expect(code.cancelled).toBe(true);
+    expect(worktreeDir).toContain(code.taskId);
+    await expect(fs.access(worktreeDir)).rejects.toThrow();
+    expect(git("worktree", "list", "--porcelain")).not.toContain(code.taskId);
+    expect(git("branch", "--list", code.taskId!).trim()).toBe("");
+    expect(cassi.repository.worktrees.size).toBe(0);
+  }, 30000);
+
+  it("should remove the worktree and branch of a Code task over its time budget", async () => {
+    cassi = await createCassi({
+      budgets: { tasks: { Code: { maxSeconds: 1 } } },
+    });
+    let code!: Task;
+    const script = new ModelScript({
+      EvaluateCodePrompt: [
+        { output: { summary: "Greet the world", modifiesFiles: true } },
+      ],
+      Coder: [
+        () => {
+          // keep working past the time budget with an uncommitted change
+          writeFileSync(path.join(code.getCwd(), "src", "new.ts"), "");
+          while (Date.now() - code.startedAt!.getTime() <= 1000) {}
+          return {
+            toolRequests: [{ name: "ReadFile", input: { path: "src/new.ts" } }],
+          };
+        },
+        { text: "Done" },
+      ],
+    });
+    cassi.model.registerProvider(SCRIPTED_PROVIDER, scriptedProvider(script));
+    await cassi.init();
+
+    code = cassi.newTask("Code", undefined, "greet the world", "quick");
+    await cassi.runTasks();
+
+    expect(code.error).toBeInstanceOf(BudgetExceededError);
+    await expect(
+      fs.access(path.join(repositoryDir, ".cassi", "worktrees", code.taskId!))
+    ).rejects.toThrow();
+    expect(git("branch", "--list", code.taskId!).trim()).toBe("");
+    expect(cassi.repository.worktrees.size).toBe(0);
+  }, 30000);
+});
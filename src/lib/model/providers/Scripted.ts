@@ -0,0 +1,163 @@
+import type { GenerateRequest, ModelResponseData, Part } from "genkit";
+import { modelRef } from "genkit/model";
+import { genkitPlugin } from "genkit/plugin";
+import type { ProviderFactory } from "../Provider.js";
+
+export const SCRIPTED_PROVIDER = "scripted";
+
+/**
+ * One model response in a script. A turn can request tools, answer with
+ * text, or answer with structured output which is returned as JSON text.
+ */
+export interface ScriptedResponse {
+  toolRequests?: { name: string; input?: any }[];
+  text?: string;
+  output?: any;
+  usage?: { inputTokens?: number; outputTokens?: number };
+}
+
+/**
+ * A scripted turn, or a function that builds the turn from the request, e.g.
+ * to answer based on the output of a previous tool call.
+ */
+export type ScriptedTurn =
+  ScriptedResponse | ((request: GenerateRequest) => ScriptedResponse);
+
+/**
+ * A request received by a scripted model.
+ */
+export interface ScriptedRequest {
+  modelClass: string;
+  turn: number;
+  request: GenerateRequest;
+}
+
+/**
+ * The turns each Models class answers with, in order, shared by all
+ * instances of the class.
+ */
+export class ModelScript {
+  public turns: Record<string, ScriptedTurn[]>;
+  public requests: ScriptedRequest[] = [];
+  private cursors: Map<string, number> = new Map();
+
+  constructor(turns: Record<string, ScriptedTurn[]>) {
+    this.turns = turns;
+  }
+
+  /**
+   * Returns the next response for a Models class.
+   * @throws Error if the script has no more turns for the class.
+   */
+  next(modelClass: string, request: GenerateRequest): ModelResponseData {
+    const turns = this.turns[modelClass] ?? [];
+    const turn = this.cursors.get(modelClass) ?? 0;
+    if (turn >= turns.length) {
+      throw new Error(
+        `Model script has no more turns for ${modelClass} after ${turns.length} turn(s)`
+      );
+    }
+    this.cursors.set(modelClass, turn + 1);
+    this.requests.push({ modelClass, turn, request });
+    const scripted = turns[turn];
+    return toResponseData(
+      typeof scripted === "function" ? scripted(request) : scripted,
+      turn
+    );
+  }
+
+  /**
+   * Returns the number of turns that have not been used.
+   * @param modelClass Only count the turns of this Models class.
+   */
+  remaining(modelClass?: string): number {
+    return Object.entries(this.turns)
+      .filter(([name]) => modelClass === undefined || name === modelClass)
+      .reduce(
+        (sum, [name, turns]) =>
+          sum + turns.length - (this.cursors.get(name) ?? 0),
+        0
+      );
+  }
+}
+
+const toResponseData = (
+  response: ScriptedResponse,
+  turn: number
+): ModelResponseData => {
+  const content: Part[] = [];
+  if (response.text !== undefined) {
+    content.push({ text: response.text });
+  } else if (response.output !== undefined) {
+    content.push({ text: JSON.stringify(response.output) });
+  }
+  (response.toolRequests ?? []).forEach((toolRequest, index) => {
+    content.push({
+      toolRequest: {
+        name: toolRequest.name,
+        ref: `${turn}-${index}`,
+        input: toolRequest.input ?? {},
+      },
+    });
+  });
+  return {
+    message: { role: "model", content },
+    finishReason: "stop",
+    usage: response.usage,
+  };
+};
+
+/**
+ * A provider that answers from a script instead of calling a model, so that
+ * models, tools and task pipelines can be tested without network access.
+ * Register it with `Model.registerProvider(SCRIPTED_PROVIDER, ...)` and
+ * select it with the `provider` section of the config. Every Models class
+ * that is used must have turns in the script. Text is also streamed as a
+ * single chunk when the request asks for streaming.
+ */
+export const scriptedProvider =
+  (script: ModelScript): ProviderFactory =>
+  () => {
+    const plugin = genkitPlugin(SCRIPTED_PROVIDER, async (ai) => {
+      for (const modelClass of Object.keys(script.turns)) {
+        ai.defineModel(
+          {
+            name: `${SCRIPTED_PROVIDER}/${modelClass}`,
+            label: `Scripted ${modelClass}`,
+            supports: {
+              multiturn: true,
+              tools: true,
+              systemRole: true,
+              media: true,
+              output: ["text", "json"],
+            },
+          },
+          async (request, streamingCallback) => {
+            const response = script.next(modelClass, request);
+            if (streamingCallback) {
+              for (const part of response.message?.content ?? []) {
+                if (part.text) {
+                  streamingCallback({ content: [part] });
+                }
+              }
+            }
+            return response;
+          }
+        );
+      }
+    });
+
+    return {
+      plugin,
+      getModel: (modelClassName: string) => {
+        if (!script.turns[modelClassName]) {
+          throw new Error(
+            `Model script has no turns for ${modelClassName}. Scripted classes: ${Object.keys(
+              script.turns
+            ).join(", ")}`
+          );
+        }
+        return modelRef({ name: `${SCRIPTED_PROVIDER}/${modelClassName}` });
+      },
+    };
+  };
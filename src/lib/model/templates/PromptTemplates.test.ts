@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  BUILT_IN_PROMPTS_DIR,
+  getTemplateVariables,
+  listPromptTemplates,
+  loadPromptTemplate,
+  renderPrompt,
+  renderTemplate,
+} from "./PromptTemplates.js";
+import type { Task } from "../../task/Task.js";
+
+describe("PromptTemplates", () => {
+  let repositoryDir: string;
+
+  const writeOverride = async (name: string, template: string) => {
+    const dir = path.join(repositoryDir, ".cassi", "prompts");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${name}.md`), template);
+  };
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "prompts-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+  });
+
+  it("should ship built-in templates for the models", async () => {
+    expect(await listPromptTemplates()).toEqual(
+      expect.arrayContaining([
+        "Coder",
+        "CommitMessage",
+        "CreateTests",
+        "EvaluateCodePrompt",
+        "Reviewer",
+        "Tester",
+      ])
+    );
+  });
+
+  it("should describe the find and replace input of ReplaceInFile in the Tester template", async () => {
+    const { template } = await loadPromptTemplate("Tester");
+
+    expect(template).toContain("find:");
+    expect(template).toContain("replace:");
+    expect(template).not.toContain("SEARCH");
+  });
+
+  it("should load the built-in template without an override", async () => {
+    const loaded = await loadPromptTemplate("Coder", repositoryDir);
+
+    expect(loaded.override).toBe(false);
+    expect(loaded.file).toBe(path.join(BUILT_IN_PROMPTS_DIR, "Coder.md"));
+    expect(getTemplateVariables(loaded.template)).toEqual([
+      "interfaces",
+      "prompt",
+    ]);
+  });
+
+  it("should prefer the template in .cassi/prompts of the repository", async () => {
+    await writeOverride("Coder", "Custom {{prompt}}");
+
+    const loaded = await loadPromptTemplate("Coder", repositoryDir);
+
+    expect(loaded.override).toBe(true);
+    expect(loaded.template).toBe("Custom {{prompt}}");
+  });
+
+  it("should list repository templates with the built-in templates", async () => {
+    await writeOverride("Explainer", "Explain {{diff}}");
+    await writeOverride("Coder", "Custom {{prompt}}");
+
+    const names = await listPromptTemplates(repositoryDir);
+
+    expect(names).toContain("Explainer");
+    expect(names.filter((name) => name === "Coder")).toHaveLength(1);
+  });
+
+  it("should throw for an unknown template", async () => {
+    await expect(loadPromptTemplate("Missing", repositoryDir)).rejects.toThrow(
+      "Unknown prompt template Missing"
+    );
+  });
+
+  it("should substitute variables with optional whitespace", () => {
+    expect(
+      renderTemplate("{{ prompt }} and {{prompt}} with {{diff}}", {
+        prompt: "a",
+        diff: "b",
+      })
+    ).toBe("a and a with b");
+  });
+
+  it("should not substitute variable references inside values", () => {
+    expect(
+      renderTemplate("{{prompt}}", { prompt: "use {{diff}} literally" })
+    ).toBe("use {{diff}} literally");
+  });
+
+  it("should throw for variables without a value", () => {
+    expect(() => renderTemplate("{{promt}}", { prompt: "a" }, "Coder")).toThrow(
+      "Prompt template Coder uses unknown variable(s) promt. Available: prompt"
+    );
+  });
+
+  it("should render with the overrides of the task repository", async () => {
+    await writeOverride("CommitMessage", "Summarize: {{diff}}");
+    const task = {
+      cassi: { repository: { repositoryDir } },
+    } as unknown as Task;
+
+    expect(await renderPrompt("CommitMessage", { diff: "+x" }, task)).toBe(
+      "Summarize: +x"
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Task } from "../../task/Task.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Directory of the prompt templates that ship with cassi. The path is the
+ * same relative to src and dist.
+ */
+export const BUILT_IN_PROMPTS_DIR = path.resolve(
+  __dirname,
+  "..",
+  "..",
+  "..",
+  "..",
+  "prompts"
+);
+
+const TEMPLATE_EXTENSION = ".md";
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export interface PromptTemplate {
+  name: string;
+  /** The file the template was loaded from. */
+  file: string;
+  /** True if the template comes from `.cassi/prompts` of the repository. */
+  override: boolean;
+  template: string;
+}
+
+/**
+ * Returns the directory with the prompt templates of a repository.
+ */
+export const getPromptsDir = (repositoryDir: string): string =>
+  path.join(path.resolve(repositoryDir), ".cassi", "prompts");
+
+const readTemplate = async (file: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(file, "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const listTemplateNames = async (dir: string): Promise<string[]> => {
+  try {
+    return (await fs.readdir(dir))
+      .filter((file) => file.endsWith(TEMPLATE_EXTENSION))
+      .map((file) => path.basename(file, TEMPLATE_EXTENSION));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Loads a prompt template. A template in `.cassi/prompts/<name>.md` of the
+ * repository overrides the built-in template with the same name.
+ * @throws Error if there is no template with the name.
+ */
+export async function loadPromptTemplate(
+  name: string,
+  repositoryDir?: string
+): Promise<PromptTemplate> {
+  if (repositoryDir) {
+    const file = path.join(
+      getPromptsDir(repositoryDir),
+      `${name}${TEMPLATE_EXTENSION}`
+    );
+    const template = await readTemplate(file);
+    if (template !== null) {
+      return { name, file, override: true, template };
+    }
+  }
+  const file = path.join(BUILT_IN_PROMPTS_DIR, `${name}${TEMPLATE_EXTENSION}`);
+  const template = await readTemplate(file);
+  if (template === null) {
+    throw new Error(
+      `Unknown prompt template ${name}. Templates: ${(
+        await listPromptTemplates(repositoryDir)
+      ).join(", ")}`
+    );
+  }
+  return { name, file, override: false, template };
+}
+
+/**
+ * Returns the names of the built-in templates and the templates of the
+ * repository, sorted.
+ */
+export async function listPromptTemplates(
+  repositoryDir?: string
+): Promise<string[]> {
+  const names = await listTemplateNames(BUILT_IN_PROMPTS_DIR);
+  if (repositoryDir) {
+    names.push(...(await listTemplateNames(getPromptsDir(repositoryDir))));
+  }
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Returns the names of the variables a template uses, in order of first use.
+ */
+export const getTemplateVariables = (template: string): string[] => [
+  ...new Set(
+    Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1])
+  ),
+];
+
+/**
+ * Substitutes `{{variable}}` references in a template.
+ * @throws Error if the template uses a variable that has no value, so that a
+ * typo in an override is not sent to the model.
+ */
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, string>,
+  name: string = "template"
+): string => {
+  const missing = getTemplateVariables(template).filter(
+    (variable) => !Object.hasOwn(variables, variable)
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Prompt template ${name} uses unknown variable(s) ${missing.join(
+        ", "
+      )}. Available: ${Object.keys(variables).join(", ") || "none"}`
+    );
+  }
+  return template.replace(
+    VARIABLE_PATTERN,
+    (_match, variable: string) => variables[variable]
+  );
+};
+
+/**
+ * Loads and renders the prompt template of a model, using the overrides of
+ * the repository the task runs in.
+ */
+export async function renderPrompt(
+  name: string,
+  variables: Record<string, string>,
+  task?: Task
+): Promise<string> {
+  const { template } = await loadPromptTemplate(
+    name,
+    task?.cassi?.repository?.repositoryDir
+  );
+  return renderTemplate(template, variables, name);
+}
@@ -169,7 +169,7 @@ describe("ListFiles", () => {
   it("modelToolArgs should return correct structure", () => {
     const toolArgs = ListFiles.modelToolArgs(mockModelInstance);
     expect(toolArgs).toBeInstanceOf(Array);
-    expect(toolArgs).toHaveLength(2);
+    expect(toolArgs).toHaveLength(3);
     const toolDefinition = toolArgs[0];
     const toolMethod = toolArgs[1];
     expect(toolDefinition).toEqual(ListFiles.toolDefinition);
@@ -7,6 +7,8 @@ import { GlobOptions } from "glob";
 export class ListFiles extends ModelTool {
   static parametersSchema = z.object({});
 
+  static readOnly = true;
+
   static toolDefinition: ToolDefinition = {
     name: "ListFiles",
     description:
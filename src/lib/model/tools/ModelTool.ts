@@ -1,8 +1,20 @@
 import { Models } from "../Models.js";
 import { ToolDefinition } from "../../tool/Tool.js";
+import { ToolAccess } from "../ToolScheduler.js";
 
 export abstract class ModelTool {
   static toolDefinition: ToolDefinition;
+  // Tools that only read files run in parallel, all others in the order the
+  // model calls them
+  static readOnly: boolean = false;
+
+  /**
+   * Returns the file a call of this tool works on, or null if it may touch
+   * any file.
+   */
+  static getPath(input: any): string | null {
+    return typeof input?.path === "string" ? input.path : null;
+  }
 
   static async toolMethod(model: Models, ...args: any[]): Promise<any> {
     throw new Error("toolMethod must be implemented by subclasses");
@@ -10,26 +22,13 @@ export abstract class ModelTool {
 
   static modelToolArgs(
     model: Models
-  ): [ToolDefinition, (...args: any[]) => Promise<any>] {
+  ): [ToolDefinition, (...args: any[]) => Promise<any>, ToolAccess] {
     return [
       this.toolDefinition,
-      async (...args: any[]) => {
-        const argsSize = JSON.stringify(args).length;
-        console.log(
-          `Calling tool: ${this.toolDefinition.name}, Model: ${model.constructor.name}, Args count: ${args.length}, Args size: ${argsSize}`
-        );
-        const result = await this.toolMethod(model, ...args);
-        let responseLength = 0;
-        if (typeof result === "string" || Array.isArray(result)) {
-          responseLength = result.length;
-        } else if (result !== null && result !== undefined) {
-          responseLength = JSON.stringify(result).length;
-        }
-        console.log(
-          `Tool ${this.toolDefinition.name} finished. Response length: ${responseLength}`
-        );
-        return result;
-      },
+      // calls and results are published as model:toolCall and
+      // model:toolResult events by Models
+      async (...args: any[]) => this.toolMethod(model, ...args),
+      { readOnly: this.readOnly, getPath: (input) => this.getPath(input) },
     ];
   }
 }
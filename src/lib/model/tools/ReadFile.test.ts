@@ -98,7 +98,7 @@ describe("ReadFile", () => {
   it("modelToolArgs should return correct structure", () => {
     const toolArgs = ReadFile.modelToolArgs(mockModelInstance);
     expect(toolArgs).toBeInstanceOf(Array);
-    expect(toolArgs).toHaveLength(2);
+    expect(toolArgs).toHaveLength(3);
     const toolDefinition = toolArgs[0];
     const toolMethod = toolArgs[1];
     expect(toolDefinition).toEqual(ReadFile.toolDefinition);
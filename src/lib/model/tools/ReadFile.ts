@@ -13,6 +13,8 @@ const readFileInputSchema = z.object({
 });
 
 export class ReadFile extends ModelTool {
+  static readOnly = true;
+
   static toolDefinition: ToolDefinition = {
     name: "ReadFile",
     description:
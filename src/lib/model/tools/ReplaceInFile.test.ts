@@ -71,7 +71,7 @@ describe("ReplaceInFile", () => {
   it("modelToolArgs should return correct structure", () => {
     const toolArgs = ReplaceInFile.modelToolArgs(mockModelInstance);
     expect(toolArgs).toBeInstanceOf(Array);
-    expect(toolArgs.length).toBe(2);
+    expect(toolArgs.length).toBe(3);
     expect(toolArgs[0]).toEqual(ReplaceInFile.toolDefinition);
     const toolMethod = toolArgs[1];
     expect(typeof toolMethod).toBe("function");
@@ -21,6 +21,11 @@ export class RunTestFile extends ModelTool {
     outputSchema: z.string(),
   };
 
+  // The test command may touch any file, not only the test file
+  static getPath(): string | null {
+    return null;
+  }
+
   static async toolMethod(
     model: Models,
     input: z.infer<typeof runTestFileInputSchema>
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SearchFiles } from "./SearchFiles.js";
+import { Models } from "../Models.js";
+
+describe("SearchFiles", () => {
+  let mockModel: Models;
+  let invoke: ReturnType<typeof vi.fn>;
+  const files: Record<string, string> = {
+    "src/a.ts": "import { Foo } from './foo';\nconst x = 1;\nnew Foo();",
+    "src/b.ts": "export const y = 2;",
+  };
+
+  beforeEach(() => {
+    invoke = vi.fn(async (toolName: string, method: string, _, args) => {
+      if (method === "glob") {
+        return Object.keys(files);
+      }
+      if (method === "readFile") {
+        return files[args[0].replace("/mock/cwd/", "")];
+      }
+    });
+    mockModel = {
+      task: { getCwd: () => "/mock/cwd", invoke },
+    } as unknown as Models;
+  });
+
+  it("should have the correct tool definition", () => {
+    expect(SearchFiles.toolDefinition.name).toBe("SearchFiles");
+  });
+
+  it("should return matching lines with file names and line numbers", async () => {
+    const results = await SearchFiles.toolMethod(mockModel, { regex: "Foo" });
+
+    expect(invoke).toHaveBeenCalledWith(
+      "fs",
+      "glob",
+      [],
+      [
+        "**/*.{ts,tsx,js,json,md}",
+        expect.objectContaining({ cwd: "/mock/cwd", nodir: true }),
+      ]
+    );
+    expect(invoke).toHaveBeenCalledWith(
+      "fs",
+      "readFile",
+      [],
+      ["/mock/cwd/src/a.ts", "utf-8"]
+    );
+    expect(results).toEqual([
+      {
+        fileName: "src/a.ts",
+        line: 1,
+        context: "import { Foo } from './foo';",
+      },
+      { fileName: "src/a.ts", line: 3, context: "new Foo();" },
+    ]);
+  });
+
+  it("should return an empty list when nothing matches", async () => {
+    const results = await SearchFiles.toolMethod(mockModel, {
+      regex: "NotThere",
+    });
+    expect(results).toEqual([]);
+  });
+
+  it("should throw for an invalid regular expression", async () => {
+    await expect(
+      SearchFiles.toolMethod(mockModel, { regex: "(" })
+    ).rejects.toThrow();
+  });
+});
@@ -1,9 +1,12 @@
 import { z } from "zod";
 import path from "path";
+import { GlobOptions } from "glob";
 import { Models } from "../Models.js";
 import { ModelTool } from "./ModelTool.js";
 import { ToolDefinition } from "../../tool/Tool.js";
 
+const MAX_RESULTS = 200;
+
 // Define the input schema for the SearchFiles tool
 const searchFilesInputSchema = z.object({
   regex: z
@@ -24,6 +27,8 @@ const searchFilesOutputSchema = z.array(
 
 // Define the SearchFiles tool class
 export class SearchFiles extends ModelTool {
+  static readOnly = true;
+
   static toolDefinition: ToolDefinition = {
     name: "SearchFiles",
     description:
@@ -32,15 +37,43 @@ export class SearchFiles extends ModelTool {
     outputSchema: searchFilesOutputSchema,
   };
 
-  // Tool method implementation (currently empty as requested)
   static async toolMethod(
     model: Models,
     input: z.infer<typeof searchFilesInputSchema>
   ): Promise<z.infer<typeof searchFilesOutputSchema>> {
-    // TODO: Implement the actual file search logic here.
-    // For now, it returns an empty array as per the request to leave the implementation empty.
-    console.log(`SearchFiles tool invoked with regex: ${input.regex} in CWD: ${model.task.getCwd()}`);
-    // Placeholder implementation:
-    return [];
+    const cwd = model.task.getCwd();
+    const regex = new RegExp(input.regex);
+    const options: GlobOptions = {
+      cwd: cwd,
+      nodir: true,
+      ignore: ["node_modules/**", ".cassi/**", "dist/**", ".git/**"],
+    };
+
+    const files = (await model.task.invoke(
+      "fs",
+      "glob",
+      [],
+      ["**/*.{ts,tsx,js,json,md}", options]
+    )) as string[];
+
+    const results: z.infer<typeof searchFilesOutputSchema> = [];
+    for (const fileName of files) {
+      const content: string = await model.task.invoke(
+        "fs",
+        "readFile",
+        [],
+        [path.join(cwd, fileName), "utf-8"]
+      );
+      const lines = (content ?? "").split("\n");
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i])) {
+          results.push({ fileName, line: i + 1, context: lines[i].trim() });
+          if (results.length >= MAX_RESULTS) {
+            return results;
+          }
+        }
+      }
+    }
+    return results;
   }
 }
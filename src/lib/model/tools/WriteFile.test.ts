@@ -87,7 +87,7 @@ describe("WriteFile", () => {
   it("modelToolArgs should return correct structure", () => {
     const toolArgs = WriteFile.modelToolArgs(mockModelInstance);
     expect(toolArgs).toBeInstanceOf(Array);
-    expect(toolArgs).toHaveLength(2);
+    expect(toolArgs).toHaveLength(3);
     const toolDefinition = toolArgs[0];
     const toolMethod = toolArgs[1];
     expect(toolDefinition).toEqual(WriteFile.toolDefinition);
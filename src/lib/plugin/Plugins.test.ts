@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Plugins } from "./Plugins.js";
+import type { Cassi } from "../cassi/Cassi.js";
+import type { Task } from "../task/Task.js";
+import type { ModelConstructor } from "../model/Model.js";
+
+const libDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const taskModule = path.join(libDir, "task", "Task.ts");
+const modelsModule = path.join(libDir, "model", "Models.ts");
+
+const taskPlugin = `
+import { Task } from ${JSON.stringify(taskModule)};
+export class GenerateMigration extends Task {}
+`;
+
+const modelAndToolPlugin = `
+import { Models } from ${JSON.stringify(modelsModule)};
+export class DomainReviewer extends Models {}
+class LocalDb {
+  async query() {
+    return [];
+  }
+}
+export const tools = { db: LocalDb };
+`;
+
+const providerPlugin = `
+export const providers = {
+  bedrock: (config) => ({ plugin: () => {}, getModel: () => config.model }),
+};
+`;
+
+describe("Plugins", () => {
+  let repositoryDir: string;
+  let pluginsDir: string;
+  let cassi: Cassi;
+  let plugins: Plugins;
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-"));
+    pluginsDir = path.join(repositoryDir, ".cassi", "plugins");
+    cassi = {
+      repository: { repositoryDir },
+      config: { configData: null },
+      task: { availableTasks: new Map<string, typeof Task>() },
+      model: {
+        availableModels: new Map<string, ModelConstructor>(),
+        registerProvider: vi.fn(),
+      },
+      tool: { register: vi.fn().mockResolvedValue(undefined) },
+    } as unknown as Cassi;
+    plugins = new Plugins(cassi);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const writePlugin = async (file: string, content: string) => {
+    await fs.mkdir(pluginsDir, { recursive: true });
+    await fs.writeFile(path.join(pluginsDir, file), content, "utf-8");
+  };
+
+  it("should do nothing when there is no plugins directory", async () => {
+    await plugins.init();
+
+    expect(plugins.plugins).toEqual([]);
+    expect(cassi.task.availableTasks.size).toBe(0);
+  });
+
+  it("should register tasks, models and tools from the plugins directory", async () => {
+    await writePlugin("migrations.js", taskPlugin);
+    await writePlugin("reviewer.mjs", modelAndToolPlugin);
+    await writePlugin("notes.txt", "not a plugin");
+
+    await plugins.init();
+
+    expect(plugins.plugins).toHaveLength(2);
+    expect(cassi.task.availableTasks.get("GenerateMigration")?.name).toBe(
+      "GenerateMigration"
+    );
+    expect(cassi.model.availableModels.get("DomainReviewer")?.name).toBe(
+      "DomainReviewer"
+    );
+    expect(cassi.tool.register).toHaveBeenCalledWith(
+      "db",
+      expect.objectContaining({ name: "LocalDb" })
+    );
+  });
+
+  it("should load plugins listed in the config relative to the repository", async () => {
+    await fs.writeFile(
+      path.join(repositoryDir, "migrations.js"),
+      taskPlugin,
+      "utf-8"
+    );
+    cassi.config.configData = {
+      apiKeys: { gemini: "key" },
+      plugins: ["./migrations.js"],
+    };
+
+    await plugins.init();
+
+    expect(cassi.task.availableTasks.has("GenerateMigration")).toBe(true);
+    expect(plugins.plugins[0].source).toBe("./migrations.js");
+  });
+
+  it("should report exports that are not tasks, models or tools", async () => {
+    await writePlugin("bad.js", `export class NotATask {}`);
+    await writePlugin("migrations.js", taskPlugin);
+
+    await expect(plugins.init()).rejects.toThrow(
+      `Error loading plugins:\n  ${path.join(
+        pluginsDir,
+        "bad.js"
+      )}: export "NotATask" does not extend Task or Models and is not a tools or providers object`
+    );
+    expect(cassi.task.availableTasks.has("GenerateMigration")).toBe(true);
+  });
+
+  it("should report invalid tools exports", async () => {
+    await writePlugin("tools.js", `export const tools = { db: "LocalDb" };`);
+
+    await expect(plugins.init()).rejects.toThrow(
+      `${path.join(pluginsDir, "tools.js")}: tool "db" is not a class`
+    );
+  });
+
+  it("should register model providers", async () => {
+    await writePlugin("bedrock.js", providerPlugin);
+
+    await plugins.init();
+
+    expect(cassi.model.registerProvider).toHaveBeenCalledWith(
+      "bedrock",
+      expect.any(Function)
+    );
+  });
+
+  it("should report invalid providers exports", async () => {
+    await writePlugin(
+      "providers.js",
+      `export const providers = { bedrock: "Bedrock" };`
+    );
+
+    await expect(plugins.init()).rejects.toThrow(
+      `${path.join(pluginsDir, "providers.js")}: provider "bedrock" is not a function`
+    );
+  });
+
+  it("should report plugins that export nothing", async () => {
+    await writePlugin("empty.js", `export {};`);
+
+    await expect(plugins.init()).rejects.toThrow(
+      "plugin does not export any tasks, models, tools or providers"
+    );
+  });
+
+  it("should report missing plugin packages and import errors", async () => {
+    await writePlugin("broken.js", `throw new Error("boom");`);
+    cassi.config.configData = {
+      apiKeys: { gemini: "key" },
+      plugins: ["cassi-plugin-missing"],
+    };
+
+    const error = await plugins.init().catch((e) => e);
+
+    expect(error.message).toContain(
+      `${path.join(pluginsDir, "broken.js")}: boom`
+    );
+    expect(error.message).toContain(
+      'cassi-plugin-missing: Cannot find plugin package "cassi-plugin-missing"'
+    );
+  });
+});
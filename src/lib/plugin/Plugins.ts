@@ -0,0 +1,194 @@
+import fs from "fs/promises";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import type { Cassi } from "../cassi/Cassi.js";
+import { Task } from "../task/Task.js";
+import { Models } from "../model/Models.js";
+import type { ModelConstructor } from "../model/Model.js";
+import type { ProviderFactory } from "../model/Provider.js";
+
+type ToolConstructor = new (...args: any[]) => any;
+
+export interface Plugin {
+  source: string;
+  tasks: (typeof Task)[];
+  models: ModelConstructor[];
+  tools: Record<string, ToolConstructor>;
+  providers: Record<string, ProviderFactory>;
+}
+
+const isClass = (value: unknown): value is new (...args: any[]) => any =>
+  typeof value === "function" && value.prototype !== undefined;
+
+/**
+ * Loads tasks, models, tools and model providers that are not part of cassi.
+ * Plugins are compiled ES modules in `.cassi/plugins` of the repository, or
+ * packages and paths listed in the `plugins` section of the config file.
+ *
+ * Every class exported by a plugin module must extend `Task` or `Models`.
+ * Tools are exported as a `tools` object mapping a tool type to its class,
+ * e.g. `export const tools = { db: LocalDb }`. Model providers are exported
+ * as a `providers` object mapping a provider name to its factory function.
+ */
+export class Plugins {
+  public cassi: Cassi;
+  public plugins: Plugin[] = [];
+
+  constructor(cassi: Cassi) {
+    this.cassi = cassi;
+  }
+
+  get pluginsDir(): string {
+    return path.join(
+      path.resolve(this.cassi.repository.repositoryDir),
+      ".cassi",
+      "plugins"
+    );
+  }
+
+  async init(): Promise<void> {
+    this.plugins = [];
+    const errors: string[] = [];
+
+    for (const source of await this.getSources()) {
+      let plugin: Plugin;
+      try {
+        const module = await import(await this.resolve(source));
+        plugin = this.validate(source, module);
+      } catch (error: any) {
+        errors.push(`${source}: ${error.message}`);
+        continue;
+      }
+      await this.register(plugin);
+      this.plugins.push(plugin);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Error loading plugins:\n  ${errors.join("\n  ")}`);
+    }
+  }
+
+  /**
+   * Lists the plugin files in the plugins directory followed by the plugins
+   * from the config file.
+   */
+  private async getSources(): Promise<string[]> {
+    const sources: string[] = [];
+    try {
+      const files = await fs.readdir(this.pluginsDir);
+      for (const file of files.sort()) {
+        if (
+          (file.endsWith(".js") || file.endsWith(".mjs")) &&
+          !file.includes(".test.")
+        ) {
+          sources.push(path.join(this.pluginsDir, file));
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    }
+    return [...sources, ...(this.cassi.config.configData?.plugins ?? [])];
+  }
+
+  /**
+   * Resolves a plugin source to an importable URL. Paths are resolved
+   * relative to the repository, package names from the repository's
+   * node_modules.
+   */
+  private async resolve(source: string): Promise<string> {
+    const repositoryDir = path.resolve(this.cassi.repository.repositoryDir);
+    if (source.startsWith(".") || path.isAbsolute(source)) {
+      return pathToFileURL(path.resolve(repositoryDir, source)).href;
+    }
+    const require = createRequire(path.join(repositoryDir, "package.json"));
+    try {
+      return pathToFileURL(require.resolve(source)).href;
+    } catch (error: any) {
+      throw new Error(`Cannot find plugin package "${source}"`);
+    }
+  }
+
+  private validate(source: string, module: Record<string, any>): Plugin {
+    const plugin: Plugin = {
+      source,
+      tasks: [],
+      models: [],
+      tools: {},
+      providers: {},
+    };
+
+    for (const [key, value] of Object.entries(module)) {
+      if (key === "tools") {
+        if (typeof value !== "object" || value === null) {
+          throw new Error(
+            `export "tools" must be an object mapping tool types to classes`
+          );
+        }
+        for (const [toolType, ToolClass] of Object.entries(value)) {
+          if (!isClass(ToolClass)) {
+            throw new Error(`tool "${toolType}" is not a class`);
+          }
+          plugin.tools[toolType] = ToolClass;
+        }
+      } else if (key === "providers") {
+        if (typeof value !== "object" || value === null) {
+          throw new Error(
+            `export "providers" must be an object mapping provider names to functions`
+          );
+        }
+        for (const [name, factory] of Object.entries(value)) {
+          if (typeof factory !== "function") {
+            throw new Error(`provider "${name}" is not a function`);
+          }
+          plugin.providers[name] = factory as ProviderFactory;
+        }
+      } else if (isClass(value) && value.prototype instanceof Task) {
+        plugin.tasks.push(value as typeof Task);
+      } else if (isClass(value) && value.prototype instanceof Models) {
+        plugin.models.push(value as ModelConstructor);
+      } else {
+        throw new Error(
+          `export "${key}" does not extend Task or Models and is not a tools or providers object`
+        );
+      }
+    }
+
+    if (
+      plugin.tasks.length === 0 &&
+      plugin.models.length === 0 &&
+      Object.keys(plugin.tools).length === 0 &&
+      Object.keys(plugin.providers).length === 0
+    ) {
+      throw new Error(
+        "plugin does not export any tasks, models, tools or providers"
+      );
+    }
+    return plugin;
+  }
+
+  private async register(plugin: Plugin): Promise<void> {
+    for (const TaskClass of plugin.tasks) {
+      this.cassi.task.availableTasks.set(TaskClass.name, TaskClass);
+      console.log(
+        `[Plugins] Loaded task ${TaskClass.name} from ${plugin.source}`
+      );
+    }
+    for (const ModelClass of plugin.models) {
+      this.cassi.model.availableModels.set(ModelClass.name, ModelClass);
+      console.log(
+        `[Plugins] Loaded model ${ModelClass.name} from ${plugin.source}`
+      );
+    }
+    for (const [toolType, ToolClass] of Object.entries(plugin.tools)) {
+      await this.cassi.tool.register(toolType, ToolClass);
+      console.log(`[Plugins] Loaded tool ${toolType} from ${plugin.source}`);
+    }
+    for (const [name, factory] of Object.entries(plugin.providers)) {
+      this.cassi.model.registerProvider(name, factory);
+      console.log(`[Plugins] Loaded provider ${name} from ${plugin.source}`);
+    }
+  }
+}
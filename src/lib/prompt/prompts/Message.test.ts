@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import Message from "./Message.js";
+
+describe("Message", () => {
+  it("should initialize with a message and default response to null", () => {
+    const message = "The answer is 42.";
+    const prompt = new Message(message);
+
+    expect(prompt.type).toBe("message");
+    expect(prompt.message).toBe(message);
+    expect(prompt.response).toBeNull();
+  });
+});
@@ -0,0 +1,13 @@
+import { Prompt } from "../Prompt.js";
+
+export default class Message extends Prompt {
+  readonly type = "message";
+  message: string;
+  response: any;
+
+  constructor(message: string) {
+    super();
+    this.message = message;
+    this.response = null;
+  }
+}
@@ -181,9 +181,22 @@ describe("Repository", () => {
     await repository.remWorktree(taskId);
 
     expect(mockWorktree.delete).toHaveBeenCalledTimes(1);
+    expect(mockWorktree.delete).toHaveBeenCalledWith(false);
     expect(repository.worktrees.has(taskId)).toBe(false);
   });
 
+  test("remWorktree() should pass discardChanges to worktree.delete()", async () => {
+    const taskId = "task-to-force-delete";
+    const mockWorktree = {
+      delete: vi.fn().mockResolvedValue(undefined),
+    } as unknown as Worktree;
+    repository.worktrees.set(taskId, mockWorktree);
+
+    await repository.remWorktree(taskId, true);
+
+    expect(mockWorktree.delete).toHaveBeenCalledWith(true);
+  });
+
   test("remWorktree() should not throw if the taskId does not exist", async () => {
     const taskId = "non-existent-task";
     expect(repository.worktrees.has(taskId)).toBe(false);
@@ -227,4 +240,45 @@ describe("Repository", () => {
       expect(repository.worktrees.size).toBe(0);
     });
   });
+
+  describe("withLock", () => {
+    test("should run operations one at a time in the order requested", async () => {
+      const events: string[] = [];
+      let releaseFirst!: () => void;
+      const firstBlocked = new Promise<void>((resolve) => {
+        releaseFirst = resolve;
+      });
+
+      const first = repository.withLock(async () => {
+        events.push("first:start");
+        await firstBlocked;
+        events.push("first:end");
+        return 1;
+      });
+      const second = repository.withLock(async () => {
+        events.push("second:start");
+        return 2;
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(events).toEqual(["first:start"]);
+
+      releaseFirst();
+      await expect(first).resolves.toBe(1);
+      await expect(second).resolves.toBe(2);
+      expect(events).toEqual(["first:start", "first:end", "second:start"]);
+    });
+
+    test("should release the lock when the operation throws", async () => {
+      await expect(
+        repository.withLock(async () => {
+          throw new Error("merge failed");
+        })
+      ).rejects.toThrow("merge failed");
+
+      await expect(repository.withLock(async () => "next")).resolves.toBe(
+        "next"
+      );
+    });
+  });
 });
@@ -10,6 +10,7 @@ export class Repository {
   public readonly user: User;
   public readonly worktrees: Map<string, Worktree> = new Map();
   public readonly fileInfo: FileInfo;
+  private lockQueue: Promise<void> = Promise.resolve();
 
   constructor(repositoryDir: string, user: User) {
     this.repositoryDir = path.resolve(repositoryDir);
@@ -22,6 +23,26 @@ export class Repository {
     await fs.mkdir(worktreesDir, { recursive: true });
   }
 
+  /**
+   * Runs an operation that touches the main checkout exclusively, so that
+   * concurrent tasks do not rebase, merge or add worktrees at the same time.
+   * @param fn The operation to run while holding the lock.
+   * @returns The result of the operation.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.lockQueue;
+    let release!: () => void;
+    this.lockQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
   async getWorktree(task: Task): Promise<Worktree> {
     if (!task.taskId) {
       throw new Error("Task ID is required to get or create a worktree.");
@@ -46,10 +67,19 @@ export class Repository {
     this.worktrees.set(worktree.task.taskId, worktree);
   }
 
-  async remWorktree(taskId: string): Promise<void> {
+  /**
+   * Removes the worktree of a task.
+   * @param taskId The ID of the task that owns the worktree.
+   * @param discardChanges Removes the worktree even if it has uncommitted
+   * changes and deletes its branch.
+   */
+  async remWorktree(
+    taskId: string,
+    discardChanges: boolean = false
+  ): Promise<void> {
     const worktree = this.worktrees.get(taskId);
     if (worktree) {
-      await worktree.delete();
+      await worktree.delete(discardChanges);
       this.worktrees.delete(taskId);
     }
   }
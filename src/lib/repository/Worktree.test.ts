@@ -72,7 +72,8 @@ describe("Worktree", () => {
       mockRepository = {
         repositoryDir,
         fileInfo: mockRepositoryFileInfo,
-      } as Repository;
+        withLock: vi.fn((fn: () => Promise<any>) => fn()),
+      } as unknown as Repository;
       mockTask = {
         taskId: taskId,
         invoke: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
@@ -128,6 +129,30 @@ describe("Worktree", () => {
       );
     });
 
+    it("should use the repository directory without adding a worktree in a dry run", async () => {
+      (mockTask as any).isDryRun = () => true;
+      (mockTask.invoke as ReturnType<typeof vi.fn>)
+        .mockReset()
+        .mockResolvedValue({ current: "main" });
+      const dryRunWorktree = new Worktree(
+        mockRepository,
+        mockTask,
+        mockRepositoryFileInfo
+      );
+
+      await dryRunWorktree.init();
+
+      expect(dryRunWorktree.worktreeDir).toBe(repositoryDir);
+      expect(mockTask.invoke).toHaveBeenCalledTimes(1);
+      expect(mockTask.invoke).toHaveBeenCalledWith(
+        "git",
+        "status",
+        [repositoryDir],
+        []
+      );
+      expect(dryRunWorktree.repositoryBranch).toBe("main");
+    });
+
     it("should set the repositoryBranch property based on git status output", async () => {
       await worktree.init();
       expect(worktree.repositoryBranch).toBe("main");
@@ -196,7 +221,8 @@ describe("Worktree", () => {
       mockRepository = {
         repositoryDir,
         fileInfo: mockRepositoryFileInfo,
-      } as Repository;
+        withLock: vi.fn((fn: () => Promise<any>) => fn()),
+      } as unknown as Repository;
       mockTask = {
         taskId: taskId,
         invoke: vi.fn(),
@@ -281,10 +307,11 @@ describe("Worktree", () => {
       mockRepository = {
         repositoryDir,
         fileInfo: mockRepositoryFileInfo,
-      } as Repository;
+        withLock: vi.fn((fn: () => Promise<any>) => fn()),
+      } as unknown as Repository;
       mockTask = {
         taskId: taskId,
-        invoke: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+        invokeCleanup: vi.fn().mockResolvedValue(""),
         getCwd: vi.fn(),
       } as unknown as Task;
 
@@ -299,34 +326,63 @@ describe("Worktree", () => {
       vi.restoreAllMocks();
     });
 
-    it("should call fileInfo.deleteCache and task.invoke with correct arguments", async () => {
+    it("should call fileInfo.deleteCache and task.invokeCleanup with correct arguments", async () => {
       await worktree.delete();
 
       expect(worktree.fileInfo.deleteCache).toHaveBeenCalledTimes(1);
-      expect(mockTask.invoke).toHaveBeenCalledTimes(1);
-      expect(mockTask.invoke).toHaveBeenCalledWith(
+      expect(mockTask.invokeCleanup).toHaveBeenCalledTimes(1);
+      expect(mockTask.invokeCleanup).toHaveBeenCalledWith(
         "git",
         "remWorkTree",
-        [],
-        [worktreeDir]
+        [repositoryDir],
+        [worktreeDir, false]
+      );
+    });
+
+    it("should force the removal and delete the branch when discarding changes", async () => {
+      await worktree.delete(true);
+
+      expect(mockTask.invokeCleanup).toHaveBeenCalledTimes(2);
+      expect(mockTask.invokeCleanup).toHaveBeenNthCalledWith(
+        1,
+        "git",
+        "remWorkTree",
+        [repositoryDir],
+        [worktreeDir, true]
+      );
+      expect(mockTask.invokeCleanup).toHaveBeenNthCalledWith(
+        2,
+        "git",
+        "deleteBranch",
+        [repositoryDir],
+        [taskId]
       );
     });
 
-    it("should call deleteCache even if task.invoke throws", async () => {
+    it("should not remove anything in a dry run", async () => {
+      (mockTask as any).isDryRun = () => true;
+
+      await worktree.delete(true);
+
+      expect(worktree.fileInfo.deleteCache).not.toHaveBeenCalled();
+      expect(mockTask.invokeCleanup).not.toHaveBeenCalled();
+    });
+
+    it("should call deleteCache even if task.invokeCleanup throws", async () => {
       const testError = new Error("Failed to remove worktree via invoke");
-      (mockTask.invoke as ReturnType<typeof vi.fn>).mockRejectedValue(
+      (mockTask.invokeCleanup as ReturnType<typeof vi.fn>).mockRejectedValue(
         testError
       );
 
       await expect(worktree.delete()).rejects.toThrow(testError);
 
       expect(worktree.fileInfo.deleteCache).toHaveBeenCalledTimes(1);
-      expect(mockTask.invoke).toHaveBeenCalledTimes(1);
-      expect(mockTask.invoke).toHaveBeenCalledWith(
+      expect(mockTask.invokeCleanup).toHaveBeenCalledTimes(1);
+      expect(mockTask.invokeCleanup).toHaveBeenCalledWith(
         "git",
         "remWorkTree",
-        [],
-        [worktreeDir]
+        [repositoryDir],
+        [worktreeDir, false]
       );
     });
   });
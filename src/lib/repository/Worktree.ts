@@ -20,12 +20,11 @@ export class Worktree {
     }
     this.repository = repository;
     this.task = task;
-    this.worktreeDir = path.join(
-      repository.repositoryDir,
-      ".cassi",
-      "worktrees",
-      task.taskId
-    );
+    // dry runs do not create a worktree, they read the main checkout, which
+    // stays unchanged because mutating tool calls are only recorded
+    this.worktreeDir = task.isDryRun?.()
+      ? repository.repositoryDir
+      : path.join(repository.repositoryDir, ".cassi", "worktrees", task.taskId);
     this.fileInfo = new FileInfo(
       repository.repositoryDir,
       this.worktreeDir,
@@ -40,11 +39,20 @@ export class Worktree {
 
     console.log(`Worktree directory set to: ${this.worktreeDir}`);
 
-    await this.task.invoke(
-      "git",
-      "addWorktree",
-      [this.repository.repositoryDir],
-      [this.worktreeDir, this.task.taskId]
+    if (this.task.isDryRun?.()) {
+      console.log("Dry run, not adding a worktree or installing dependencies");
+      await this.initRepositoryBranch();
+      return;
+    }
+
+    const taskId = this.task.taskId;
+    await this.repository.withLock(() =>
+      this.task.invoke(
+        "git",
+        "addWorktree",
+        [this.repository.repositoryDir],
+        [this.worktreeDir, taskId]
+      )
     );
     console.log(
       `Added worktree at ${this.worktreeDir} for branch ${this.task.taskId}`
@@ -82,10 +90,36 @@ export class Worktree {
     console.log(`Repository branch set to: ${this.repositoryBranch}`);
   }
 
-  async delete(): Promise<void> {
+  /**
+   * Removes the worktree and its file info cache. The removal is invoked
+   * without the task's abort signal, so it also runs for cancelled tasks.
+   * @param discardChanges Removes the worktree even if it has uncommitted
+   * changes and deletes its branch.
+   */
+  async delete(discardChanges: boolean = false): Promise<void> {
+    if (this.task.isDryRun?.()) {
+      return;
+    }
+
     await this.fileInfo.deleteCache();
 
-    await this.task.invoke("git", "remWorkTree", [], [this.worktreeDir]);
+    const taskId = this.task.taskId;
+    await this.repository.withLock(async () => {
+      await this.task.invokeCleanup(
+        "git",
+        "remWorkTree",
+        [this.repository.repositoryDir],
+        [this.worktreeDir, discardChanges]
+      );
+      if (discardChanges) {
+        await this.task.invokeCleanup(
+          "git",
+          "deleteBranch",
+          [this.repository.repositoryDir],
+          [taskId]
+        );
+      }
+    });
     console.log(`Removed worktree and cache for ${this.task.taskId}`);
   }
 }
@@ -15,6 +15,7 @@ import { User } from "../user/User.js";
 import { Prompt } from "../prompt/Prompt.js";
 import Input from "../prompt/prompts/Input.js";
 import Confirm from "../prompt/prompts/Confirm.js";
+import { Task } from "../task/Task.js";
 
 let getPromptRouteHandler: ((req: Request, res: Response) => void) | null =
   null;
@@ -137,7 +138,14 @@ describe("Server", () => {
     expect(app?.get).toHaveBeenCalledWith("/prompt", expect.any(Function));
     expect(app?.post).toHaveBeenCalledWith("/prompt", expect.any(Function));
     expect(app?.post).toHaveBeenCalledWith("/task", expect.any(Function));
+    expect(app?.post).toHaveBeenCalledWith("/cancel", expect.any(Function));
     expect(app?.get).toHaveBeenCalledWith("/dir", expect.any(Function));
+    expect(app?.get).toHaveBeenCalledWith("/events", expect.any(Function));
+    expect(app?.get).toHaveBeenCalledWith(
+      "/events/stream",
+      expect.any(Function)
+    );
+    expect(app?.get).toHaveBeenCalledWith("/tasks", expect.any(Function));
     expect(getPromptRouteHandler).toBeInstanceOf(Function);
     expect(postPromptRouteHandler).toBeInstanceOf(Function);
     expect(postTaskRouteHandler).toBeInstanceOf(Function);
@@ -388,6 +396,110 @@ describe("Server", () => {
     });
   });
 
+  describe("events", () => {
+    it("should record cassi events as plain data", async () => {
+      await server.init(mockCassi);
+      const task = new Task(mockCassi);
+      task.taskId = "abcd1234-task";
+
+      mockCassi.events.emit("task:failed", {
+        task,
+        error: new Error("boom"),
+        cancelled: false,
+      });
+
+      expect(server.events).toEqual([
+        {
+          id: 1,
+          type: "task:failed",
+          time: expect.any(String),
+          data: {
+            task: { taskName: "Task", taskId: "abcd1234-task" },
+            error: "boom",
+            cancelled: false,
+          },
+        },
+      ]);
+      expect(() => JSON.stringify(server.events)).not.toThrow();
+    });
+
+    it("should push streamed text to subscribers without keeping it", async () => {
+      await server.init(mockCassi);
+      const task = new Task(mockCassi);
+      const listener = vi.fn();
+      server.subscribe(listener);
+
+      mockCassi.events.emit("model:chunk", {
+        model: {} as any,
+        task,
+        text: "Hello",
+      });
+
+      expect(server.events).toEqual([]);
+      expect(listener).toHaveBeenCalledWith({
+        id: 1,
+        type: "model:chunk",
+        time: expect.any(String),
+        data: {
+          model: "Object",
+          task: { taskName: "Task", taskId: null },
+          text: "Hello",
+        },
+      });
+    });
+
+    it("should summarize the input of tool calls", async () => {
+      await server.init(mockCassi);
+      const task = new Task(mockCassi);
+
+      mockCassi.events.emit("model:toolCall", {
+        model: {} as any,
+        task,
+        name: "WriteFile",
+        ref: "0-0",
+        input: { path: "src/a.ts", content: "x".repeat(10_000) },
+      });
+      mockCassi.events.emit("model:toolResult", {
+        model: {} as any,
+        task,
+        name: "WriteFile",
+        ref: "0-0",
+        error: '"ERROR"',
+        durationMs: 5,
+      });
+
+      expect(server.events.map((event) => event.data)).toEqual([
+        {
+          model: "Object",
+          task: { taskName: "Task", taskId: null },
+          name: "WriteFile",
+          ref: "0-0",
+          summary: "WriteFile src/a.ts",
+        },
+        {
+          model: "Object",
+          task: { taskName: "Task", taskId: null },
+          name: "WriteFile",
+          ref: "0-0",
+          error: '"ERROR"',
+          durationMs: 5,
+        },
+      ]);
+    });
+
+    it("should only keep the most recent events", async () => {
+      await server.init(mockCassi);
+      server.maxEvents = 2;
+      const task = new Task(mockCassi);
+
+      mockCassi.events.emit("task:started", { task });
+      mockCassi.events.emit("task:started", { task });
+      mockCassi.events.emit("task:finished", { task });
+
+      expect(server.events.map((event) => event.id)).toEqual([2, 3]);
+    });
+  });
+
   describe("GET /dir route", () => {
     let mockReq: Partial<Request>;
     let mockRes: Partial<Response>;
@@ -5,7 +5,14 @@ import { Cassi } from "../cassi/Cassi.js";
 import { getPrompt } from "./handlers/getPrompt.js";
 import { postPrompt } from "./handlers/postPrompt.js";
 import { postTask } from "./handlers/postTask.js";
+import { postCancel } from "./handlers/postCancel.js";
 import { getDir } from "./handlers/getDir.js";
+import { getEvents } from "./handlers/getEvents.js";
+import { getTasks } from "./handlers/getTasks.js";
+import { getEventStream } from "./handlers/getEventStream.js";
+import { describeToolCall } from "../model/ModelActivity.js";
+import type { Task } from "../task/Task.js";
+import type { CassiEventMap, CassiEventName } from "../cassi/CassiEvents.js";
 
 interface PromptEntry {
   prompt: Prompt;
@@ -14,12 +21,79 @@ interface PromptEntry {
   reject: (reason?: any) => void;
 }
 
+export interface ServerEvent {
+  id: number;
+  type: CassiEventName;
+  time: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Events that are pushed to connected clients but not kept for polling, so
+ * that streamed text does not push other events out of the buffer.
+ */
+const TRANSIENT_EVENTS: Set<CassiEventName> = new Set(["model:chunk"]);
+
+export type ServerEventListener = (event: ServerEvent) => void;
+
+const describeTask = (task: Task) => ({
+  taskName: task.constructor.name,
+  taskId: task.taskId,
+});
+
+/**
+ * Converts an event payload into plain JSON data. Payloads hold tasks, models
+ * and invocations which reference the whole Cassi instance.
+ */
+const describeEventPayload = <K extends CassiEventName>(
+  payload: CassiEventMap[K]
+): Record<string, any> => {
+  const data: Record<string, any> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === "task" || key === "parentTask") {
+      data[key] = describeTask(value);
+    } else if (key === "invocation") {
+      data[key] = {
+        toolName: value.toolName,
+        method: value.method,
+        task: describeTask(value.task),
+        startTime: value.startTime,
+        endTime: value.endTime,
+        error: value.error ? value.error.message : null,
+      };
+    } else if (key === "model") {
+      data[key] = value.constructor.name;
+    } else if (key === "input" && "name" in payload) {
+      data.summary = describeToolCall(payload.name, value);
+    } else if (key === "error" && value instanceof Error) {
+      data[key] = value.message;
+    } else if (key !== "options") {
+      data[key] = value;
+    }
+  }
+  return data;
+};
+
 export class Server {
   public app: Express | null = null;
   public cassi: Cassi | null = null;
   public host: string;
   public port: number;
   public prompts: PromptEntry[] = [];
+  public events: ServerEvent[] = [];
+  public maxEvents: number = 1000;
+  /**
+   * Runs every task in dry-run mode, set with `--dry-run`. Requests can also
+   * ask for a dry run with their `dryRun` field.
+   */
+  public dryRun: boolean = false;
+  /**
+   * Model used for every task instead of the configured models, set with
+   * `--model`.
+   */
+  public modelOverride: string | null = null;
+  private nextEventId: number = 1;
+  private eventListeners: Set<ServerEventListener> = new Set();
 
   constructor(host: string = "localhost", port: number = 7777) {
     this.host = host;
@@ -32,11 +106,17 @@ export class Server {
     this.app.use(cors());
     this.app.use(express.json({ limit: "1mb" }));
     this.prompts = [];
+    this.events = [];
+    cassi.events.onAny((type, payload) => this.recordEvent(type, payload));
 
     this.app.get("/prompt", getPrompt(this));
     this.app.post("/prompt", postPrompt(this));
     this.app.post("/task", postTask(this));
+    this.app.post("/cancel", postCancel(this));
     this.app.get("/dir", getDir(this));
+    this.app.get("/events", getEvents(this));
+    this.app.get("/events/stream", getEventStream(this));
+    this.app.get("/tasks", getTasks(this));
 
     await new Promise<void>((resolve) => {
       this.app!.listen(this.port, this.host, () => {
@@ -64,6 +144,46 @@ export class Server {
     return promise;
   }
 
+  /**
+   * Keeps the most recent events so clients can poll `/events` and pushes
+   * every event to the clients of `/events/stream`.
+   */
+  recordEvent<K extends CassiEventName>(
+    type: K,
+    payload: CassiEventMap[K]
+  ): void {
+    const event: ServerEvent = {
+      id: this.nextEventId++,
+      type,
+      time: new Date().toISOString(),
+      data: describeEventPayload(payload),
+    };
+    if (!TRANSIENT_EVENTS.has(type)) {
+      this.events.push(event);
+      if (this.events.length > this.maxEvents) {
+        this.events.splice(0, this.events.length - this.maxEvents);
+      }
+    }
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[Server] Error pushing event ${type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Calls the listener with every event recorded from now on.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: ServerEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
   public getApp(): Express | null {
     return this.app;
   }
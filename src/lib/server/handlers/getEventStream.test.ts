@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getEventStream } from "./getEventStream.js";
+import { Server, ServerEvent, ServerEventListener } from "../Server.js";
+import { Request, Response } from "express";
+
+const makeEvent = (id: number): ServerEvent => ({
+  id,
+  type: "task:started",
+  time: "2025-01-01T00:00:00.000Z",
+  data: { task: { taskName: "Code", taskId: null } },
+});
+
+const formatted = (event: ServerEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+describe("getEventStream handler", () => {
+  let listeners: Set<ServerEventListener>;
+  let mockServer: Partial<Server>;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let closeHandler: (() => void) | null;
+
+  beforeEach(() => {
+    listeners = new Set();
+    mockServer = {
+      events: [makeEvent(1), makeEvent(2)],
+      subscribe: vi.fn((listener: ServerEventListener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      }),
+    };
+    closeHandler = null;
+    mockReq = {
+      query: {},
+      get: vi.fn().mockReturnValue(undefined) as any,
+      on: vi.fn((event: string, handler: () => void) => {
+        if (event === "close") {
+          closeHandler = handler;
+        }
+        return mockReq;
+      }) as any,
+    };
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+      flushHeaders: vi.fn(),
+      write: vi.fn(),
+    };
+  });
+
+  it("should send kept events and then push new events", () => {
+    const handler = getEventStream(mockServer as Server);
+    handler(mockReq as Request, mockRes as Response);
+
+    expect(mockRes.set).toHaveBeenCalledWith(
+      expect.objectContaining({ "Content-Type": "text/event-stream" })
+    );
+    expect(mockRes.write).toHaveBeenNthCalledWith(1, formatted(makeEvent(1)));
+    expect(mockRes.write).toHaveBeenNthCalledWith(2, formatted(makeEvent(2)));
+
+    listeners.forEach((listener) => listener(makeEvent(3)));
+    expect(mockRes.write).toHaveBeenNthCalledWith(3, formatted(makeEvent(3)));
+  });
+
+  it("should resume after the Last-Event-ID header", () => {
+    (mockReq.get as ReturnType<typeof vi.fn>).mockReturnValue("1");
+    const handler = getEventStream(mockServer as Server);
+    handler(mockReq as Request, mockRes as Response);
+
+    expect(mockRes.write).toHaveBeenCalledTimes(1);
+    expect(mockRes.write).toHaveBeenCalledWith(formatted(makeEvent(2)));
+  });
+
+  it("should stop pushing events when the client disconnects", () => {
+    const handler = getEventStream(mockServer as Server);
+    handler(mockReq as Request, mockRes as Response);
+
+    closeHandler!();
+
+    expect(listeners.size).toBe(0);
+  });
+
+  it("should return 400 for an invalid after parameter", () => {
+    mockReq.query = { after: "-1" };
+    const handler = getEventStream(mockServer as Server);
+    handler(mockReq as Request, mockRes as Response);
+
+    expect(mockRes.status).toHaveBeenCalledWith(400);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      error: "Invalid after parameter",
+    });
+    expect(mockServer.subscribe).not.toHaveBeenCalled();
+  });
+});
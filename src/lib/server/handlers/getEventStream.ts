@@ -0,0 +1,38 @@
+import { Request, Response } from "express";
+import { Server, ServerEvent } from "../Server.js";
+
+const formatEvent = (event: ServerEvent): string =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Pushes events to the client as server-sent events while the connection is
+ * open. Kept events after the `after` query parameter or `Last-Event-ID`
+ * header are sent first, so clients can reconnect without missing events.
+ */
+export const getEventStream = (server: Server) => {
+  return (req: Request, res: Response) => {
+    const after = Number(req.query.after ?? req.get("Last-Event-ID") ?? 0);
+    if (!Number.isInteger(after) || after < 0) {
+      res.status(400).json({ error: "Invalid after parameter" });
+      return;
+    }
+
+    res.status(200);
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    for (const event of server.events) {
+      if (event.id > after) {
+        res.write(formatEvent(event));
+      }
+    }
+    const unsubscribe = server.subscribe((event) => {
+      res.write(formatEvent(event));
+    });
+    req.on("close", unsubscribe);
+  };
+};
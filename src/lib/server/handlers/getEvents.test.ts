@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getEvents } from "./getEvents.js";
+import { Server, ServerEvent } from "../Server.js";
+import { Request, Response } from "express";
+
+const makeEvent = (id: number): ServerEvent => ({
+  id,
+  type: "task:started",
+  time: "2025-01-01T00:00:00.000Z",
+  data: { task: { taskName: "Code", taskId: null } },
+});
+
+describe("getEvents handler", () => {
+  let mockServer: { events: ServerEvent[] };
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    mockServer = { events: [makeEvent(1), makeEvent(2), makeEvent(3)] };
+    mockReq = { query: {} };
+    mockRes = {
+      json: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+    };
+  });
+
+  it("should return all events when no after parameter is given", () => {
+    const handler = getEvents(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.json).toHaveBeenCalledWith(mockServer.events);
+  });
+
+  it("should return only events after the given id", () => {
+    mockReq.query = { after: "2" };
+    const handler = getEvents(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.json).toHaveBeenCalledWith([makeEvent(3)]);
+  });
+
+  it("should return 400 for an invalid after parameter", () => {
+    mockReq.query = { after: "abc" };
+    const handler = getEvents(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.status).toHaveBeenCalledWith(400);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      error: "Invalid after parameter",
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { Request, Response } from "express";
+import { Server } from "../Server.js";
+
+export const getEvents = (server: Server) => {
+  return (req: Request, res: Response) => {
+    const after = Number(req.query.after ?? 0);
+    if (!Number.isInteger(after) || after < 0) {
+      res.status(400).json({ error: "Invalid after parameter" });
+      return;
+    }
+    res.json(server.events.filter((event) => event.id > after));
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getTasks } from "./getTasks.js";
+import { Server } from "../Server.js";
+import { Task } from "../../task/Task.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Request, Response } from "express";
+
+describe("getTasks handler", () => {
+  let mockServer: { cassi: Cassi | null };
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let task1: Task;
+  let task2: Task;
+
+  beforeEach(() => {
+    const cassi = { tasks: [] as Task[] } as unknown as Cassi;
+    task1 = new Task(cassi);
+    task1.taskId = "abcd1234-first";
+    task1.output.summary = "First summary";
+    task2 = new Task(cassi);
+    task2.taskId = "efgh5678-second";
+    cassi.tasks.push(task1, task2);
+    mockServer = { cassi };
+    mockReq = { query: {} };
+    mockRes = {
+      json: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+    };
+  });
+
+  it("should return the results of all tasks", () => {
+    const handler = getTasks(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.json).toHaveBeenCalledWith([
+      task1.getResult(),
+      task2.getResult(),
+    ]);
+    const results = vi.mocked(mockRes.json!).mock.calls[0][0];
+    expect(results[0].summary).toBe("First summary");
+  });
+
+  it("should filter tasks by taskId", () => {
+    mockReq.query = { taskId: "efgh5678-second" };
+    const handler = getTasks(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.json).toHaveBeenCalledWith([task2.getResult()]);
+  });
+
+  it("should return 400 for an invalid taskId parameter", () => {
+    mockReq.query = { taskId: ["a", "b"] };
+    const handler = getTasks(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.status).toHaveBeenCalledWith(400);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      error: "Invalid taskId parameter",
+    });
+  });
+
+  it("should return 500 if the server is not initialized", () => {
+    mockServer.cassi = null;
+    const handler = getTasks(mockServer as unknown as Server);
+    handler(mockReq as Request, mockRes as Response);
+    expect(mockRes.status).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,20 @@
+import { Request, Response } from "express";
+import { Server } from "../Server.js";
+
+export const getTasks = (server: Server) => {
+  return (req: Request, res: Response) => {
+    if (!server.cassi) {
+      res.status(500).json({ error: "Server not fully initialized" });
+      return;
+    }
+    const { taskId } = req.query;
+    if (taskId !== undefined && typeof taskId !== "string") {
+      res.status(400).json({ error: "Invalid taskId parameter" });
+      return;
+    }
+    const tasks = server.cassi.tasks.filter(
+      (task) => taskId === undefined || task.taskId === taskId
+    );
+    res.json(tasks.map((task) => task.getResult()));
+  };
+};
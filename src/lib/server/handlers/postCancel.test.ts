@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from "vitest";
+import { postCancel } from "./postCancel.js";
+import { type Request, type Response } from "express";
+import { type Server } from "../Server.js";
+import { type Cassi } from "../../cassi/Cassi.js";
+import { Task } from "../../task/Task.js";
+
+describe("postCancel handler", () => {
+  let mockServer: Partial<Server>;
+  let mockCassi: Partial<Cassi>;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let statusFn: Mock;
+  let jsonFn: Mock;
+  let cancelTasksFn: Mock;
+
+  beforeEach(() => {
+    cancelTasksFn = vi.fn().mockReturnValue([]);
+    mockCassi = {
+      cancelTasks: cancelTasksFn,
+    };
+    mockServer = {
+      cassi: mockCassi as Cassi,
+    };
+    statusFn = vi.fn().mockReturnThis();
+    jsonFn = vi.fn();
+    mockRes = {
+      status: statusFn,
+      json: jsonFn,
+    };
+    mockReq = {
+      body: {},
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should cancel all tasks when no taskId is given", async () => {
+    const task = new Task({} as Cassi);
+    task.taskId = "abcd1234-task";
+    cancelTasksFn.mockReturnValue([task]);
+    const handler = postCancel(mockServer as Server);
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(cancelTasksFn).toHaveBeenCalledWith(undefined);
+    expect(statusFn).toHaveBeenCalledWith(200);
+    expect(jsonFn).toHaveBeenCalledWith({
+      cancelled: [{ taskName: "Task", taskId: "abcd1234-task" }],
+    });
+  });
+
+  it("should cancel the task with the given taskId", async () => {
+    const handler = postCancel(mockServer as Server);
+    mockReq.body = { taskId: "abcd1234-task" };
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(cancelTasksFn).toHaveBeenCalledWith("abcd1234-task");
+    expect(statusFn).toHaveBeenCalledWith(200);
+    expect(jsonFn).toHaveBeenCalledWith({ cancelled: [] });
+  });
+
+  it("should return 400 if taskId is not a string", async () => {
+    const handler = postCancel(mockServer as Server);
+    mockReq.body = { taskId: 123 };
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(statusFn).toHaveBeenCalledWith(400);
+    expect(jsonFn).toHaveBeenCalledWith({ error: "Invalid taskId field" });
+    expect(cancelTasksFn).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 if cancelling fails", async () => {
+    cancelTasksFn.mockImplementation(() => {
+      throw new Error("boom");
+    });
+    const handler = postCancel(mockServer as Server);
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(statusFn).toHaveBeenCalledWith(500);
+    expect(jsonFn).toHaveBeenCalledWith({ error: "Internal Server Error" });
+  });
+});
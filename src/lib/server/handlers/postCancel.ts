@@ -0,0 +1,27 @@
+import { type Request, type Response } from "express";
+
+import { type Server } from "../Server.js";
+
+export const postCancel = (server: Server) => {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { taskId } = req.body ?? {};
+
+      if (taskId !== undefined && typeof taskId !== "string") {
+        res.status(400).json({ error: "Invalid taskId field" });
+        return;
+      }
+
+      const cancelled = server.cassi!.cancelTasks(taskId);
+
+      res.status(200).json({
+        cancelled: cancelled.map((task) => ({
+          taskName: task.constructor.name,
+          taskId: task.taskId,
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Internal Server Error" });
+    }
+  };
+};
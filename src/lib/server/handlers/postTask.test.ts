@@ -33,7 +33,7 @@ describe("postTask handler", () => {
   let runTasksFn: Mock;
 
   beforeEach(() => {
-    newTaskFn = vi.fn();
+    newTaskFn = vi.fn().mockReturnValue({ dryRun: false });
     runTasksFn = vi.fn();
     mockCassi = {
       newTask: newTaskFn,
@@ -41,6 +41,8 @@ describe("postTask handler", () => {
     };
     mockServer = {
       cassi: mockCassi as Cassi,
+      dryRun: false,
+      modelOverride: null,
     };
     statusFn = vi.fn().mockReturnThis();
     jsonFn = vi.fn();
@@ -78,10 +80,58 @@ describe("postTask handler", () => {
     );
     expect(path.resolve).toHaveBeenCalledWith("audio.opus");
     expect(newTaskFn).toHaveBeenCalledOnce();
-    expect(newTaskFn).toHaveBeenCalledWith("AudioCode", undefined, testBase64);
+    expect(newTaskFn).toHaveBeenCalledWith(
+      "AudioCode",
+      undefined,
+      testBase64,
+      null
+    );
     expect(runTasksFn).toHaveBeenCalledOnce();
   });
 
+  it("should pass the requested workflow to the AudioCode task", async () => {
+    const handler = postTask(mockServer as Server);
+    const testBase64 = Buffer.from("test audio data").toString("base64");
+    mockReq.body = { audioBase64: testBase64, workflow: "quick" };
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(newTaskFn).toHaveBeenCalledWith(
+      "AudioCode",
+      undefined,
+      testBase64,
+      "quick"
+    );
+  });
+
+  it("should run the AudioCode task in dry-run mode when requested", async () => {
+    const task = { dryRun: false };
+    newTaskFn.mockReturnValue(task);
+    const handler = postTask(mockServer as Server);
+    const testBase64 = Buffer.from("test audio data").toString("base64");
+    mockReq.body = { audioBase64: testBase64, dryRun: true };
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(task.dryRun).toBe(true);
+    expect(statusFn).toHaveBeenCalledWith(201);
+  });
+
+  it("should apply the dry-run mode and model override of the server", async () => {
+    const task = { dryRun: false, modelOverride: null };
+    newTaskFn.mockReturnValue(task);
+    mockServer.dryRun = true;
+    mockServer.modelOverride = "gemini-2.5-pro-exp-03-25";
+    const handler = postTask(mockServer as Server);
+    const testBase64 = Buffer.from("test audio data").toString("base64");
+    mockReq.body = { audioBase64: testBase64 };
+
+    await handler(mockReq as Request, mockRes as Response);
+
+    expect(task.dryRun).toBe(true);
+    expect(task.modelOverride).toBe("gemini-2.5-pro-exp-03-25");
+  });
+
   it("should return 400 if audioBase64 is missing", async () => {
     const handler = postTask(mockServer as Server);
     mockReq.body = {};
@@ -7,7 +7,7 @@ import { type Server } from "../Server.js";
 export const postTask = (server: Server) => {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { audioBase64 } = req.body;
+      const { audioBase64, workflow, dryRun } = req.body;
 
       if (!audioBase64 || typeof audioBase64 !== "string") {
         res.status(400).json({ error: "Missing or invalid audioBase64 field" });
@@ -18,7 +18,14 @@ export const postTask = (server: Server) => {
 
       await writeFile(filePath, audioBuffer);
 
-      server.cassi!.newTask("AudioCode", undefined, audioBase64);
+      const task = server.cassi!.newTask(
+        "AudioCode",
+        undefined,
+        audioBase64,
+        typeof workflow === "string" ? workflow : null
+      );
+      task.dryRun = dryRun === true || server.dryRun;
+      task.modelOverride = server.modelOverride;
       server.cassi!.runTasks();
 
       res.status(201).json({ message: "Task received and audio saved" });
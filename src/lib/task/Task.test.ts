@@ -10,6 +10,8 @@ import { Model } from "../model/Model.js";
 import { Models } from "../model/Models.js";
 import { Worktree } from "../repository/Worktree.js";
 import { genkit } from "genkit";
+import { CassiEvents } from "../cassi/CassiEvents.js";
+import { BudgetExceededError } from "../budget/Budget.js";
 
 vi.mock("../cassi/Cassi.js");
 vi.mock("../user/User.js");
@@ -253,6 +255,375 @@ describe("Task", () => {
     });
   });
 
+  describe("resume", () => {
+    it("should skip initTask and completed subtasks when resumed", async () => {
+      const completedSubTask = new Task(mockCassi, task);
+      completedSubTask.resumed = true;
+      completedSubTask.finishedAt = new Date();
+      const pendingSubTask = new Task(mockCassi, task);
+      pendingSubTask.resumed = true;
+      const completedRunSpy = vi.spyOn(completedSubTask, "run");
+      const pendingRunSpy = vi.spyOn(pendingSubTask, "run").mockResolvedValue();
+      task.addSubtask(completedSubTask);
+      task.addSubtask(pendingSubTask);
+      task.resumed = true;
+
+      await task.run();
+
+      expect(task.initTask).not.toHaveBeenCalled();
+      expect(completedRunSpy).not.toHaveBeenCalled();
+      expect(pendingRunSpy).toHaveBeenCalledTimes(1);
+      expect(task.error).toBeNull();
+    });
+
+    it("should call initTask when resumed without subtasks", async () => {
+      task.resumed = true;
+
+      await task.run();
+
+      expect(task.initTask).toHaveBeenCalled();
+    });
+  });
+
+  describe("events", () => {
+    let events: CassiEvents;
+    let emitted: string[];
+
+    beforeEach(() => {
+      events = new CassiEvents();
+      (mockCassi as any).events = events;
+      emitted = [];
+      events.onAny((type, payload) => {
+        emitted.push(`${type}:${(payload as any).task?.constructor.name}`);
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    it("should publish started, subtask started and finished events", async () => {
+      class ChildTask extends Task {}
+      const subTask = new ChildTask(mockCassi, task);
+      vi.spyOn(subTask, "run").mockResolvedValue();
+      task.addSubtask(subTask);
+
+      await task.run();
+
+      expect(emitted).toEqual([
+        "task:started:Task",
+        "subtask:started:ChildTask",
+        "task:finished:Task",
+      ]);
+    });
+
+    it("should publish a failed event with the error", async () => {
+      const error = new Error("boom");
+      vi.mocked(task.initTask).mockRejectedValue(error);
+      const failed = vi.fn();
+      events.on("task:failed", failed);
+
+      await task.run();
+
+      expect(failed).toHaveBeenCalledWith({
+        task,
+        error,
+        cancelled: false,
+      });
+      expect(emitted).not.toContain("task:finished:Task");
+    });
+  });
+
+  describe("cancel", () => {
+    it("should abort the signal of the task and its subtasks", () => {
+      const subTask = new Task(mockCassi, task);
+      task.addSubtask(subTask);
+
+      task.cancel("stop");
+
+      expect(task.getSignal().aborted).toBe(true);
+      expect(task.getSignal().reason.message).toBe("stop");
+      expect(subTask.getSignal().aborted).toBe(true);
+      expect(subTask.isCancelled()).toBe(true);
+    });
+
+    it("should abort subtasks added after the parent was cancelled", () => {
+      task.cancel();
+      const subTask = new Task(mockCassi, task);
+
+      expect(subTask.isCancelled()).toBe(true);
+      expect(subTask.getSignal().aborted).toBe(true);
+    });
+
+    it("should skip remaining subtasks, record the cancelled state and still clean up", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const subTask1 = new Task(mockCassi, task);
+      const subTask2 = new Task(mockCassi, task);
+      vi.spyOn(subTask1, "run").mockImplementation(async () => {
+        task.cancel();
+      });
+      const subTask2RunSpy = vi.spyOn(subTask2, "run").mockResolvedValue();
+      task.addSubtask(subTask1);
+      task.addSubtask(subTask2);
+
+      await task.run();
+
+      expect(subTask2RunSpy).not.toHaveBeenCalled();
+      expect(task.cancelled).toBe(true);
+      expect(task.error?.message).toBe("Task cancelled");
+      expect(task.finishedAt).toBeInstanceOf(Date);
+      expect(task.cleanupTask).toHaveBeenCalled();
+      expect(task.serialize().cancelled).toBe(true);
+    });
+
+    it("should not run initTask for a task cancelled before it started", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      task.cancel();
+
+      await task.run();
+
+      expect(task.initTask).not.toHaveBeenCalled();
+      expect(task.cancelled).toBe(true);
+      expect(task.cleanupTask).toHaveBeenCalled();
+    });
+
+    it("should not mark failed tasks as cancelled", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.mocked(task.initTask).mockRejectedValue(new Error("boom"));
+
+      await task.run();
+
+      expect(task.error?.message).toBe("boom");
+      expect(task.cancelled).toBe(false);
+    });
+  });
+
+  describe("budget", () => {
+    const setBudgets = (tasks: Record<string, any>) => {
+      mockConfig.configData = {
+        apiKeys: { gemini: "key" },
+        budgets: { tasks },
+      };
+    };
+
+    it("should not limit tasks without a budget", () => {
+      expect(task.getBudget()).toBeNull();
+      expect(() => task.checkBudget()).not.toThrow();
+    });
+
+    it("should include subtask usage when checking the budget of a parent", () => {
+      setBudgets({ Task: { maxTokens: 100, maxTurns: 10 } });
+      const subTask = new Task(mockCassi, task);
+      task.addSubtask(subTask);
+      subTask.models.push({
+        usage: { inputTokens: 80, outputTokens: 30, totalTokens: 110 },
+        turns: 3,
+      } as Models);
+
+      expect(task.getTurns()).toBe(3);
+      expect(() => subTask.checkBudget()).toThrow(BudgetExceededError);
+      expect(() => subTask.checkBudget()).toThrow(
+        "Budget exceeded: task Task reached its maxTokens limit"
+      );
+    });
+
+    it("should stop a task that runs past its time limit with a budget error", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      setBudgets({ Task: { maxSeconds: 0.01 } });
+      vi.mocked(task.initTask).mockImplementation(
+        () =>
+          new Promise((_, reject) => {
+            task
+              .getSignal()
+              .addEventListener("abort", () =>
+                reject(new Error("Command cancelled: sleep 10"))
+              );
+          })
+      );
+
+      await task.run();
+
+      expect(task.error).toBeInstanceOf(BudgetExceededError);
+      expect((task.error as BudgetExceededError).limit).toBe("maxSeconds");
+      expect(task.cancelled).toBe(false);
+      expect(task.getResult().status).toBe("failed");
+      expect(task.cleanupTask).toHaveBeenCalled();
+    });
+  });
+
+  describe("saveState", () => {
+    it("should save the root task to the task store during run", async () => {
+      const save = vi.fn().mockResolvedValue(undefined);
+      (mockCassi as any).taskStore = { save };
+      const subTask = new Task(mockCassi, task);
+      task.addSubtask(subTask);
+
+      await subTask.saveState();
+
+      expect(save).toHaveBeenCalledWith(task);
+    });
+
+    it("should log and not throw when saving fails", async () => {
+      (mockCassi as any).taskStore = {
+        save: vi.fn().mockRejectedValue(new Error("disk full")),
+      };
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(task.saveState()).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "[Task] Error saving state for Task: disk full"
+      );
+    });
+  });
+
+  describe("serialize", () => {
+    it("should serialize the task tree with args, dates, errors and worktree", () => {
+      const parent = new Task(mockCassi, null, "prompt");
+      parent.taskId = "abcd1234-task";
+      parent.startedAt = new Date("2025-01-01T00:00:00.000Z");
+      parent.worktree = {
+        worktreeDir: "/repo/.cassi/worktrees/abcd1234-task",
+        repositoryBranch: "main",
+      } as Worktree;
+      const child = new Task(mockCassi, parent);
+      child.error = new Error("child failed");
+      parent.addSubtask(child);
+
+      const record = parent.serialize();
+
+      expect(record.taskName).toBe("Task");
+      expect(record.args).toEqual(["prompt"]);
+      expect(record.startedAt).toBe("2025-01-01T00:00:00.000Z");
+      expect(record.finishedAt).toBeNull();
+      expect(record.worktree).toEqual({
+        worktreeDir: "/repo/.cassi/worktrees/abcd1234-task",
+        repositoryBranch: "main",
+      });
+      expect(record.subTasks).toHaveLength(1);
+      expect(record.subTasks[0].error?.message).toBe("child failed");
+    });
+  });
+
+  describe("getResult", () => {
+    it("should report status from the task state", () => {
+      expect(task.getResult().status).toBe("pending");
+      task.startedAt = new Date();
+      expect(task.getResult().status).toBe("running");
+      task.finishedAt = new Date();
+      expect(task.getResult().status).toBe("succeeded");
+      task.error = new Error("failed");
+      expect(task.getResult().status).toBe("failed");
+      task.cancelled = true;
+      expect(task.getResult().status).toBe("cancelled");
+    });
+
+    it("should roll up output and usage from subtasks", () => {
+      const parent = new Task(mockCassi, null, "prompt");
+      parent.taskId = "abcd1234-task";
+      parent.startedAt = new Date("2025-01-01T00:00:00.000Z");
+      parent.finishedAt = new Date("2025-01-01T00:00:05.000Z");
+      const coder = new Task(mockCassi, parent);
+      coder.output.summary = "Added the feature.";
+      coder.models.push({
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        cost: 0.25,
+      } as Models);
+      const tester = new Task(mockCassi, parent);
+      tester.output.summary = "Fixed the tests.";
+      tester.output.tests = {
+        command: "npm test",
+        passed: true,
+        attempts: 1,
+      };
+      tester.models.push({
+        usage: { inputTokens: 20, outputTokens: 10, totalTokens: 30 },
+        cost: null,
+      } as Models);
+      const commit = new Task(mockCassi, parent);
+      commit.output.filesChanged = ["src/b.ts", "src/a.ts"];
+      commit.output.commit = { sha: "abc123", message: "abcd1234: feat" };
+      parent.addSubtask(coder);
+      parent.addSubtask(tester);
+      parent.addSubtask(commit);
+
+      const result = parent.getResult();
+
+      expect(result.taskId).toBe("abcd1234-task");
+      expect(result.status).toBe("succeeded");
+      expect(result.durationMs).toBe(5000);
+      expect(result.filesChanged).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(result.commit).toEqual({
+        sha: "abc123",
+        message: "abcd1234: feat",
+      });
+      expect(result.tests).toEqual({
+        command: "npm test",
+        passed: true,
+        attempts: 1,
+      });
+      expect(result.summary).toBe("Fixed the tests.");
+      expect(result.usage).toEqual({
+        inputTokens: 30,
+        outputTokens: 15,
+        totalTokens: 45,
+      });
+      expect(result.cost).toBe(0.25);
+      expect(commit.getResult().cost).toBeNull();
+      expect(result.subTasks).toHaveLength(3);
+      expect(result.subTasks[0].summary).toBe("Added the feature.");
+    });
+
+    it("should inherit dry-run mode and collect planned effects in order", () => {
+      const parent = new Task(mockCassi);
+      parent.dryRun = true;
+      const child = new Task(mockCassi, parent);
+      parent.addSubtask(child);
+      const effect = (method: string) => ({
+        toolName: "fs",
+        method,
+        toolArgs: [],
+        methodArgs: [],
+      });
+      parent.output.plannedEffects.push(effect("createDirectory"));
+      child.output.plannedEffects.push(effect("writeFile"));
+
+      const result = parent.getResult();
+
+      expect(child.isDryRun()).toBe(true);
+      expect(result.dryRun).toBe(true);
+      expect(result.plannedEffects.map((e) => e.method)).toEqual([
+        "createDirectory",
+        "writeFile",
+      ]);
+      expect(parent.serialize().dryRun).toBe(true);
+    });
+
+    it("should inherit the model override from the nearest parent", () => {
+      const root = new Task(mockCassi);
+      root.modelOverride = "gemini-2.0-flash";
+      const parent = new Task(mockCassi, root);
+      const child = new Task(mockCassi, parent);
+
+      expect(child.getModelOverride()).toBe("gemini-2.0-flash");
+      parent.modelOverride = "qwen2.5-coder";
+      expect(child.getModelOverride()).toBe("qwen2.5-coder");
+      expect(new Task(mockCassi).getModelOverride()).toBeNull();
+      expect(root.serialize().modelOverride).toBe("gemini-2.0-flash");
+    });
+
+    it("should prefer the task's own output over subtask output", () => {
+      const parent = new Task(mockCassi);
+      parent.output.summary = "Parent summary";
+      const child = new Task(mockCassi, parent);
+      child.output.summary = "Child summary";
+      parent.addSubtask(child);
+
+      expect(parent.getResult().summary).toBe("Parent summary");
+    });
+  });
+
   describe("invoke", () => {
     beforeEach(() => {
       mockTool.invoke = vi.fn();
@@ -299,6 +670,32 @@ describe("Task", () => {
     });
   });
 
+  describe("invokeCleanup", () => {
+    it("should invoke the tool with a signal that is not aborted when the task is cancelled", async () => {
+      mockTool.invoke = vi.fn().mockResolvedValue("removed");
+      task.cancel();
+
+      const result = await task.invokeCleanup(
+        "git",
+        "remWorkTree",
+        ["/repo"],
+        ["/repo/.cassi/worktrees/a"]
+      );
+
+      expect(result).toBe("removed");
+      expect(mockTool.invoke).toHaveBeenCalledWith(
+        task,
+        "git",
+        "remWorkTree",
+        ["/repo"],
+        ["/repo/.cassi/worktrees/a"],
+        expect.any(AbortSignal)
+      );
+      const signal = vi.mocked(mockTool.invoke).mock.calls[0][5];
+      expect(signal?.aborted).toBe(false);
+    });
+  });
+
   describe("newModel", () => {
     let newInstanceSpy: any;
 
@@ -328,6 +725,12 @@ describe("Task", () => {
       expect(result).toBe(expectedInstance);
     });
 
+    it("should track the models created by the task", () => {
+      const result = task.newModel("MockModel");
+
+      expect(task.models).toEqual([result]);
+    });
+
     it("should throw an error if cassi.model.newInstance throws", () => {
       const modelClassName = "NonExistentModel";
       const testError = new Error(`Model class '${modelClassName}' not found.`);
@@ -582,6 +985,15 @@ describe("Task", () => {
       expect(taskId1).toMatch(/^[a-zA-Z0-9]{8}-same-summary$/);
       expect(taskId2).toMatch(/^[a-zA-Z0-9]{8}-same-summary$/);
     });
+
+    it("should keep the stored ID of a resumed task", () => {
+      task.resumed = true;
+      task.taskId = "abcd1234-stored";
+
+      task.setTaskId("Another Summary");
+
+      expect(task.taskId).toBe("abcd1234-stored");
+    });
   });
 
   describe("initWorktree", () => {
@@ -619,6 +1031,17 @@ describe("Task", () => {
       expect(task.worktree).toBe(mockWorktree);
     });
 
+    it("should save the task state with the new worktree", async () => {
+      const save = vi.fn(async (rootTask: Task) => {
+        expect(rootTask.worktree).toBe(mockWorktree);
+      });
+      (mockCassi as any).taskStore = { save };
+
+      await task.initWorktree();
+
+      expect(save).toHaveBeenCalledWith(task);
+    });
+
     it("should propagate errors from cassi.repository.getWorktree", async () => {
       const testError = new Error("Failed to get worktree");
       getWorktreeSpy.mockRejectedValue(testError);
@@ -5,6 +5,23 @@ import { Cassi } from "../cassi/Cassi.js";
 import { Model } from "../model/Model.js";
 import { Models } from "../model/Models.js";
 import { Worktree } from "../repository/Worktree.js";
+import type { TaskRecord } from "./TaskStore.js";
+import {
+  BudgetExceededError,
+  BudgetLimits,
+  checkBudget,
+  exceededLimit,
+} from "../budget/Budget.js";
+import {
+  TaskOutput,
+  TaskResult,
+  TaskStatus,
+  TokenUsage,
+  addUsage,
+  emptyOutput,
+  emptyUsage,
+} from "./TaskResult.js";
+import { addCost } from "../usage/Usage.js";
 
 export class Task {
   public cassi: Cassi;
@@ -15,21 +32,44 @@ export class Task {
   public finishedAt: Date | null = null;
   public error: Error | null = null;
   public taskId: string | null = null;
+  public args: any[];
+  public resumed: boolean = false;
+  public concurrent: boolean = false;
+  public cancelled: boolean = false;
+  public dryRun: boolean = false;
+  public modelOverride: string | null = null;
+  public output: TaskOutput = emptyOutput();
+  public models: Models[] = [];
+  private abortController: AbortController = new AbortController();
 
   constructor(cassi: Cassi, parentTask: Task | null = null, ...args: any[]) {
     this.cassi = cassi;
     this.parentTask = parentTask;
+    this.args = args;
   }
 
   async initTask(): Promise<void> {}
 
   async cleanupTask(): Promise<void> {}
 
+  /**
+   * Gets or creates the worktree for the task ID and saves the task state
+   * right away, so that a task interrupted before its subtasks are added
+   * resumes with the same worktree instead of creating another one.
+   */
   async initWorktree(): Promise<void> {
     this.worktree = await this.cassi.repository.getWorktree(this);
+    await this.saveState();
   }
 
+  /**
+   * Sets a new task ID from a summary. Resumed tasks keep their stored ID.
+   */
   setTaskId(summary: string): void {
+    if (this.resumed && this.taskId) {
+      console.log(`Keeping task ID of resumed task: ${this.taskId}`);
+      return;
+    }
     const repoSlug = kebabCase(summary);
     const hashInput = `${repoSlug}${Date.now()}`;
     const hash = crypto.createHash("sha256").update(hashInput).digest("base64");
@@ -43,16 +83,34 @@ export class Task {
   async run(): Promise<void> {
     console.log(`[Task] Starting task: ${this.constructor.name}`);
     this.startedAt = new Date();
+    this.cassi.events?.emit("task:started", { task: this });
+    const budgetTimer = this.startBudgetTimer();
     try {
-      console.log(`[Task] Initializing task: ${this.constructor.name}`);
-      await this.initTask();
+      this.throwIfCancelled();
+      if (this.resumed && this.subTasks.length > 0) {
+        console.log(
+          `[Task] Resuming task: ${this.constructor.name}, skipping initTask`
+        );
+      } else {
+        console.log(`[Task] Initializing task: ${this.constructor.name}`);
+        await this.initTask();
+      }
+      await this.saveState();
       console.log(
         `[Task] Running subtasks for: ${this.constructor.name}. Count: ${this.subTasks.length}`
       );
       for (const subTask of this.subTasks) {
+        if (subTask.resumed && subTask.finishedAt && !subTask.error) {
+          continue;
+        }
+        this.throwIfCancelled();
         console.log(
           `[Task] Running subtask: ${subTask.constructor.name} from parent: ${this.constructor.name}`
         );
+        this.cassi.events?.emit("subtask:started", {
+          task: subTask,
+          parentTask: this,
+        });
         await subTask.run();
         if (subTask.error) {
           console.error(
@@ -60,11 +118,26 @@ export class Task {
           );
           throw subTask.error;
         }
+        await this.saveState();
       }
     } catch (err) {
       this.error = err instanceof Error ? err : new Error(String(err));
+      const reason = this.getSignal().reason;
+      if (reason instanceof BudgetExceededError) {
+        this.error = reason;
+      }
+      if (this.error instanceof BudgetExceededError) {
+        console.error(`[Task] ${this.error.message}`);
+      } else if (this.isCancelled()) {
+        this.cancelled = true;
+        console.log(`[Task] Task cancelled: ${this.constructor.name}`);
+      }
     } finally {
+      if (budgetTimer) {
+        clearTimeout(budgetTimer);
+      }
       this.finishedAt = new Date();
+      await this.saveState();
       try {
         console.log(`[Task] Cleaning up task: ${this.constructor.name}`);
         await this.cleanupTask();
@@ -77,6 +150,171 @@ export class Task {
           }`
         );
       }
+      if (this.error) {
+        this.cassi.events?.emit("task:failed", {
+          task: this,
+          error: this.error,
+          cancelled: this.cancelled,
+        });
+      } else {
+        this.cassi.events?.emit("task:finished", { task: this });
+      }
+    }
+  }
+
+  getBudget(): BudgetLimits | null {
+    return (
+      this.cassi.config?.configData?.budgets?.tasks?.[this.constructor.name] ??
+      null
+    );
+  }
+
+  /**
+   * Returns the number of model requests made by this task and its subtasks.
+   */
+  getTurns(): number {
+    return (
+      this.models.reduce((turns, model) => turns + model.turns, 0) +
+      this.subTasks.reduce((turns, subTask) => turns + subTask.getTurns(), 0)
+    );
+  }
+
+  private getBudgetUsage() {
+    return {
+      ...this.getResult().usage,
+      turns: this.getTurns(),
+      elapsedMs: this.startedAt ? Date.now() - this.startedAt.getTime() : 0,
+    };
+  }
+
+  /**
+   * Throws a BudgetExceededError if this task or any parent task has used up
+   * its budget. Usage of a task includes the usage of its subtasks.
+   */
+  checkBudget(): void {
+    checkBudget(
+      `task ${this.constructor.name}`,
+      this.getBudget(),
+      this.getBudgetUsage()
+    );
+    this.parentTask?.checkBudget();
+  }
+
+  /**
+   * Cancels the task with a BudgetExceededError once its time limit is
+   * reached, so that running tools and model requests stop.
+   */
+  private startBudgetTimer(): NodeJS.Timeout | null {
+    const maxSeconds = this.getBudget()?.maxSeconds;
+    if (maxSeconds === undefined) {
+      return null;
+    }
+    return setTimeout(() => {
+      const usage = this.getBudgetUsage();
+      this.cancel(
+        new BudgetExceededError(
+          `task ${this.constructor.name}`,
+          exceededLimit({ maxSeconds }, usage) ?? "maxSeconds",
+          usage
+        )
+      );
+    }, maxSeconds * 1000);
+  }
+
+  /**
+   * Returns the abort signal for this task. Tool invocations, model loops and
+   * shell commands started by this task observe it to stop early.
+   * @returns The AbortSignal of this task.
+   */
+  getSignal(): AbortSignal {
+    if (
+      !this.abortController.signal.aborted &&
+      this.parentTask?.isCancelled()
+    ) {
+      this.cancel(this.parentTask.getSignal().reason);
+    }
+    return this.abortController.signal;
+  }
+
+  /**
+   * Cancels this task and all of its subtasks.
+   * @param reason The reason for the cancellation.
+   */
+  cancel(reason: string | Error = "Task cancelled"): void {
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(
+        reason instanceof Error ? reason : new Error(reason)
+      );
+    }
+    for (const subTask of this.subTasks) {
+      subTask.cancel(reason);
+    }
+  }
+
+  isCancelled(): boolean {
+    if (this.abortController.signal.aborted) {
+      return true;
+    }
+    return this.parentTask ? this.parentTask.isCancelled() : false;
+  }
+
+  /**
+   * Throws the cancellation reason if this task or any parent was cancelled.
+   */
+  throwIfCancelled(): void {
+    const signal = this.getSignal();
+    if (signal.aborted) {
+      throw signal.reason instanceof Error
+        ? signal.reason
+        : new Error("Task cancelled");
+    }
+  }
+
+  /**
+   * Serializes this task and its subtasks for the task store.
+   * @returns A plain object describing the task tree.
+   */
+  serialize(): TaskRecord {
+    return {
+      taskName: this.constructor.name,
+      taskId: this.taskId,
+      args: this.args,
+      startedAt: this.startedAt ? this.startedAt.toISOString() : null,
+      finishedAt: this.finishedAt ? this.finishedAt.toISOString() : null,
+      cancelled: this.cancelled,
+      dryRun: this.dryRun,
+      modelOverride: this.modelOverride,
+      output: this.output,
+      error: this.error
+        ? { message: this.error.message, stack: this.error.stack }
+        : null,
+      worktree: this.worktree
+        ? {
+            worktreeDir: this.worktree.worktreeDir,
+            repositoryBranch: this.worktree.repositoryBranch,
+          }
+        : null,
+      subTasks: this.subTasks.map((subTask) => subTask.serialize()),
+    };
+  }
+
+  /**
+   * Saves the root task tree to the task store. Errors are logged and do not
+   * fail the task.
+   */
+  async saveState(): Promise<void> {
+    const taskStore = this.cassi.taskStore;
+    if (!taskStore) {
+      return;
+    }
+    try {
+      await taskStore.save(this.getRootTask());
+    } catch (error) {
+      console.error(
+        `[Task] Error saving state for ${this.constructor.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
     }
   }
 
@@ -96,6 +334,27 @@ export class Task {
     );
   }
 
+  /**
+   * Invokes a tool method that cleans up after the task. Unlike `invoke` the
+   * invocation does not observe the task's abort signal, so that cancelled
+   * tasks and tasks over their time budget still remove their worktree.
+   */
+  async invokeCleanup(
+    toolName: string,
+    methodName: string,
+    toolArgs: any[] = [],
+    methodArgs: any[] = []
+  ): Promise<any> {
+    return this.cassi.tool.invoke(
+      this,
+      toolName,
+      methodName,
+      toolArgs,
+      methodArgs,
+      new AbortController().signal
+    );
+  }
+
   /**
    * Creates a new instance of a specified model (which extends Models).
    * Creates a new instance of a specified model (which extends Models).
@@ -103,7 +362,108 @@ export class Task {
    * @returns A new instance of the specified model.
    */
   newModel(modelClassName: string): Models {
-    return this.cassi.model.newInstance(modelClassName, this);
+    const model = this.cassi.model.newInstance(modelClassName, this);
+    this.models.push(model);
+    return model;
+  }
+
+  /**
+   * Returns true if this task or any parent task runs in dry-run mode, in
+   * which mutating tool calls are recorded in `output.plannedEffects` instead
+   * of being executed.
+   */
+  isDryRun(): boolean {
+    return this.dryRun || (this.parentTask?.isDryRun() ?? false);
+  }
+
+  /**
+   * Returns the model name set with `--model` on this task or the nearest
+   * parent task. It replaces the configured model for every model the task
+   * creates.
+   */
+  getModelOverride(): string | null {
+    return this.modelOverride ?? this.parentTask?.getModelOverride() ?? null;
+  }
+
+  getStatus(): TaskStatus {
+    if (this.cancelled) {
+      return "cancelled";
+    }
+    if (this.error) {
+      return "failed";
+    }
+    if (this.finishedAt) {
+      return "succeeded";
+    }
+    return this.startedAt ? "running" : "pending";
+  }
+
+  /**
+   * Returns the token usage of the models created by this task, not
+   * including subtasks.
+   */
+  getUsage(): TokenUsage {
+    return this.models.reduce(
+      (total, model) => addUsage(total, model.usage),
+      emptyUsage()
+    );
+  }
+
+  /**
+   * Returns the cost of the models created by this task, not including
+   * subtasks, or null if no prices are configured for the models.
+   */
+  getCost(): number | null {
+    return this.models.reduce<number | null>(
+      (total, model) => addCost(total, model.cost),
+      null
+    );
+  }
+
+  /**
+   * Builds the result of this task with the results of its subtasks rolled
+   * up. Changed files and usage are combined across the tree, for the commit,
+   * tests and summary the task's own output is used if set, otherwise the
+   * last one set by a subtask.
+   * @returns The result of this task.
+   */
+  getResult(): TaskResult {
+    const subTasks = this.subTasks.map((subTask) => subTask.getResult());
+    const filesChanged = new Set(this.output.filesChanged);
+    const plannedEffects = [...this.output.plannedEffects];
+    let usage = this.getUsage();
+    let cost = this.getCost();
+    let { commit, tests, summary } = this.output;
+    for (const subResult of [...subTasks].reverse()) {
+      subResult.filesChanged.forEach((file) => filesChanged.add(file));
+      usage = addUsage(usage, subResult.usage);
+      cost = addCost(cost, subResult.cost);
+      commit = commit ?? subResult.commit;
+      tests = tests ?? subResult.tests;
+      summary = summary ?? subResult.summary;
+    }
+    for (const subResult of subTasks) {
+      plannedEffects.push(...subResult.plannedEffects);
+    }
+    return {
+      taskName: this.constructor.name,
+      taskId: this.taskId,
+      status: this.getStatus(),
+      dryRun: this.isDryRun(),
+      error: this.error ? this.error.message : null,
+      durationMs:
+        this.startedAt && this.finishedAt
+          ? this.finishedAt.getTime() - this.startedAt.getTime()
+          : null,
+      filesChanged: [...filesChanged].sort(),
+      commit,
+      tests,
+      summary,
+      plannedEffects,
+      usage,
+      cost,
+      subTasks,
+    };
   }
 
   /**
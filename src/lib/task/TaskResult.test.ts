@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  TaskResult,
+  addUsage,
+  emptyOutput,
+  emptyUsage,
+  formatTaskResult,
+} from "./TaskResult.js";
+
+const makeResult = (overrides: Partial<TaskResult> = {}): TaskResult => ({
+  taskName: "Code",
+  taskId: "abcd1234-task",
+  status: "succeeded",
+  dryRun: false,
+  error: null,
+  durationMs: 1000,
+  usage: emptyUsage(),
+  cost: null,
+  subTasks: [],
+  ...emptyOutput(),
+  ...overrides,
+});
+
+describe("TaskResult", () => {
+  describe("addUsage", () => {
+    it("should add usage counts", () => {
+      const total = addUsage(
+        { inputTokens: 1, outputTokens: 2, totalTokens: 3 },
+        { inputTokens: 10, outputTokens: 20, totalTokens: 35 }
+      );
+      expect(total).toEqual({
+        inputTokens: 11,
+        outputTokens: 22,
+        totalTokens: 38,
+      });
+    });
+
+    it("should derive the total when it is missing and ignore empty usage", () => {
+      let total = addUsage(emptyUsage(), { inputTokens: 4, outputTokens: 6 });
+      total = addUsage(total, undefined);
+      expect(total).toEqual({
+        inputTokens: 4,
+        outputTokens: 6,
+        totalTokens: 10,
+      });
+    });
+  });
+
+  describe("formatTaskResult", () => {
+    it("should only show the status for an empty result", () => {
+      expect(formatTaskResult(makeResult())).toBe("Code: succeeded");
+    });
+
+    it("should show files, commit, tests, tokens and summary", () => {
+      const text = formatTaskResult(
+        makeResult({
+          filesChanged: ["src/a.ts", "src/b.ts"],
+          commit: {
+            sha: "0123456789abcdef",
+            message: "abcd1234: feat: add a\n\n- details",
+          },
+          tests: { command: "npm test", passed: true, attempts: 2 },
+          usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+          summary: "Added a.",
+        })
+      );
+      expect(text).toBe(
+        [
+          "Code: succeeded",
+          "  Files changed: src/a.ts, src/b.ts",
+          "  Commit: 01234567 abcd1234: feat: add a",
+          "  Tests: passed after 2 attempt(s)",
+          "  Tokens: 120 (100 in, 20 out)",
+          "  Summary: Added a.",
+        ].join("\n")
+      );
+    });
+
+    it("should show the cost with the tokens when prices are configured", () => {
+      const text = formatTaskResult(
+        makeResult({
+          usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+          cost: 0.01234,
+        })
+      );
+      expect(text).toBe(
+        "Code: succeeded\n  Tokens: 120 (100 in, 20 out), cost $0.0123"
+      );
+    });
+
+    it("should show the error of a failed result", () => {
+      const text = formatTaskResult(
+        makeResult({ status: "failed", error: "boom" })
+      );
+      expect(text).toBe("Code: failed\n  Error: boom");
+    });
+
+    it("should show the plan of a dry run", () => {
+      const text = formatTaskResult(
+        makeResult({
+          dryRun: true,
+          plannedEffects: [
+            {
+              toolName: "fs",
+              method: "writeFile",
+              toolArgs: [],
+              methodArgs: ["/repo/src/a.ts", "<120 chars>"],
+            },
+          ],
+        })
+      );
+      expect(text).toBe(
+        [
+          "Code: succeeded (dry run)",
+          "Dry run plan:",
+          "  File changes:",
+          "    writeFile /repo/src/a.ts <120 chars>",
+        ].join("\n")
+      );
+    });
+  });
+});
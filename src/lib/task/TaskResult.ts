@@ -0,0 +1,122 @@
+import { formatPlan, type PlannedEffect } from "../tool/DryRun.js";
+import { formatCost } from "../usage/Usage.js";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+}
+
+export interface TestOutcome {
+  command: string;
+  passed: boolean;
+  attempts: number;
+}
+
+export type TaskStatus =
+  "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * What a task produced itself, not including its subtasks.
+ */
+export interface TaskOutput {
+  filesChanged: string[];
+  commit: CommitInfo | null;
+  tests: TestOutcome | null;
+  summary: string | null;
+  plannedEffects: PlannedEffect[];
+}
+
+/**
+ * The result of a task including the rolled up results of its subtasks.
+ */
+export interface TaskResult extends TaskOutput {
+  taskName: string;
+  taskId: string | null;
+  status: TaskStatus;
+  dryRun: boolean;
+  error: string | null;
+  durationMs: number | null;
+  usage: TokenUsage;
+  /** Cost in US dollars, null if no prices are configured for the models. */
+  cost: number | null;
+  subTasks: TaskResult[];
+}
+
+export const emptyUsage = (): TokenUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+});
+
+export const emptyOutput = (): TaskOutput => ({
+  filesChanged: [],
+  commit: null,
+  tests: null,
+  summary: null,
+  plannedEffects: [],
+});
+
+/**
+ * Adds genkit usage stats to a usage total. Missing counts are treated as 0.
+ */
+export const addUsage = (total: TokenUsage, usage: any): TokenUsage => {
+  const inputTokens = total.inputTokens + (usage?.inputTokens ?? 0);
+  const outputTokens = total.outputTokens + (usage?.outputTokens ?? 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens:
+      total.totalTokens +
+      (usage?.totalTokens ??
+        (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0)),
+  };
+};
+
+/**
+ * Formats a task result as a short human readable report.
+ */
+export const formatTaskResult = (result: TaskResult): string => {
+  const lines = [
+    `${result.taskName}: ${result.status}${result.dryRun ? " (dry run)" : ""}`,
+  ];
+  if (result.error) {
+    lines.push(`  Error: ${result.error}`);
+  }
+  if (result.filesChanged.length > 0) {
+    lines.push(`  Files changed: ${result.filesChanged.join(", ")}`);
+  }
+  if (result.commit) {
+    lines.push(
+      `  Commit: ${result.commit.sha.substring(0, 8)} ${
+        result.commit.message.split("\n")[0]
+      }`
+    );
+  }
+  if (result.tests) {
+    lines.push(
+      `  Tests: ${result.tests.passed ? "passed" : "failed"} after ${
+        result.tests.attempts
+      } attempt(s)`
+    );
+  }
+  if (result.usage.totalTokens > 0) {
+    lines.push(
+      `  Tokens: ${result.usage.totalTokens} (${result.usage.inputTokens} in, ${result.usage.outputTokens} out)${
+        result.cost !== null ? `, cost ${formatCost(result.cost)}` : ""
+      }`
+    );
+  }
+  if (result.summary) {
+    lines.push(`  Summary: ${result.summary}`);
+  }
+  if (result.dryRun) {
+    lines.push(formatPlan(result.plannedEffects));
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TaskScheduler } from "./TaskScheduler.js";
+import { Task } from "./Task.js";
+import type { Cassi } from "../cassi/Cassi.js";
+
+const mockCassi = {} as unknown as Cassi;
+
+const makeTask = (concurrent: boolean): Task => {
+  const task = new Task(mockCassi);
+  task.concurrent = concurrent;
+  return task;
+};
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("TaskScheduler", () => {
+  let started: Task[];
+  let releases: Map<Task, () => void>;
+  let runTask: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    started = [];
+    releases = new Map();
+    runTask = vi.fn((task: Task) => {
+      started.push(task);
+      const { promise, resolve } = deferred();
+      releases.set(task, resolve);
+      return promise;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should run tasks one at a time with the default concurrency", async () => {
+    const scheduler = new TaskScheduler(runTask);
+    const task1 = makeTask(true);
+    const task2 = makeTask(true);
+
+    const done = scheduler.schedule([task1, task2]);
+    await flush();
+    expect(started).toEqual([task1]);
+
+    releases.get(task1)!();
+    await flush();
+    expect(started).toEqual([task1, task2]);
+
+    releases.get(task2)!();
+    await done;
+  });
+
+  it("should run concurrent tasks in parallel up to the limit", async () => {
+    const scheduler = new TaskScheduler(runTask, 2);
+    const task1 = makeTask(true);
+    const task2 = makeTask(true);
+    const task3 = makeTask(true);
+
+    const done = scheduler.schedule([task1, task2, task3]);
+    await flush();
+    expect(started).toEqual([task1, task2]);
+
+    releases.get(task2)!();
+    await flush();
+    expect(started).toEqual([task1, task2, task3]);
+
+    releases.get(task1)!();
+    releases.get(task3)!();
+    await done;
+  });
+
+  it("should run non-concurrent tasks alone", async () => {
+    const scheduler = new TaskScheduler(runTask, 4);
+    const exclusive = makeTask(false);
+    const task1 = makeTask(true);
+    const task2 = makeTask(true);
+    const exclusive2 = makeTask(false);
+
+    const done = scheduler.schedule([exclusive, task1, task2, exclusive2]);
+    await flush();
+    expect(started).toEqual([exclusive]);
+
+    releases.get(exclusive)!();
+    await flush();
+    expect(started).toEqual([exclusive, task1, task2]);
+
+    releases.get(task1)!();
+    await flush();
+    expect(started).toEqual([exclusive, task1, task2]);
+
+    releases.get(task2)!();
+    await flush();
+    expect(started).toEqual([exclusive, task1, task2, exclusive2]);
+
+    releases.get(exclusive2)!();
+    await done;
+  });
+
+  it("should start tasks scheduled while others are running", async () => {
+    const scheduler = new TaskScheduler(runTask, 2);
+    const task1 = makeTask(true);
+    const task2 = makeTask(true);
+
+    const done = scheduler.schedule([task1]);
+    await flush();
+    const done2 = scheduler.schedule([task2]);
+    await flush();
+
+    expect(done2).toBe(done);
+    expect(started).toEqual([task1, task2]);
+
+    releases.get(task1)!();
+    releases.get(task2)!();
+    await done;
+  });
+
+  it("should not schedule the same task twice", async () => {
+    const scheduler = new TaskScheduler(runTask, 2);
+    const task1 = makeTask(true);
+
+    const done = scheduler.schedule([task1]);
+    scheduler.schedule([task1]);
+    await flush();
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+    expect(scheduler.isScheduled(task1)).toBe(true);
+
+    releases.get(task1)!();
+    await done;
+  });
+
+  it("should keep running after a task rejects", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const failing = makeTask(false);
+    const next = makeTask(false);
+    const scheduler = new TaskScheduler(async (task: Task) => {
+      started.push(task);
+      if (task === failing) {
+        throw new Error("boom");
+      }
+    });
+
+    await scheduler.schedule([failing, next]);
+
+    expect(started).toEqual([failing, next]);
+    expect(consoleErrorSpy).toHaveBeenCalled();
+  });
+});
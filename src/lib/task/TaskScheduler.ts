@@ -0,0 +1,94 @@
+import type { Task } from "./Task.js";
+
+/**
+ * Runs tasks with a concurrency limit. Tasks marked as concurrent (tasks that
+ * work in their own worktree) may run alongside each other, all other tasks
+ * run alone and in the order they were scheduled.
+ */
+export class TaskScheduler {
+  public concurrency: number;
+  private readonly runTask: (task: Task) => Promise<void>;
+  private readonly pending: Task[] = [];
+  private readonly running: Map<Task, Promise<void>> = new Map();
+  private readonly scheduled: Set<Task> = new Set();
+  private draining: Promise<void> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(runTask: (task: Task) => Promise<void>, concurrency: number = 1) {
+    this.runTask = runTask;
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * Adds tasks to the queue. Tasks that were already scheduled are ignored.
+   * @param tasks The tasks to schedule.
+   * @returns A promise that resolves when all scheduled tasks have finished.
+   */
+  schedule(tasks: Task[]): Promise<void> {
+    for (const task of tasks) {
+      if (!this.scheduled.has(task)) {
+        this.scheduled.add(task);
+        this.pending.push(task);
+      }
+    }
+
+    if (this.wake) {
+      this.wake();
+    }
+
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  isScheduled(task: Task): boolean {
+    return this.scheduled.has(task);
+  }
+
+  private canStart(task: Task): boolean {
+    if (this.running.size === 0) {
+      return true;
+    }
+    if (
+      !task.concurrent ||
+      this.running.size >= Math.max(1, this.concurrency)
+    ) {
+      return false;
+    }
+    return [...this.running.keys()].every((running) => running.concurrent);
+  }
+
+  private start(task: Task): void {
+    const promise = this.runTask(task)
+      .catch((error) => {
+        console.error(
+          `[TaskScheduler] Unhandled error running ${task.constructor.name}:`,
+          error
+        );
+      })
+      .finally(() => {
+        this.running.delete(task);
+      });
+    this.running.set(task, promise);
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0 || this.running.size > 0) {
+      const next = this.pending[0];
+      if (next && this.canStart(next)) {
+        this.pending.shift();
+        this.start(next);
+        continue;
+      }
+
+      const woken = new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+      await Promise.race([...this.running.values(), woken]);
+      this.wake = null;
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TaskStore, TaskRecord } from "./TaskStore.js";
+import { Task } from "./Task.js";
+import type { Cassi } from "../cassi/Cassi.js";
+
+const mockCassi = {} as unknown as Cassi;
+
+const makeRecord = (overrides: Partial<TaskRecord> = {}): TaskRecord => ({
+  taskName: "Code",
+  taskId: "abcd1234-test-task",
+  args: ["prompt"],
+  startedAt: "2025-01-01T00:00:00.000Z",
+  finishedAt: null,
+  error: null,
+  worktree: null,
+  subTasks: [],
+  ...overrides,
+});
+
+describe("TaskStore", () => {
+  let repositoryDir: string;
+  let taskStore: TaskStore;
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-store-"));
+    taskStore = new TaskStore(repositoryDir);
+    await taskStore.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should create the tasks directory under .cassi", async () => {
+    expect(taskStore.tasksDir).toBe(
+      path.join(repositoryDir, ".cassi", "tasks")
+    );
+    const stat = await fs.stat(taskStore.tasksDir);
+    expect(stat.isDirectory()).toBe(true);
+  });
+
+  it("should save a serialized task tree keyed by taskId", async () => {
+    const task = new Task(mockCassi, null, "arg1");
+    task.taskId = "abcd1234-test-task";
+    task.startedAt = new Date("2025-01-01T00:00:00.000Z");
+    const subTask = new Task(mockCassi, task, "sub");
+    task.addSubtask(subTask);
+
+    await taskStore.save(task);
+
+    const record = await taskStore.load("abcd1234-test-task");
+    expect(record).toEqual({
+      taskName: "Task",
+      taskId: "abcd1234-test-task",
+      args: ["arg1"],
+      startedAt: "2025-01-01T00:00:00.000Z",
+      finishedAt: null,
+      cancelled: false,
+      dryRun: false,
+      modelOverride: null,
+      output: {
+        filesChanged: [],
+        commit: null,
+        tests: null,
+        summary: null,
+        plannedEffects: [],
+      },
+      error: null,
+      worktree: null,
+      subTasks: [
+        {
+          taskName: "Task",
+          taskId: null,
+          args: ["sub"],
+          startedAt: null,
+          finishedAt: null,
+          cancelled: false,
+          dryRun: false,
+          modelOverride: null,
+          output: {
+            filesChanged: [],
+            commit: null,
+            tests: null,
+            summary: null,
+            plannedEffects: [],
+          },
+          error: null,
+          worktree: null,
+          subTasks: [],
+        },
+      ],
+    });
+  });
+
+  it("should not save tasks without a taskId", async () => {
+    const task = new Task(mockCassi);
+
+    await taskStore.save(task);
+
+    expect(await fs.readdir(taskStore.tasksDir)).toEqual([]);
+  });
+
+  it("should return null when loading a missing record", async () => {
+    expect(await taskStore.load("missing")).toBeNull();
+  });
+
+  it("should list only unfinished records", async () => {
+    await fs.writeFile(
+      path.join(taskStore.tasksDir, "one.json"),
+      JSON.stringify(makeRecord({ taskId: "one" }))
+    );
+    await fs.writeFile(
+      path.join(taskStore.tasksDir, "two.json"),
+      JSON.stringify(
+        makeRecord({ taskId: "two", finishedAt: "2025-01-01T00:01:00.000Z" })
+      )
+    );
+
+    const all = await taskStore.list();
+    const unfinished = await taskStore.listUnfinished();
+
+    expect(all).toHaveLength(2);
+    expect(unfinished.map((record) => record.taskId)).toEqual(["one"]);
+  });
+
+  it("should skip unreadable records when listing", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    await fs.writeFile(path.join(taskStore.tasksDir, "bad.json"), "{ invalid");
+    await fs.writeFile(
+      path.join(taskStore.tasksDir, "good.json"),
+      JSON.stringify(makeRecord({ taskId: "good" }))
+    );
+
+    const records = await taskStore.list();
+
+    expect(records.map((record) => record.taskId)).toEqual(["good"]);
+    expect(consoleErrorSpy).toHaveBeenCalled();
+  });
+
+  it("should return an empty list when the tasks directory does not exist", async () => {
+    const missingStore = new TaskStore(path.join(repositoryDir, "missing"));
+    expect(await missingStore.list()).toEqual([]);
+  });
+
+  it("should remove a record", async () => {
+    await fs.writeFile(
+      path.join(taskStore.tasksDir, "one.json"),
+      JSON.stringify(makeRecord({ taskId: "one" }))
+    );
+
+    await taskStore.remove("one");
+
+    expect(await taskStore.load("one")).toBeNull();
+  });
+});
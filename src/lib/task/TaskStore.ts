@@ -0,0 +1,100 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { Task } from "./Task.js";
+import type { TaskOutput } from "./TaskResult.js";
+
+export interface TaskRecord {
+  taskName: string;
+  taskId: string | null;
+  args: any[];
+  startedAt: string | null;
+  finishedAt: string | null;
+  cancelled?: boolean;
+  dryRun?: boolean;
+  modelOverride?: string | null;
+  output?: TaskOutput;
+  error: { message: string; stack?: string } | null;
+  worktree: { worktreeDir: string; repositoryBranch: string } | null;
+  subTasks: TaskRecord[];
+}
+
+/**
+ * Persists task trees under `.cassi/tasks` so that interrupted tasks can be
+ * resumed after a restart. Only root tasks with a taskId are stored.
+ */
+export class TaskStore {
+  public readonly tasksDir: string;
+
+  constructor(repositoryDir: string) {
+    this.tasksDir = path.join(path.resolve(repositoryDir), ".cassi", "tasks");
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.tasksDir, { recursive: true });
+  }
+
+  private getRecordPath(taskId: string): string {
+    return path.join(this.tasksDir, `${taskId}.json`);
+  }
+
+  async save(task: Task): Promise<void> {
+    if (!task.taskId) {
+      return;
+    }
+    await fs.mkdir(this.tasksDir, { recursive: true });
+    await fs.writeFile(
+      this.getRecordPath(task.taskId),
+      JSON.stringify(task.serialize(), null, 2),
+      "utf-8"
+    );
+  }
+
+  async load(taskId: string): Promise<TaskRecord | null> {
+    try {
+      const content = await fs.readFile(this.getRecordPath(taskId), "utf-8");
+      return JSON.parse(content) as TaskRecord;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.tasksDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: TaskRecord[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const record = await this.load(path.basename(file, ".json"));
+        if (record) {
+          records.push(record);
+        }
+      } catch (error) {
+        console.error(`[TaskStore] Error reading task record ${file}:`, error);
+      }
+    }
+    return records;
+  }
+
+  async listUnfinished(): Promise<TaskRecord[]> {
+    const records = await this.list();
+    return records.filter((record) => record.finishedAt === null);
+  }
+
+  async remove(taskId: string): Promise<void> {
+    await fs.rm(this.getRecordPath(taskId), { force: true });
+  }
+}
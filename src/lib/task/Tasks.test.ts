@@ -5,6 +5,8 @@ import { Tasks } from "./Tasks.js";
 import { Task } from "./Task.js";
 import fs from "fs/promises";
 import type { Cassi } from "../cassi/Cassi.js";
+import type { TaskRecord } from "./TaskStore.js";
+import { Review } from "./tasks/Review.js";
 
 class MockTask extends Task {
   async run() {}
@@ -182,4 +184,92 @@ describe("Tasks", () => {
       expect((taskInstance2 as MockTaskWithArgs).arg2).toBe(arg2);
     });
   });
+
+  describe("restoreTask", () => {
+    const addWorktree = vi.fn();
+    const restoreCassi = {
+      repository: {
+        repositoryDir: "/repo",
+        fileInfo: {},
+        addWorktree,
+      },
+    } as unknown as Cassi;
+
+    const record: TaskRecord = {
+      taskName: "MockTaskWithArgs",
+      taskId: "abcd1234-restore",
+      args: ["a", "b"],
+      startedAt: "2025-01-01T00:00:00.000Z",
+      finishedAt: null,
+      error: null,
+      worktree: {
+        worktreeDir: "/repo/.cassi/worktrees/abcd1234-restore",
+        repositoryBranch: "main",
+      },
+      subTasks: [
+        {
+          taskName: "MockTask",
+          taskId: null,
+          args: [],
+          startedAt: "2025-01-01T00:00:01.000Z",
+          finishedAt: "2025-01-01T00:00:02.000Z",
+          error: { message: "failed" },
+          worktree: null,
+          subTasks: [],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      tasks = new Tasks(restoreCassi);
+      tasks.availableTasks.set("MockTask", MockTask);
+      tasks.availableTasks.set("MockTaskWithArgs", MockTaskWithArgs);
+    });
+
+    it("should rebuild the task tree from a record", () => {
+      const task = tasks.restoreTask(record) as MockTaskWithArgs;
+
+      expect(task).toBeInstanceOf(MockTaskWithArgs);
+      expect(task.arg1).toBe("a");
+      expect(task.arg2).toBe("b");
+      expect(task.taskId).toBe("abcd1234-restore");
+      expect(task.resumed).toBe(true);
+      expect(task.startedAt).toBeNull();
+      expect(task.finishedAt).toBeNull();
+      expect(task.subTasks).toHaveLength(1);
+
+      const subTask = task.subTasks[0];
+      expect(subTask).toBeInstanceOf(MockTask);
+      expect(subTask.parentTask).toBe(task);
+      expect(subTask.resumed).toBe(true);
+      expect(subTask.startedAt).toEqual(new Date("2025-01-01T00:00:01.000Z"));
+      expect(subTask.finishedAt).toEqual(new Date("2025-01-01T00:00:02.000Z"));
+      expect(subTask.error?.message).toBe("failed");
+    });
+
+    it("should restore the round of a nested review", () => {
+      tasks.availableTasks.set("Review", Review);
+      const review = new Review(restoreCassi, null, "Add Foo");
+      review.addSubtask(new Review(restoreCassi, review, "Add Foo", 2));
+
+      const restored = tasks.restoreTask(
+        JSON.parse(JSON.stringify(review.serialize()))
+      );
+
+      const nested = restored.subTasks[0] as Review;
+      expect(nested).toBeInstanceOf(Review);
+      expect(nested.prompt).toBe("Add Foo");
+      expect(nested.round).toBe(2);
+    });
+
+    it("should reattach the stored worktree", () => {
+      const task = tasks.restoreTask(record);
+
+      expect(task.worktree?.worktreeDir).toBe(
+        path.join("/repo", ".cassi", "worktrees", "abcd1234-restore")
+      );
+      expect(task.worktree?.repositoryBranch).toBe("main");
+      expect(addWorktree).toHaveBeenCalledWith(task.worktree);
+    });
+  });
 });
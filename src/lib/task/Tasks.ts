@@ -2,7 +2,9 @@ import fs from "fs/promises";
 import path, { dirname } from "path";
 import { fileURLToPath } from "url";
 import { Task } from "./Task.js";
+import type { TaskRecord } from "./TaskStore.js";
 import type { Cassi } from "../cassi/Cassi.js";
+import { Worktree } from "../repository/Worktree.js";
 
 export class Tasks {
   public availableTasks: Map<string, typeof Task> = new Map();
@@ -55,4 +57,40 @@ export class Tasks {
     }
     return new TaskClass(this.cassi, parentTask, ...args);
   }
+
+  /**
+   * Rebuilds a task tree from a stored record, reattaching existing worktrees.
+   * Restored tasks are marked as resumed so that completed subtasks are skipped.
+   * @param record The stored task record.
+   * @param parentTask The parent of the restored task, if any.
+   * @returns The restored Task instance.
+   */
+  restoreTask(record: TaskRecord, parentTask?: Task): Task {
+    const task = this.newTask(record.taskName, parentTask, ...record.args);
+    task.resumed = true;
+    task.taskId = record.taskId;
+    task.finishedAt = record.finishedAt ? new Date(record.finishedAt) : null;
+    task.startedAt =
+      task.finishedAt && record.startedAt ? new Date(record.startedAt) : null;
+    task.error = record.error ? new Error(record.error.message) : null;
+    task.cancelled = record.cancelled ?? false;
+    task.dryRun = record.dryRun ?? false;
+    task.modelOverride = record.modelOverride ?? null;
+    if (record.output) {
+      task.output = record.output;
+    }
+
+    if (record.worktree) {
+      const repository = this.cassi.repository;
+      const worktree = new Worktree(repository, task, repository.fileInfo);
+      worktree.repositoryBranch = record.worktree.repositoryBranch;
+      repository.addWorktree(worktree);
+      task.worktree = worktree;
+    }
+
+    task.subTasks = record.subTasks.map((subTaskRecord) =>
+      this.restoreTask(subTaskRecord, task)
+    );
+    return task;
+  }
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import path from "path";
+import { Ask } from "./Ask.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Task } from "../Task.js";
+import { Worktree } from "../../repository/Worktree.js";
+import Message from "../../prompt/prompts/Message.js";
+
+vi.mock("../../cassi/Cassi.js");
+
+describe("Ask Task", () => {
+  let mockCassi: Cassi;
+  let mockGenerate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockCassi = {
+      repository: { repositoryDir: "/mock/repo" },
+      user: { prompt: vi.fn().mockResolvedValue(undefined) },
+    } as unknown as Cassi;
+    mockGenerate = vi.fn().mockResolvedValue("It is used in Code.ts.");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should generate an answer with the Ask model and show it to the user", async () => {
+    const askTask = new Ask(mockCassi, null, "Where is Foo used?");
+    askTask.newModel = vi.fn().mockReturnValue({ generate: mockGenerate });
+
+    await askTask.initTask();
+
+    expect(askTask.newModel).toHaveBeenCalledWith("Ask");
+    expect(mockGenerate).toHaveBeenCalledWith({
+      prompt: "Where is Foo used?",
+    });
+    expect(askTask.answer).toBe("It is used in Code.ts.");
+    expect(askTask.output.summary).toBe("It is used in Code.ts.");
+    const prompt = vi.mocked(mockCassi.user.prompt).mock.calls[0][0];
+    expect(prompt).toBeInstanceOf(Message);
+    expect((prompt as Message).message).toBe("It is used in Code.ts.");
+  });
+
+  it("should tell the user when no answer was generated", async () => {
+    const askTask = new Ask(mockCassi, null, "Where is Foo used?");
+    mockGenerate.mockResolvedValue("");
+    askTask.newModel = vi.fn().mockReturnValue({ generate: mockGenerate });
+
+    await askTask.initTask();
+
+    const prompt = vi.mocked(mockCassi.user.prompt).mock.calls[0][0];
+    expect((prompt as Message).message).toBe("No answer was generated.");
+  });
+
+  it("should use the main repository as cwd without a worktree", () => {
+    const parentTask = new Task(mockCassi);
+    const askTask = new Ask(mockCassi, parentTask, "question");
+
+    expect(askTask.getCwd()).toBe(path.resolve("/mock/repo"));
+  });
+
+  it("should use the worktree of a parent task when there is one", () => {
+    const parentTask = new Task(mockCassi);
+    parentTask.worktree = {
+      worktreeDir: "/mock/repo/.cassi/worktrees/abcd1234",
+    } as Worktree;
+    const askTask = new Ask(mockCassi, parentTask, "question");
+
+    expect(askTask.getCwd()).toBe("/mock/repo/.cassi/worktrees/abcd1234");
+  });
+});
@@ -0,0 +1,42 @@
+import path from "path";
+import { Task } from "../Task.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Ask as AskModel } from "../../model/models/Ask.js";
+import Message from "../../prompt/prompts/Message.js";
+
+/**
+ * Answers a question about the code. Runs read-only tools against the main
+ * repository, or the worktree of a parent task, and never creates a worktree.
+ */
+export class Ask extends Task {
+  public prompt: string;
+  public answer: string | null = null;
+
+  constructor(cassi: Cassi, parentTask: Task | null, prompt: string) {
+    super(cassi, parentTask, prompt);
+    this.prompt = prompt;
+  }
+
+  getCwd(): string {
+    try {
+      return this.worktreeDir();
+    } catch (e) {
+      return path.resolve(this.cassi.repository.repositoryDir);
+    }
+  }
+
+  public async initTask(): Promise<void> {
+    const modelInstance = this.newModel("Ask") as AskModel;
+
+    const generateOptions = {
+      prompt: this.prompt,
+    };
+
+    this.answer = await modelInstance.generate(generateOptions);
+    this.output.summary = this.answer || null;
+
+    await this.cassi.user.prompt(
+      new Message(this.answer || "No answer was generated.")
+    );
+  }
+}
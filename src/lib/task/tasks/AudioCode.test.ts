@@ -6,7 +6,9 @@ import { Coder } from "./Coder.js";
 import { Tester } from "./Tester.js";
 import { RequirePassingTests } from "./RequirePassingTests.js";
 import { GitCommitMerge } from "./GitCommitMerge.js";
+import { Ask } from "./Ask.js";
 import { Task } from "../Task.js";
+import { Workflows } from "../../workflow/Workflows.js";
 
 vi.mock("../../cassi/Cassi.js");
 vi.mock("../../model/models/EvaluateAudioCodePrompt.js");
@@ -14,6 +16,7 @@ vi.mock("./Coder.js");
 vi.mock("./Tester.js");
 vi.mock("./RequirePassingTests.js");
 vi.mock("./GitCommitMerge.js");
+vi.mock("./Ask.js");
 vi.mock("../Task.js", async () => {
   const actual = await vi.importActual("../Task.js");
   const BaseTask = actual.Task as any;
@@ -52,6 +55,21 @@ describe("AudioCode Task", () => {
     cassi.repository = {
       remWorktree: vi.fn().mockResolvedValue(undefined),
     } as any;
+    const subtaskClasses: Record<string, any> = {
+      Coder,
+      Tester,
+      RequirePassingTests,
+      GitCommitMerge,
+    };
+    cassi.task = {
+      availableTasks: new Map(),
+      newTask: vi.fn(
+        (name: string, parent: Task, ...args: any[]) =>
+          new subtaskClasses[name](cassi, parent, ...args)
+      ),
+    } as any;
+    cassi.config = { configData: null } as any;
+    cassi.workflows = new Workflows(cassi);
     parentTask = null;
     audioCodeTask = new AudioCode(cassi, parentTask, testAudioBase64);
 
@@ -74,11 +92,9 @@ describe("AudioCode Task", () => {
     const mockEvaluation = {
       summary: "test summary",
       modifiesFiles: true,
-      steps: ["step 1", "step 2"],
+      transcription: "add a feature",
     };
-    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(
-      JSON.stringify(mockEvaluation)
-    );
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(mockEvaluation);
     const initFileTaskSpy = vi.spyOn(audioCodeTask as any, "initFileTask");
 
     await audioCodeTask.initTask();
@@ -104,15 +120,36 @@ describe("AudioCode Task", () => {
     );
   });
 
-  it("should not add subtasks when modifiesFiles is false", async () => {
+  it("should add the subtasks of the requested workflow with the transcription", async () => {
+    cassi.workflows.workflows.set("quick", {
+      name: "quick",
+      steps: [{ task: "Coder", args: ["{{prompt}}"] }],
+    });
+    audioCodeTask = new AudioCode(cassi, parentTask, testAudioBase64, "quick");
+    vi.spyOn(audioCodeTask, "newModel").mockReturnValue(mockEvaluateModel);
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue({
+      summary: "test summary",
+      modifiesFiles: true,
+      transcription: "add a feature",
+    });
+
+    await audioCodeTask.initTask();
+
+    expect(cassi.task.newTask).toHaveBeenCalledWith(
+      "Coder",
+      audioCodeTask,
+      "add a feature"
+    );
+    expect(audioCodeTask.addSubtask).toHaveBeenCalledTimes(1);
+  });
+
+  it("should add an Ask subtask when modifiesFiles is false", async () => {
     const mockEvaluation = {
       summary: "no file changes",
       modifiesFiles: false,
-      steps: [],
+      transcription: "what does this do",
     };
-    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(
-      JSON.stringify(mockEvaluation)
-    );
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(mockEvaluation);
     const initFileTaskSpy = vi.spyOn(audioCodeTask as any, "initFileTask");
 
     await audioCodeTask.initTask();
@@ -125,9 +162,10 @@ describe("AudioCode Task", () => {
     );
     expect(audioCodeTask.evaluation).toEqual(mockEvaluation);
     expect(initFileTaskSpy).not.toHaveBeenCalled();
-    expect(audioCodeTask.addSubtask).not.toHaveBeenCalled();
+    expect(audioCodeTask.addSubtask).toHaveBeenCalledTimes(1);
+    expect(audioCodeTask.addSubtask).toHaveBeenCalledWith(expect.any(Ask));
     expect(consoleLogSpy).toHaveBeenCalledWith(
-      "Model response indicates no file modifications. Only file modification tasks are currently supported."
+      "Model response indicates no file modifications. Answering as a question."
     );
   });
 
@@ -135,7 +173,20 @@ describe("AudioCode Task", () => {
     it("should call cassi.repository.remWorktree with taskId if taskId exists", async () => {
       audioCodeTask.taskId = "test-task-id";
       await audioCodeTask.cleanupTask();
-      expect(cassi.repository.remWorktree).toHaveBeenCalledWith("test-task-id");
+      expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
+        "test-task-id",
+        false
+      );
+    });
+
+    it("should force the removal of the worktree of a cancelled task", async () => {
+      audioCodeTask.taskId = "test-task-id";
+      audioCodeTask.cancel();
+      await audioCodeTask.cleanupTask();
+      expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
+        "test-task-id",
+        true
+      );
     });
 
     it("should not call cassi.repository.remWorktree if taskId is null", async () => {
@@ -158,7 +209,8 @@ describe("AudioCode Task", () => {
         remWorktreeError
       );
       expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
-        "test-task-id-error"
+        "test-task-id-error",
+        false
       );
     });
   });
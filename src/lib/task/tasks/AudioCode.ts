@@ -1,25 +1,34 @@
 import { Task } from "../Task.js";
 import { Cassi } from "../../cassi/Cassi.js";
-import { EvaluateAudioCodePrompt } from "../../model/models/EvaluateAudioCodePrompt.js";
+import {
+  EvaluateAudioCodePrompt,
+  AudioCodePromptEvaluation,
+} from "../../model/models/EvaluateAudioCodePrompt.js";
 import { GenerateModelOptions } from "../../model/Models.js";
-import { Coder } from "./Coder.js";
-import { Tester } from "./Tester.js";
-import { RequirePassingTests } from "./RequirePassingTests.js";
-import { GitCommitMerge } from "./GitCommitMerge.js";
-import { gemini20Flash } from "@genkit-ai/googleai";
+import { Ask } from "./Ask.js";
 
 export class AudioCode extends Task {
   public audioBase64: string;
-  public evaluation: any;
+  public evaluation: AudioCodePromptEvaluation | null = null;
   public taskId: string | null = null;
+  public concurrent: boolean = true;
+  public workflow: string | null;
 
-  constructor(cassi: Cassi, parentTask: Task | null, audioBase64: string) {
-    super(cassi, parentTask);
+  constructor(
+    cassi: Cassi,
+    parentTask: Task | null,
+    audioBase64: string,
+    workflow: string | null = null
+  ) {
+    super(cassi, parentTask, audioBase64, workflow);
     this.audioBase64 = audioBase64;
+    this.workflow = workflow;
   }
 
-  private async initFileTask(): Promise<void> {
-    this.setTaskId(this.evaluation.summary);
+  private async initFileTask(
+    evaluation: AudioCodePromptEvaluation
+  ): Promise<void> {
+    this.setTaskId(evaluation.summary);
 
     if (!this.taskId) {
       throw new Error("Task ID was not set");
@@ -27,10 +36,9 @@ export class AudioCode extends Task {
 
     await this.initWorktree();
 
-    this.addSubtask(new Coder(this.cassi, this, this.evaluation.transcription));
-    this.addSubtask(new Tester(this.cassi, this, ""));
-    this.addSubtask(new RequirePassingTests(this.cassi, this));
-    this.addSubtask(new GitCommitMerge(this.cassi, this));
+    this.cassi.workflows.addSubtasks(this, this.workflow, {
+      prompt: evaluation.transcription,
+    });
   }
 
   public async initTask(): Promise<void> {
@@ -40,27 +48,26 @@ export class AudioCode extends Task {
     ) as EvaluateAudioCodePrompt;
 
     const generateOptions = {
-      model: gemini20Flash,
       audioBase64: this.audioBase64,
     };
 
-    const evaluationJson = await evaluateModel.generate(generateOptions);
+    this.evaluation = await evaluateModel.generate(generateOptions);
 
-    this.evaluation = JSON.parse(evaluationJson);
-
-    if (this.evaluation.modifiesFiles === true) {
-      await this.initFileTask();
+    if (this.evaluation.modifiesFiles) {
+      await this.initFileTask(this.evaluation);
     } else {
       console.log(
-        "Model response indicates no file modifications. Only file modification tasks are currently supported."
+        "Model response indicates no file modifications. Answering as a question."
       );
+      this.addSubtask(new Ask(this.cassi, this, this.evaluation.transcription));
     }
     console.log("[AudioCode Task] Finished initTask");
   }
 
   public async cleanupTask(): Promise<void> {
     if (this.taskId) {
-      await this.cassi.repository.remWorktree(this.taskId);
+      // a cancelled task discards its changes along with its worktree and branch
+      await this.cassi.repository.remWorktree(this.taskId, this.isCancelled());
     } else {
       console.log(
         "[AudioCode Task] No taskId found for cleanup, skipping worktree removal."
@@ -6,7 +6,9 @@ import { Coder } from "./Coder.js";
 import { Tester } from "./Tester.js";
 import { RequirePassingTests } from "./RequirePassingTests.js";
 import { GitCommitMerge } from "./GitCommitMerge.js";
+import { Ask } from "./Ask.js";
 import { Task } from "../Task.js";
+import { Workflows } from "../../workflow/Workflows.js";
 
 vi.mock("../../cassi/Cassi.js");
 vi.mock("../../model/models/EvaluateCodePrompt.js");
@@ -14,6 +16,7 @@ vi.mock("./Coder.js");
 vi.mock("./Tester.js");
 vi.mock("./RequirePassingTests.js");
 vi.mock("./GitCommitMerge.js");
+vi.mock("./Ask.js");
 vi.mock("../Task.js", async () => {
   const actual = await vi.importActual("../Task.js");
   const BaseTask = actual.Task as any;
@@ -50,6 +53,21 @@ describe("Code Task", () => {
     cassi.repository = {
       remWorktree: vi.fn().mockResolvedValue(undefined),
     } as any;
+    const subtaskClasses: Record<string, any> = {
+      Coder,
+      Tester,
+      RequirePassingTests,
+      GitCommitMerge,
+    };
+    cassi.task = {
+      availableTasks: new Map(),
+      newTask: vi.fn(
+        (name: string, parent: Task, ...args: any[]) =>
+          new subtaskClasses[name](cassi, parent, ...args)
+      ),
+    } as any;
+    cassi.config = { configData: null } as any;
+    cassi.workflows = new Workflows(cassi);
     parentTask = null;
     codeTask = new Code(cassi, parentTask, "test prompt");
 
@@ -74,9 +92,7 @@ describe("Code Task", () => {
       modifiesFiles: true,
       steps: ["step 1", "step 2"],
     };
-    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(
-      JSON.stringify(mockEvaluation)
-    );
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(mockEvaluation);
     const initFileTaskSpy = vi.spyOn(codeTask as any, "initFileTask");
 
     await codeTask.initTask();
@@ -100,15 +116,38 @@ describe("Code Task", () => {
     );
   });
 
-  it("should not add subtasks when modifiesFiles is false", async () => {
+  it("should add the subtasks of the requested workflow with the prompt", async () => {
+    cassi.workflows.workflows.set("quick", {
+      name: "quick",
+      steps: [{ task: "Coder", args: ["Fix: {{prompt}}"] }],
+    });
+    codeTask = new Code(cassi, parentTask, "test prompt", "quick");
+    vi.spyOn(codeTask, "newModel").mockReturnValue(mockEvaluateModel);
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue({
+      summary: "test summary",
+      modifiesFiles: true,
+    });
+
+    await codeTask.initTask();
+
+    expect(codeTask.args).toEqual(["test prompt", "quick"]);
+    expect(cassi.task.newTask).toHaveBeenCalledTimes(1);
+    expect(cassi.task.newTask).toHaveBeenCalledWith(
+      "Coder",
+      codeTask,
+      "Fix: test prompt"
+    );
+    expect(codeTask.addSubtask).toHaveBeenCalledTimes(1);
+    expect(codeTask.addSubtask).toHaveBeenCalledWith(expect.any(Coder));
+  });
+
+  it("should add an Ask subtask when modifiesFiles is false", async () => {
     const mockEvaluation = {
       summary: "no file changes",
       modifiesFiles: false,
       steps: [],
     };
-    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(
-      JSON.stringify(mockEvaluation)
-    );
+    vi.spyOn(mockEvaluateModel, "generate").mockResolvedValue(mockEvaluation);
     const initFileTaskSpy = vi.spyOn(codeTask as any, "initFileTask");
 
     await codeTask.initTask();
@@ -119,9 +158,11 @@ describe("Code Task", () => {
     );
     expect(codeTask.evaluation).toEqual(mockEvaluation);
     expect(initFileTaskSpy).not.toHaveBeenCalled();
-    expect(codeTask.addSubtask).not.toHaveBeenCalled();
+    expect(codeTask.addSubtask).toHaveBeenCalledTimes(1);
+    expect(codeTask.addSubtask).toHaveBeenCalledWith(expect.any(Ask));
+    expect(Ask).toHaveBeenCalledWith(cassi, codeTask, "test prompt");
     expect(consoleLogSpy).toHaveBeenCalledWith(
-      "Model response indicates no file modifications. Only file modification tasks are currently supported."
+      "Model response indicates no file modifications. Answering as a question."
     );
   });
 
@@ -129,7 +170,20 @@ describe("Code Task", () => {
     it("should call cassi.repository.remWorktree with taskId if taskId exists", async () => {
       codeTask.taskId = "test-task-id";
       await codeTask.cleanupTask();
-      expect(cassi.repository.remWorktree).toHaveBeenCalledWith("test-task-id");
+      expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
+        "test-task-id",
+        false
+      );
+    });
+
+    it("should force the removal of the worktree of a cancelled task", async () => {
+      codeTask.taskId = "test-task-id";
+      codeTask.cancel();
+      await codeTask.cleanupTask();
+      expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
+        "test-task-id",
+        true
+      );
     });
 
     it("should not call cassi.repository.remWorktree if taskId is null", async () => {
@@ -150,7 +204,8 @@ describe("Code Task", () => {
 
       await expect(codeTask.cleanupTask()).rejects.toThrow(remWorktreeError);
       expect(cassi.repository.remWorktree).toHaveBeenCalledWith(
-        "test-task-id-error"
+        "test-task-id-error",
+        false
       );
     });
   });
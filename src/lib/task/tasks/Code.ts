@@ -1,25 +1,32 @@
 import { Task } from "../Task.js";
 import { Cassi } from "../../cassi/Cassi.js";
-import { EvaluateCodePrompt } from "../../model/models/EvaluateCodePrompt.js";
+import {
+  EvaluateCodePrompt,
+  CodePromptEvaluation,
+} from "../../model/models/EvaluateCodePrompt.js";
 import { GenerateModelOptions } from "../../model/Models.js";
-import { Coder } from "./Coder.js";
-import { Tester } from "./Tester.js";
-import { RequirePassingTests } from "./RequirePassingTests.js";
-import { GitCommitMerge } from "./GitCommitMerge.js";
-import { gemini20Flash } from "@genkit-ai/googleai";
+import { Ask } from "./Ask.js";
 
 export class Code extends Task {
   public prompt: string;
-  public evaluation: any;
+  public evaluation: CodePromptEvaluation | null = null;
   public taskId: string | null = null;
+  public concurrent: boolean = true;
+  public workflow: string | null;
 
-  constructor(cassi: Cassi, parentTask: Task | null, prompt: string) {
-    super(cassi, parentTask);
+  constructor(
+    cassi: Cassi,
+    parentTask: Task | null,
+    prompt: string,
+    workflow: string | null = null
+  ) {
+    super(cassi, parentTask, prompt, workflow);
     this.prompt = prompt;
+    this.workflow = workflow;
   }
 
-  private async initFileTask(): Promise<void> {
-    this.setTaskId(this.evaluation.summary);
+  private async initFileTask(evaluation: CodePromptEvaluation): Promise<void> {
+    this.setTaskId(evaluation.summary);
 
     if (!this.taskId) {
       throw new Error("Task ID was not set");
@@ -27,10 +34,9 @@ export class Code extends Task {
 
     await this.initWorktree();
 
-    this.addSubtask(new Coder(this.cassi, this, this.prompt));
-    this.addSubtask(new Tester(this.cassi, this, ""));
-    this.addSubtask(new RequirePassingTests(this.cassi, this));
-    this.addSubtask(new GitCommitMerge(this.cassi, this));
+    this.cassi.workflows.addSubtasks(this, this.workflow, {
+      prompt: this.prompt,
+    });
   }
 
   public async initTask(): Promise<void> {
@@ -40,27 +46,26 @@ export class Code extends Task {
     ) as EvaluateCodePrompt;
 
     const generateOptions: GenerateModelOptions = {
-      model: gemini20Flash,
       prompt: this.prompt,
     };
 
-    const evaluationJson = await evaluateModel.generate(generateOptions);
-
-    this.evaluation = JSON.parse(evaluationJson);
+    this.evaluation = await evaluateModel.generate(generateOptions);
 
-    if (this.evaluation.modifiesFiles === true) {
-      await this.initFileTask();
+    if (this.evaluation.modifiesFiles) {
+      await this.initFileTask(this.evaluation);
     } else {
       console.log(
-        "Model response indicates no file modifications. Only file modification tasks are currently supported."
+        "Model response indicates no file modifications. Answering as a question."
       );
+      this.addSubtask(new Ask(this.cassi, this, this.prompt));
     }
     console.log("[Code Task] Finished initTask");
   }
 
   public async cleanupTask(): Promise<void> {
     if (this.taskId) {
-      await this.cassi.repository.remWorktree(this.taskId);
+      // a cancelled task discards its changes along with its worktree and branch
+      await this.cassi.repository.remWorktree(this.taskId, this.isCancelled());
     } else {
       console.log(
         "[Code Task] No taskId found for cleanup, skipping worktree removal."
@@ -3,7 +3,6 @@ import { Coder } from "./Coder.js";
 import { Cassi } from "../../cassi/Cassi.js";
 import { Task } from "../Task.js";
 import { User } from "../../user/User.js";
-import { gemini25ProPreview0325 } from "@genkit-ai/googleai";
 
 vi.mock("../../cassi/Cassi");
 vi.mock("../../user/User");
@@ -30,7 +29,11 @@ describe("Coder Task", () => {
     expect(coderTask.prompt).toBe(testPrompt);
     expect(coderTask).toBeInstanceOf(Task);
     expect(MockTask).toHaveBeenCalledTimes(1);
-    expect(MockTask).toHaveBeenCalledWith(mockCassi, mockParentTask);
+    expect(MockTask).toHaveBeenCalledWith(
+      mockCassi,
+      mockParentTask,
+      testPrompt
+    );
   });
 
   it("should have an initTask method", async () => {
@@ -48,15 +51,23 @@ describe("Coder Task", () => {
     };
     coderTask.newModel = vi.fn().mockReturnValue(mockCoderModelInstance);
 
+    coderTask.output = {
+      filesChanged: [],
+      commit: null,
+      tests: null,
+      summary: null,
+      plannedEffects: [],
+    };
+
     expect(coderTask.initTask).toBeDefined();
 
     await expect(coderTask.initTask()).resolves.toBeUndefined();
+    expect(coderTask.output.summary).toBe("mock generated code");
 
     expect(coderTask.newModel).toHaveBeenCalledWith("Coder");
 
     expect(mockGenerate).toHaveBeenCalledWith(
       expect.objectContaining({
-        model: gemini25ProPreview0325,
         prompt: testPrompt,
       })
     );
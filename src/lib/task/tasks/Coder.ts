@@ -1,13 +1,12 @@
 import { Task } from "../Task.js";
 import { Cassi } from "../../cassi/Cassi.js";
 import { Coder as CoderModel } from "../../model/models/Coder.js";
-import { gemini25ProPreview0325 } from "@genkit-ai/googleai";
 
 export class Coder extends Task {
   public prompt: string;
 
   constructor(cassi: Cassi, parentTask: Task | null, prompt: string) {
-    super(cassi, parentTask);
+    super(cassi, parentTask, prompt);
     this.prompt = prompt;
   }
 
@@ -15,10 +14,10 @@ export class Coder extends Task {
     const modelInstance = this.newModel("Coder") as CoderModel;
 
     const generateOptions = {
-      model: gemini25ProPreview0325,
       prompt: this.prompt,
     };
 
-    await modelInstance.generate(generateOptions);
+    const summary = await modelInstance.generate(generateOptions);
+    this.output.summary = summary || null;
   }
 }
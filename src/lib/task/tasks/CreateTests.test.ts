@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreateTests, getTestFile, getTestableFiles } from "./CreateTests.js";
+import { Cassi } from "../../cassi/Cassi.js";
+
+describe("CreateTests Task", () => {
+  let mockGenerate: ReturnType<typeof vi.fn>;
+  let mockInvoke: ReturnType<typeof vi.fn>;
+  let changedFiles: string[];
+  let task: CreateTests;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    changedFiles = ["README.md", "src/foo.ts", "src/bar.ts", "src/foo.test.ts"];
+    mockGenerate = vi.fn().mockResolvedValue("Added tests");
+    mockInvoke = vi.fn(async (toolName: string, method: string) =>
+      toolName === "git" ? changedFiles : ["src/foo.test.ts"]
+    );
+    task = new CreateTests({} as Cassi, null, "Add Foo");
+    task.newModel = vi.fn().mockReturnValue({ generate: mockGenerate });
+    task.invoke = mockInvoke;
+    task.getCwd = vi.fn().mockReturnValue("/mock/cwd");
+    task.getWorkTree = vi
+      .fn()
+      .mockReturnValue({ repositoryBranch: "main" } as any);
+  });
+
+  it("should only test TypeScript source files", () => {
+    expect(
+      getTestableFiles(["a.ts", "a.test.ts", "types.d.ts", "b.json", "c.tsx"])
+    ).toEqual(["a.ts"]);
+    expect(getTestFile("src/lib/a.ts")).toBe("src/lib/a.test.ts");
+  });
+
+  it("should write tests for each source file changed relative to the repository branch", async () => {
+    await task.initTask();
+
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "changedFiles",
+      ["/mock/cwd"],
+      ["main"]
+    );
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "fs",
+      "glob",
+      [],
+      [["src/foo.test.ts", "src/bar.test.ts"], { cwd: "/mock/cwd" }]
+    );
+    expect(task.files).toEqual(["src/foo.ts", "src/bar.ts"]);
+    expect(task.newModel).toHaveBeenCalledTimes(2);
+    expect(task.newModel).toHaveBeenCalledWith("CreateTests");
+
+    const fooPrompt = mockGenerate.mock.calls[0][0].prompt;
+    expect(fooPrompt).toContain("behavior of src/foo.ts");
+    expect(fooPrompt).toContain("existing test file src/foo.test.ts");
+    expect(fooPrompt).toContain("RunTestFile");
+    expect(fooPrompt).toContain("request:\nAdd Foo");
+    const barPrompt = mockGenerate.mock.calls[1][0].prompt;
+    expect(barPrompt).toContain("create the test file src/bar.test.ts");
+
+    expect(task.output.summary).toBe(
+      "src/foo.ts: Added tests\nsrc/bar.ts: Added tests"
+    );
+  });
+
+  it("should do nothing without changed source files", async () => {
+    changedFiles = ["README.md", "src/foo.test.ts"];
+
+    await task.initTask();
+
+    expect(task.newModel).not.toHaveBeenCalled();
+    expect(mockInvoke).toHaveBeenCalledTimes(1);
+    expect(task.output.summary).toBeNull();
+  });
+});
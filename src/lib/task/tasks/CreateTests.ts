@@ -0,0 +1,88 @@
+import { Task } from "../Task.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { CreateTests as CreateTestsModel } from "../../model/models/CreateTests.js";
+
+/**
+ * Returns the changed TypeScript source files that tests can be written
+ * for, leaving out test files and declaration files.
+ */
+export const getTestableFiles = (files: string[]): string[] =>
+  files.filter(
+    (file) =>
+      file.endsWith(".ts") &&
+      !file.endsWith(".test.ts") &&
+      !file.endsWith(".d.ts")
+  );
+
+/**
+ * Returns the vitest file for a source file, placed next to it.
+ */
+export const getTestFile = (file: string): string =>
+  file.replace(/\.ts$/, ".test.ts");
+
+/**
+ * Writes tests for the source files changed in the worktree relative to the
+ * repository branch. The CreateTests model runs once per file and adds the
+ * tests to the matching test file, creating it if it does not exist yet.
+ */
+export class CreateTests extends Task {
+  public prompt: string;
+  public files: string[] = [];
+
+  constructor(cassi: Cassi, parentTask: Task | null, prompt: string = "") {
+    super(cassi, parentTask, prompt);
+    this.prompt = prompt;
+  }
+
+  private filePrompt(file: string, testFileExists: boolean): string {
+    const testFile = getTestFile(file);
+    return `Write tests for the new and changed behavior of ${file}. ${
+      testFileExists
+        ? `Add the tests to the existing test file ${testFile}.`
+        : `The file has no tests yet, create the test file ${testFile}.`
+    } Run the tests with RunTestFile and make sure they pass.${
+      this.prompt
+        ? `
+
+The file was changed for the following request:
+${this.prompt}`
+        : ""
+    }`;
+  }
+
+  async initTask(): Promise<void> {
+    const changedFiles = (await this.invoke(
+      "git",
+      "changedFiles",
+      [this.getCwd()],
+      [this.getWorkTree().repositoryBranch]
+    )) as string[];
+    this.files = getTestableFiles(changedFiles);
+    if (this.files.length === 0) {
+      console.log("[CreateTests Task] No changed source files to test");
+      return;
+    }
+
+    const existingTestFiles = new Set(
+      (await this.invoke(
+        "fs",
+        "glob",
+        [],
+        [this.files.map(getTestFile), { cwd: this.getCwd() }]
+      )) as string[]
+    );
+
+    const summaries: string[] = [];
+    for (const file of this.files) {
+      console.log(`[CreateTests Task] Writing tests for ${file}`);
+      const model = this.newModel("CreateTests") as CreateTestsModel;
+      const summary = await model.generate({
+        prompt: this.filePrompt(file, existingTestFiles.has(getTestFile(file))),
+      });
+      if (summary) {
+        summaries.push(`${file}: ${summary}`);
+      }
+    }
+    this.output.summary = summaries.join("\n") || null;
+  }
+}
@@ -7,7 +7,6 @@ import { CommitMessage } from "../../model/models/CommitMessage.js";
 import { Prompt } from "../../prompt/Prompt.js";
 import Confirm from "../../prompt/prompts/Confirm.js";
 import { User } from "../../user/User.js";
-import { gemini25FlashPreview0417 } from "@genkit-ai/googleai";
 
 const consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 vi.spyOn(console, "error").mockImplementation(() => {});
@@ -17,9 +16,12 @@ const mockUser = {
   prompt: mockUserPrompt,
 } as unknown as User;
 
+const mockWithLock = vi.fn((fn: () => Promise<any>) => fn());
+
 const mockCassi = {
   user: mockUser,
-} as Cassi;
+  repository: { repositoryDir: "/repo", withLock: mockWithLock },
+} as unknown as Cassi;
 
 describe("GitCommitMerge", () => {
   let task: GitCommitMerge;
@@ -45,6 +47,7 @@ describe("GitCommitMerge", () => {
   const mockGeneratedMessage = "feat: Update file.txt\n\n- Made changes";
   const mockRepositoryBranch = "main";
   const mockRebaseResult = "Successfully rebased and updated refs/heads/main.";
+  const mockCommitSha = "0123456789abcdef";
   const mockMergeResult = "Merge made by the 'recursive' strategy.";
   const mockRebaseConflictResult =
     "CONFLICT (content): Merge conflict in file.txt";
@@ -93,6 +96,7 @@ describe("GitCommitMerge", () => {
     await task.initTask();
 
     expect(mockUserPrompt).not.toHaveBeenCalled();
+    expect(task.output.commit).toBeNull();
 
     expect(mockInvoke).toHaveBeenCalledWith("git", "status", [mockCwd]);
     expect(consoleLogSpy).toHaveBeenCalledWith("No changes to commit");
@@ -105,6 +109,50 @@ describe("GitCommitMerge", () => {
     expect(mockUserPrompt).not.toHaveBeenCalled();
   });
 
+  it("should record commit, rebase and merge in a dry run with planned file changes", async () => {
+    task.dryRun = true;
+    task.output.plannedEffects.push({
+      toolName: "fs",
+      method: "writeFile",
+      toolArgs: [],
+      methodArgs: ["/mock/cwd/file.txt", "<10 chars>"],
+    });
+    mockInvoke.mockImplementation(async (tool: string, method: string) => {
+      if (tool === "git" && method === "status") return mockCleanStatus;
+      return undefined;
+    });
+
+    await task.initTask();
+
+    expect(mockNewModel).not.toHaveBeenCalled();
+    expect(mockUserPrompt).not.toHaveBeenCalled();
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "commitAll",
+      [mockCwd],
+      [`${mockTaskIdShort}: (dry run)`]
+    );
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "rebase",
+      [mockCwd],
+      [mockRepositoryBranch]
+    );
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "merge",
+      ["/repo"],
+      [mockTaskId]
+    );
+    expect(mockInvoke).not.toHaveBeenCalledWith(
+      "git",
+      "revparse",
+      expect.anything(),
+      expect.anything()
+    );
+    expect(task.output.commit).toBeNull();
+  });
+
   it("should call git diff, generate commit message, prompt, commit, rebase, and merge if status is not clean and user confirms", async () => {
     mockInvoke.mockImplementation(
       async (
@@ -139,10 +187,18 @@ describe("GitCommitMerge", () => {
         ) {
           return mockRebaseResult;
         }
+        if (
+          tool === "git" &&
+          method === "revparse" &&
+          argArray1?.[0] === mockCwd &&
+          argArray2?.[0] === "HEAD"
+        ) {
+          return mockCommitSha;
+        }
         if (
           tool === "git" &&
           method === "merge" &&
-          argArray1?.length === 0 &&
+          argArray1?.[0] === "/repo" &&
           argArray2?.[0] === mockTaskId
         ) {
           return mockMergeResult;
@@ -161,7 +217,6 @@ describe("GitCommitMerge", () => {
     expect(mockInvoke).toHaveBeenCalledWith("git", "diff", [mockCwd]);
     expect(mockNewModel).toHaveBeenCalledWith("CommitMessage");
     expect(mockGenerate).toHaveBeenCalledWith({
-      model: gemini25FlashPreview0417,
       prompt: mockDiffResult,
     });
     expect(consoleLogSpy).toHaveBeenCalledWith(
@@ -178,7 +233,7 @@ describe("GitCommitMerge", () => {
       [mockCwd],
       [`${mockTaskIdShort}: ${mockGeneratedMessage}`]
     );
-    expect(task.getCwd).toHaveBeenCalledTimes(4);
+    expect(task.getCwd).toHaveBeenCalledTimes(5);
     expect(mockGetTaskIdShort).toHaveBeenCalledTimes(1);
     expect(mockGetTaskId).toHaveBeenCalledTimes(1);
     expect(mockInvoke).toHaveBeenCalledWith(
@@ -201,10 +256,21 @@ describe("GitCommitMerge", () => {
       [mockCwd],
       [mockRepositoryBranch]
     );
-    expect(mockInvoke).toHaveBeenCalledWith("git", "merge", [], [mockTaskId]);
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "merge",
+      ["/repo"],
+      [mockTaskId]
+    );
+    expect(mockWithLock).toHaveBeenCalledTimes(1);
     expect(mockGetWorkTree).toHaveBeenCalledTimes(1);
     expect(mockGetTaskId).toHaveBeenCalledTimes(1);
     expect(mockUserPrompt).toHaveBeenCalledTimes(1);
+    expect(task.output.filesChanged).toEqual(["file.txt"]);
+    expect(task.output.commit).toEqual({
+      sha: mockCommitSha,
+      message: `${mockTaskIdShort}: ${mockGeneratedMessage}`,
+    });
   });
 
   it("should not commit, rebase, or merge if prompt handler throws (simulating denial)", async () => {
@@ -287,10 +353,18 @@ describe("GitCommitMerge", () => {
         ) {
           return mockRebaseResult;
         }
+        if (
+          tool === "git" &&
+          method === "revparse" &&
+          argArray1?.[0] === mockCwd &&
+          argArray2?.[0] === "HEAD"
+        ) {
+          return mockCommitSha;
+        }
         if (
           tool === "git" &&
           method === "merge" &&
-          argArray1?.length === 0 &&
+          argArray1?.[0] === "/repo" &&
           argArray2?.[0] === mockTaskId
         ) {
           return mockMergeResult;
@@ -319,7 +393,7 @@ describe("GitCommitMerge", () => {
       [mockCwd],
       [mockRepositoryBranch]
     );
-    expect(task.getCwd).toHaveBeenCalledTimes(4);
+    expect(task.getCwd).toHaveBeenCalledTimes(5);
     expect(mockGetTaskIdShort).toHaveBeenCalledTimes(1);
     expect(mockGetTaskId).toHaveBeenCalledTimes(1);
     expect(mockGetWorkTree).toHaveBeenCalledTimes(1);
@@ -403,10 +477,18 @@ describe("GitCommitMerge", () => {
         if (tool === "git" && method === "diff") return mockDiffResult;
         if (tool === "git" && method === "commitAll") return;
         if (tool === "git" && method === "rebase") return mockRebaseResult;
+        if (
+          tool === "git" &&
+          method === "revparse" &&
+          argArray1?.[0] === mockCwd &&
+          argArray2?.[0] === "HEAD"
+        ) {
+          return mockCommitSha;
+        }
         if (
           tool === "git" &&
           method === "merge" &&
-          argArray1?.length === 0 &&
+          argArray1?.[0] === "/repo" &&
           argArray2?.[0] === mockTaskId
         ) {
           return mockMergeResult;
@@ -435,8 +517,13 @@ describe("GitCommitMerge", () => {
       [mockCwd],
       [mockRepositoryBranch]
     );
-    expect(mockInvoke).toHaveBeenCalledWith("git", "merge", [], [mockTaskId]);
-    expect(task.getCwd).toHaveBeenCalledTimes(4);
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "merge",
+      ["/repo"],
+      [mockTaskId]
+    );
+    expect(task.getCwd).toHaveBeenCalledTimes(5);
     expect(mockGetTaskIdShort).toHaveBeenCalledTimes(1);
     expect(mockGetTaskId).toHaveBeenCalledTimes(1);
     expect(mockGetWorkTree).toHaveBeenCalledTimes(1);
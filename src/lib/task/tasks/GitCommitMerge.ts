@@ -3,7 +3,6 @@ import { StatusResult } from "simple-git";
 import { CommitMessage } from "../../model/models/CommitMessage.js";
 import { Prompt } from "../../prompt/Prompt.js";
 import Confirm from "../../prompt/prompts/Confirm.js";
-import { gemini25FlashPreview0417 } from "@genkit-ai/googleai";
 
 export class GitCommitMerge extends Task {
   async initTask(): Promise<void> {
@@ -13,16 +12,23 @@ export class GitCommitMerge extends Task {
     ])) as StatusResult;
 
     if (status.isClean()) {
+      if (this.isDryRun() && this.hasPlannedFileChanges()) {
+        // planned file changes were not written, so there is nothing to diff,
+        // record the git operations that would follow
+        await this.commitAndMerge(`${this.getTaskIdShort()}: (dry run)`);
+        return;
+      }
       console.log("No changes to commit");
       return;
     }
 
+    this.output.filesChanged = status.files.map((file) => file.path);
+
     const diff = (await this.invoke("git", "diff", [this.getCwd()])) as string;
 
     const commitMessageModel = this.newModel("CommitMessage") as CommitMessage;
 
     const generateOptions = {
-      model: gemini25FlashPreview0417,
       prompt: diff,
     };
 
@@ -39,23 +45,50 @@ export class GitCommitMerge extends Task {
     console.log(
       "Commit confirmed by user (or prompt handler allows proceeding). Committing..."
     );
+    await this.commitAndMerge(commitMessage);
+  }
+
+  private hasPlannedFileChanges(): boolean {
+    return this.getRootTask()
+      .getResult()
+      .plannedEffects.some((effect) => effect.toolName === "fs");
+  }
+
+  private async commitAndMerge(commitMessage: string): Promise<void> {
     await this.invoke("git", "commitAll", [this.getCwd()], [commitMessage]);
 
-    try {
-      const rebaseResult = await this.invoke(
+    await this.cassi.repository.withLock(async () => {
+      try {
+        const rebaseResult = await this.invoke(
+          "git",
+          "rebase",
+          [this.getCwd()],
+          [this.getWorkTree().repositoryBranch]
+        );
+      } catch (error) {
+        throw new Error(
+          `Error during rebase for ${this.getCwd()}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+
+      if (!this.isDryRun()) {
+        const sha = (await this.invoke(
+          "git",
+          "revparse",
+          [this.getCwd()],
+          ["HEAD"]
+        )) as string;
+        this.output.commit = { sha, message: commitMessage };
+      }
+
+      await this.invoke(
         "git",
-        "rebase",
-        [this.getCwd()],
-        [this.getWorkTree().repositoryBranch]
-      );
-    } catch (error) {
-      throw new Error(
-        `Error during rebase for ${this.getCwd()}: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+        "merge",
+        [this.cassi.repository.repositoryDir],
+        [this.getTaskId()]
       );
-    }
-
-    await this.invoke("git", "merge", [], [this.getTaskId()]);
+    });
   }
 }
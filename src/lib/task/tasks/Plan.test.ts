@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Plan, formatPlanSteps } from "./Plan.js";
+import { Coder } from "./Coder.js";
+import { RequirePassingBuild } from "./RequirePassingBuild.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Prompt } from "../../prompt/Prompt.js";
+import Input from "../../prompt/prompts/Input.js";
+
+const step1 = {
+  description: "Add the Foo type",
+  files: ["src/foo.ts"],
+  changes: "Export a Foo interface.",
+};
+const step2 = {
+  description: "Use Foo in Bar",
+  files: ["src/bar.ts"],
+  changes: "Type the bar argument as Foo.",
+};
+
+describe("Plan Task", () => {
+  let mockCassi: Cassi;
+  let responses: string[];
+  let mockGenerate: ReturnType<typeof vi.fn>;
+  let plan: Plan;
+
+  beforeEach(() => {
+    responses = ["y"];
+    mockCassi = {
+      user: {
+        prompt: vi.fn(async (prompt: Prompt) => {
+          if (prompt instanceof Input) {
+            prompt.response = responses.shift() ?? null;
+          }
+        }),
+      },
+    } as unknown as Cassi;
+    mockGenerate = vi.fn().mockResolvedValue({ steps: [step1, step2] });
+    plan = new Plan(mockCassi, null, "Add Foo and use it in Bar");
+    plan.newModel = vi.fn().mockReturnValue({ generate: mockGenerate });
+  });
+
+  it("should format plan steps", () => {
+    expect(formatPlanSteps([step1])).toBe(
+      "1. Add the Foo type\n   Files: src/foo.ts\n   Changes: Export a Foo interface."
+    );
+  });
+
+  it("should add a Coder and build check subtask for each approved step", async () => {
+    await plan.initTask();
+
+    expect(plan.newModel).toHaveBeenCalledWith("Planner");
+    expect(mockGenerate).toHaveBeenCalledWith({
+      prompt: "Add Foo and use it in Bar",
+      previousPlan: undefined,
+      feedback: undefined,
+    });
+    const prompt = vi.mocked(mockCassi.user.prompt).mock.calls[0][0] as Input;
+    expect(prompt.message).toContain(formatPlanSteps([step1, step2]));
+
+    expect(plan.subTasks.map((task) => task.constructor)).toEqual([
+      Coder,
+      RequirePassingBuild,
+      Coder,
+      RequirePassingBuild,
+    ]);
+    const coder = plan.subTasks[2] as Coder;
+    expect(coder.parentTask).toBe(plan);
+    expect(coder.prompt).toContain("Implement step 2 of 2");
+    expect(coder.prompt).toContain("Add Foo and use it in Bar");
+    expect(coder.prompt).toContain("Type the bar argument as Foo.");
+  });
+
+  it("should revise the plan with the user's changes before running it", async () => {
+    responses = ["Only do the first step", "yes"];
+    mockGenerate
+      .mockResolvedValueOnce({ steps: [step1, step2] })
+      .mockResolvedValueOnce({ steps: [step1] });
+
+    await plan.initTask();
+
+    expect(mockGenerate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        previousPlan: [step1, step2],
+        feedback: "Only do the first step",
+      })
+    );
+    expect(plan.steps).toEqual([step1]);
+    expect(plan.subTasks).toHaveLength(2);
+  });
+
+  it("should fail without subtasks when the user rejects the plan", async () => {
+    responses = ["n"];
+
+    await expect(plan.initTask()).rejects.toThrow("Plan rejected by user.");
+    expect(plan.subTasks).toHaveLength(0);
+  });
+
+  it("should fail when the planner returns no steps", async () => {
+    mockGenerate.mockResolvedValue({ steps: [] });
+
+    await expect(plan.initTask()).rejects.toThrow(
+      "Planner did not return any steps."
+    );
+    expect(mockCassi.user.prompt).not.toHaveBeenCalled();
+  });
+});
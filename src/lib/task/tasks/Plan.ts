@@ -0,0 +1,101 @@
+import { Task } from "../Task.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import {
+  Planner,
+  PlanStep,
+  PlannerOptions,
+} from "../../model/models/Planner.js";
+import Input from "../../prompt/prompts/Input.js";
+import { Coder } from "./Coder.js";
+import { RequirePassingBuild } from "./RequirePassingBuild.js";
+
+export const formatPlanSteps = (steps: PlanStep[]): string =>
+  steps
+    .map(
+      (step, index) =>
+        `${index + 1}. ${step.description}\n   Files: ${
+          step.files.join(", ") || "(none)"
+        }\n   Changes: ${step.changes}`
+    )
+    .join("\n");
+
+/**
+ * Creates a plan for the prompt with the Planner model and asks the user to
+ * approve it. The user may answer with changes to the plan, which creates a
+ * revised plan. Every approved step runs as a Coder subtask followed by a
+ * build check.
+ */
+export class Plan extends Task {
+  public prompt: string;
+  public steps: PlanStep[] = [];
+
+  constructor(cassi: Cassi, parentTask: Task | null, prompt: string) {
+    super(cassi, parentTask, prompt);
+    this.prompt = prompt;
+  }
+
+  private async createPlan(
+    previousPlan?: PlanStep[],
+    feedback?: string
+  ): Promise<PlanStep[]> {
+    const planner = this.newModel("Planner") as Planner;
+    const options: PlannerOptions = {
+      prompt: this.prompt,
+      previousPlan,
+      feedback,
+    };
+    const plan = await planner.generate(options);
+    if (plan.steps.length === 0) {
+      throw new Error("Planner did not return any steps.");
+    }
+    return plan.steps;
+  }
+
+  private stepPrompt(step: PlanStep, index: number): string {
+    return `Implement step ${index + 1} of ${this.steps.length} of the plan for the request below. Only make the changes for this step.
+
+Request:
+${this.prompt}
+
+Step:
+${step.description}
+
+Files:
+${step.files.join("\n")}
+
+Changes:
+${step.changes}`;
+  }
+
+  async initTask(): Promise<void> {
+    this.steps = await this.createPlan();
+
+    while (true) {
+      const approvePrompt = new Input(
+        `Plan:\n${formatPlanSteps(
+          this.steps
+        )}\n\nEnter "y" to run this plan, "n" to cancel, or describe the changes you want:`
+      );
+      await this.cassi.user.prompt(approvePrompt);
+      const response = approvePrompt.response?.trim() ?? "";
+
+      if (/^y(es)?$/i.test(response)) {
+        break;
+      }
+      if (response === "" || /^no?$/i.test(response)) {
+        throw new Error("Plan rejected by user.");
+      }
+      this.steps = await this.createPlan(this.steps, response);
+    }
+
+    this.steps.forEach((step, index) => {
+      this.addSubtask(
+        new Coder(this.cassi, this, this.stepPrompt(step, index))
+      );
+      this.addSubtask(new RequirePassingBuild(this.cassi, this));
+    });
+    this.output.summary = `Planned ${this.steps.length} step(s):\n${formatPlanSteps(
+      this.steps
+    )}`;
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, Mock } from "vitest";
+import { RequirePassingBuild } from "./RequirePassingBuild.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Prompt } from "../../prompt/Prompt.js";
+import Confirm from "../../prompt/prompts/Confirm.js";
+
+describe("RequirePassingBuild", () => {
+  let mockCassi: Cassi;
+  let task: RequirePassingBuild;
+  let confirmResponse: boolean;
+
+  beforeEach(() => {
+    confirmResponse = true;
+    mockCassi = {
+      config: {
+        configData: {
+          apiKeys: { gemini: "dummy-key" },
+          commands: { build: "npm run build" },
+        },
+      },
+      user: {
+        prompt: vi.fn(async (prompt: Prompt) => {
+          if (prompt instanceof Confirm) {
+            prompt.response = confirmResponse;
+          }
+        }),
+      },
+    } as unknown as Cassi;
+
+    task = new RequirePassingBuild(mockCassi, null);
+    task.getCwd = vi.fn().mockReturnValue("/fake/cwd");
+    task.invoke = vi.fn();
+  });
+
+  it("should resolve if the build passes", async () => {
+    (task.invoke as Mock).mockResolvedValue({
+      stdout: "",
+      stderr: "",
+      code: 0,
+    });
+
+    await expect(task.initTask()).resolves.toBeUndefined();
+    expect(task.invoke).toHaveBeenCalledWith(
+      "console",
+      "exec",
+      ["/fake/cwd"],
+      ["npm run build"]
+    );
+    expect(mockCassi.user.prompt).not.toHaveBeenCalled();
+  });
+
+  it("should show build errors and retry when the user confirms", async () => {
+    (task.invoke as Mock)
+      .mockResolvedValueOnce({
+        stdout: "",
+        stderr: "src/a.ts(1,1): error TS2304",
+        code: 2,
+      })
+      .mockResolvedValueOnce({ stdout: "", stderr: "", code: 0 });
+
+    await task.initTask();
+
+    expect(task.invoke).toHaveBeenCalledTimes(2);
+    const prompt = vi.mocked(mockCassi.user.prompt).mock.calls[0][0] as Confirm;
+    expect(prompt.message).toBe(
+      "Build failing in /fake/cwd:\nsrc/a.ts(1,1): error TS2304\nFix and press y to continue"
+    );
+  });
+
+  it("should throw if the build fails and the user aborts", async () => {
+    confirmResponse = false;
+    (task.invoke as Mock).mockResolvedValue({
+      stdout: "error",
+      stderr: "",
+      code: 1,
+    });
+
+    await expect(task.initTask()).rejects.toThrow("Task aborted by user.");
+    expect(task.invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw if no build command is configured", async () => {
+    mockCassi.config.configData = { apiKeys: { gemini: "dummy-key" } };
+
+    await expect(task.initTask()).rejects.toThrow(
+      "Build command not found in configuration."
+    );
+  });
+});
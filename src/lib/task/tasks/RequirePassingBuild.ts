@@ -0,0 +1,35 @@
+import { Task } from "../Task.js";
+import Confirm from "../../prompt/prompts/Confirm.js";
+
+export class RequirePassingBuild extends Task {
+  async initTask(): Promise<void> {
+    const buildCommand = this.cassi.config.configData?.commands?.build;
+    if (!buildCommand) {
+      throw new Error("Build command not found in configuration.");
+    }
+
+    while (true) {
+      const result = await this.invoke(
+        "console",
+        "exec",
+        [this.getCwd()],
+        [buildCommand]
+      );
+
+      if (result.code === 0) {
+        break;
+      }
+
+      const confirmPrompt = new Confirm(
+        `Build failing in ${this.getCwd()}:\n${
+          result.stderr || result.stdout
+        }\nFix and press y to continue`
+      );
+      await this.cassi.user.prompt(confirmPrompt);
+
+      if (confirmPrompt.response === false) {
+        throw new Error("Task aborted by user.");
+      }
+    }
+  }
+}
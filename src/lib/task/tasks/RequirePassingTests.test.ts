@@ -78,6 +78,11 @@ describe("RequirePassingTests", () => {
 
     await expect(task.initTask()).resolves.toBeUndefined();
     expect(task.invoke).toHaveBeenCalledTimes(2);
+    expect(task.output.tests).toEqual({
+      command: "npm run test -- --reporter=tap",
+      passed: true,
+      attempts: 2,
+    });
     expect(mockUser.prompt).toHaveBeenCalledTimes(1);
     const promptArg = (mockUser.prompt as Mock).mock.calls[0][0] as Prompt;
     expect(promptArg).toBeInstanceOf(Confirm);
@@ -102,6 +107,7 @@ describe("RequirePassingTests", () => {
     await expect(task.initTask()).rejects.toThrow("Task aborted by user.");
     expect(task.invoke).toHaveBeenCalledTimes(1);
     expect(mockUser.prompt).toHaveBeenCalledTimes(1);
+    expect(task.output.tests).toMatchObject({ passed: false, attempts: 1 });
   });
 
   it("should throw an error immediately if invoke rejects", async () => {
@@ -22,15 +22,21 @@ export class RequirePassingTests extends Task {
       throw new Error("Test command not found in configuration.");
     }
 
+    const command = testCommand + " -- --reporter=tap";
+    let attempts = 0;
     while (true) {
+      attempts++;
       const result = await this.invoke(
         "console",
         "exec",
         [this.getCwd()],
-        [testCommand + " -- --reporter=tap"]
+        [command]
       );
 
-      if (result.stdout.includes("not ok")) {
+      const passed = !result.stdout.includes("not ok");
+      this.output.tests = { command, passed, attempts };
+
+      if (!passed) {
         const confirmPrompt = new Confirm(
           `Tests not passing in ${this.getCwd()}. Fix and press y to continue`
         );
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ResumeTasks } from "./ResumeTasks.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Task } from "../Task.js";
+import type { TaskRecord } from "../TaskStore.js";
+import { Prompt } from "../../prompt/Prompt.js";
+import Confirm from "../../prompt/prompts/Confirm.js";
+
+vi.mock("../../cassi/Cassi.js");
+
+const record: TaskRecord = {
+  taskName: "Code",
+  taskId: "abcd1234-add-feature",
+  args: ["add feature"],
+  startedAt: "2025-01-01T00:00:00.000Z",
+  finishedAt: null,
+  error: null,
+  worktree: null,
+  subTasks: [
+    {
+      taskName: "Coder",
+      taskId: null,
+      args: ["add feature"],
+      startedAt: "2025-01-01T00:00:01.000Z",
+      finishedAt: "2025-01-01T00:00:02.000Z",
+      error: null,
+      worktree: null,
+      subTasks: [],
+    },
+    {
+      taskName: "Tester",
+      taskId: null,
+      args: [""],
+      startedAt: "2025-01-01T00:00:03.000Z",
+      finishedAt: null,
+      error: null,
+      worktree: null,
+      subTasks: [],
+    },
+  ],
+};
+
+describe("ResumeTasks Task", () => {
+  let mockCassi: Cassi;
+  let restoredTask: Task;
+  let promptResponse: boolean;
+
+  beforeEach(() => {
+    promptResponse = true;
+    mockCassi = {
+      tasks: [],
+      taskStore: {
+        listUnfinished: vi.fn().mockResolvedValue([record]),
+        remove: vi.fn().mockResolvedValue(undefined),
+      },
+      task: {
+        restoreTask: vi.fn(() => restoredTask),
+      },
+      user: {
+        prompt: vi.fn(async (prompt: Prompt) => {
+          if (prompt instanceof Confirm) {
+            prompt.response = promptResponse;
+          }
+        }),
+      },
+    } as unknown as Cassi;
+    restoredTask = new Task(mockCassi);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should prompt with the first incomplete subtask", async () => {
+    const resumeTasks = new ResumeTasks(mockCassi);
+
+    await resumeTasks.initTask();
+
+    const prompt = vi.mocked(mockCassi.user.prompt).mock.calls[0][0] as Confirm;
+    expect(prompt.message).toBe(
+      "Resume unfinished task abcd1234-add-feature (Code) from Tester?"
+    );
+  });
+
+  it("should queue the restored task when the user confirms", async () => {
+    const resumeTasks = new ResumeTasks(mockCassi);
+
+    await resumeTasks.initTask();
+
+    expect(mockCassi.task.restoreTask).toHaveBeenCalledWith(record);
+    expect(mockCassi.tasks).toEqual([restoredTask]);
+    expect(mockCassi.taskStore.remove).not.toHaveBeenCalled();
+  });
+
+  it("should clean up and remove the record when the user declines", async () => {
+    promptResponse = false;
+    const cleanupSpy = vi
+      .spyOn(restoredTask, "cleanupTask")
+      .mockResolvedValue(undefined);
+    const resumeTasks = new ResumeTasks(mockCassi);
+
+    await resumeTasks.initTask();
+
+    expect(mockCassi.tasks).toEqual([]);
+    expect(cleanupSpy).toHaveBeenCalled();
+    expect(mockCassi.taskStore.remove).toHaveBeenCalledWith(
+      "abcd1234-add-feature"
+    );
+  });
+
+  it("should remove the record even if cleanup fails", async () => {
+    promptResponse = false;
+    vi.spyOn(restoredTask, "cleanupTask").mockRejectedValue(
+      new Error("worktree missing")
+    );
+    const resumeTasks = new ResumeTasks(mockCassi);
+
+    await resumeTasks.initTask();
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[ResumeTasks] Error cleaning up task abcd1234-add-feature: worktree missing"
+    );
+    expect(mockCassi.taskStore.remove).toHaveBeenCalledWith(
+      "abcd1234-add-feature"
+    );
+  });
+});
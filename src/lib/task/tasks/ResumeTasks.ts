@@ -0,0 +1,53 @@
+import { Task } from "../Task.js";
+import type { TaskRecord } from "../TaskStore.js";
+import Confirm from "../../prompt/prompts/Confirm.js";
+
+/**
+ * Offers to resume tasks that were interrupted before they finished. Accepted
+ * tasks are queued on cassi, declined tasks have their worktree and record
+ * removed.
+ */
+export class ResumeTasks extends Task {
+  private nextSubtaskName(record: TaskRecord): string {
+    const next = record.subTasks.find(
+      (subTask) => subTask.finishedAt === null || subTask.error !== null
+    );
+    return next ? next.taskName : record.taskName;
+  }
+
+  async initTask(): Promise<void> {
+    const records = await this.cassi.taskStore.listUnfinished();
+
+    for (const record of records) {
+      if (!record.taskId) {
+        continue;
+      }
+
+      const confirmPrompt = new Confirm(
+        `Resume unfinished task ${record.taskId} (${
+          record.taskName
+        }) from ${this.nextSubtaskName(record)}?`
+      );
+      await this.cassi.user.prompt(confirmPrompt);
+
+      const task = this.cassi.task.restoreTask(record);
+
+      if (confirmPrompt.response) {
+        console.log(`[ResumeTasks] Resuming task: ${record.taskId}`);
+        this.cassi.tasks.push(task);
+        continue;
+      }
+
+      try {
+        await task.cleanupTask();
+      } catch (error) {
+        console.error(
+          `[ResumeTasks] Error cleaning up task ${record.taskId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      await this.cassi.taskStore.remove(record.taskId);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  Review,
+  DEFAULT_MAX_REVIEW_ROUNDS,
+  formatReviewFindings,
+} from "./Review.js";
+import { Coder } from "./Coder.js";
+import { Cassi } from "../../cassi/Cassi.js";
+import type { ReviewFinding } from "../../model/models/Reviewer.js";
+
+const blocking: ReviewFinding = {
+  file: "src/foo.ts",
+  line: 3,
+  severity: "blocking",
+  suggestion: "Export Foo.",
+};
+const warning: ReviewFinding = {
+  file: "src/bar.ts",
+  line: null,
+  severity: "warning",
+  suggestion: "Rename bar to fooBar.",
+};
+
+describe("Review Task", () => {
+  let mockCassi: Cassi;
+  let mockGenerate: ReturnType<typeof vi.fn>;
+  let mockInvoke: ReturnType<typeof vi.fn>;
+  let clean: boolean;
+  let review: Review;
+
+  const newReview = (round?: number) => {
+    const task = new Review(mockCassi, null, "Add Foo", round);
+    task.newModel = vi.fn().mockReturnValue({ generate: mockGenerate });
+    task.invoke = mockInvoke;
+    task.getCwd = vi.fn().mockReturnValue("/mock/cwd");
+    return task;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCassi = { config: { configData: {} } } as unknown as Cassi;
+    mockGenerate = vi.fn().mockResolvedValue({ findings: [] });
+    clean = false;
+    mockInvoke = vi.fn(async (toolName: string, method: string) =>
+      method === "status"
+        ? { isClean: () => clean }
+        : "+export interface Foo {}"
+    );
+    review = newReview();
+  });
+
+  it("should format findings with their file and line", () => {
+    expect(formatReviewFindings([blocking, warning])).toBe(
+      "1. [blocking] src/foo.ts:3\n   Export Foo.\n2. [warning] src/bar.ts\n   Rename bar to fooBar."
+    );
+  });
+
+  it("should review the worktree diff, including new files, for the prompt", async () => {
+    await review.initTask();
+
+    expect(mockInvoke).toHaveBeenCalledWith("git", "status", ["/mock/cwd"]);
+    expect(mockInvoke).toHaveBeenCalledWith(
+      "git",
+      "diffAll",
+      ["/mock/cwd"],
+      ["HEAD"]
+    );
+    expect(review.newModel).toHaveBeenCalledWith("Reviewer");
+    expect(mockGenerate).toHaveBeenCalledWith({
+      prompt: "Add Foo",
+      diff: "+export interface Foo {}",
+    });
+    expect(review.subTasks).toEqual([]);
+    expect(review.output.summary).toBe("Review found no problems.");
+  });
+
+  it("should not review when there are no changes", async () => {
+    clean = true;
+
+    await review.initTask();
+
+    expect(mockInvoke).toHaveBeenCalledTimes(1);
+    expect(review.newModel).not.toHaveBeenCalled();
+    expect(review.output.summary).toBeNull();
+  });
+
+  it("should send blocking findings to a Coder and review again", async () => {
+    mockGenerate.mockResolvedValue({ findings: [blocking, warning] });
+
+    await review.initTask();
+
+    expect(review.subTasks.map((task) => task.constructor)).toEqual([
+      Coder,
+      Review,
+    ]);
+    const coder = review.subTasks[0] as Coder;
+    expect(coder.prompt).toContain("Request:\nAdd Foo");
+    expect(coder.prompt).toContain(formatReviewFindings([blocking]));
+    expect(coder.prompt).not.toContain("fooBar");
+    const nextReview = review.subTasks[1] as Review;
+    expect(nextReview.prompt).toBe("Add Foo");
+    expect(nextReview.round).toBe(2);
+    expect(review.output.summary).toBeNull();
+  });
+
+  it("should only summarize non-blocking findings", async () => {
+    mockGenerate.mockResolvedValue({ findings: [warning] });
+
+    await review.initTask();
+
+    expect(review.subTasks).toEqual([]);
+    expect(review.output.summary).toBe(
+      `Review found 1 remaining problem(s):\n${formatReviewFindings([warning])}`
+    );
+  });
+
+  it("should summarize the remaining findings after the last round", async () => {
+    mockGenerate.mockResolvedValue({ findings: [blocking] });
+    review = newReview(DEFAULT_MAX_REVIEW_ROUNDS + 1);
+
+    await review.initTask();
+
+    expect(review.subTasks).toEqual([]);
+    expect(review.output.summary).toContain("src/foo.ts:3");
+  });
+
+  it("should use the configured number of rounds", async () => {
+    mockGenerate.mockResolvedValue({ findings: [blocking] });
+    mockCassi.config.configData = { review: { maxRounds: 0 } } as any;
+
+    await review.initTask();
+
+    expect(review.subTasks).toEqual([]);
+    expect(review.output.summary).toContain("1 remaining problem(s)");
+  });
+});
@@ -0,0 +1,107 @@
+import { Task } from "../Task.js";
+import { StatusResult } from "simple-git";
+import { Cassi } from "../../cassi/Cassi.js";
+import { Reviewer, ReviewFinding } from "../../model/models/Reviewer.js";
+import { Coder } from "./Coder.js";
+
+/**
+ * Number of times blocking findings are sent back to the Coder, used if the
+ * `review.maxRounds` config setting is not set.
+ */
+export const DEFAULT_MAX_REVIEW_ROUNDS = 2;
+
+export const formatReviewFindings = (findings: ReviewFinding[]): string =>
+  findings
+    .map(
+      (finding, index) =>
+        `${index + 1}. [${finding.severity}] ${finding.file}${
+          finding.line === null ? "" : `:${finding.line}`
+        }\n   ${finding.suggestion}`
+    )
+    .join("\n");
+
+/**
+ * Reviews the changes in the worktree with the Reviewer model. Blocking
+ * findings are sent back to a new Coder subtask, followed by another review,
+ * until no blocking findings are left or the `review.maxRounds` config
+ * setting is reached. The findings of the last review are summarized in the
+ * task output.
+ */
+export class Review extends Task {
+  public prompt: string;
+  public round: number;
+  public findings: ReviewFinding[] = [];
+
+  constructor(
+    cassi: Cassi,
+    parentTask: Task | null,
+    prompt: string,
+    round: number = 1
+  ) {
+    super(cassi, parentTask, prompt, round);
+    this.prompt = prompt;
+    this.round = round;
+  }
+
+  private getMaxRounds(): number {
+    return (
+      this.cassi.config.configData?.review?.maxRounds ??
+      DEFAULT_MAX_REVIEW_ROUNDS
+    );
+  }
+
+  private fixPrompt(findings: ReviewFinding[]): string {
+    return `A code review of the changes made for the request below found the following problems. Fix them, only make the changes needed to resolve them.
+
+Request:
+${this.prompt}
+
+Findings:
+${formatReviewFindings(findings)}`;
+  }
+
+  async initTask(): Promise<void> {
+    const status = (await this.invoke("git", "status", [
+      this.getCwd(),
+    ])) as StatusResult;
+    if (status.isClean()) {
+      console.log("[Review Task] No changes to review");
+      return;
+    }
+
+    // the worktree has no commits of its own before GitCommitMerge, so the
+    // changes are the diff against HEAD, including new files
+    const diff = (await this.invoke(
+      "git",
+      "diffAll",
+      [this.getCwd()],
+      ["HEAD"]
+    )) as string;
+
+    const reviewer = this.newModel("Reviewer") as Reviewer;
+    const review = await reviewer.generate({ prompt: this.prompt, diff });
+    this.findings = review.findings;
+
+    const blocking = this.findings.filter(
+      (finding) => finding.severity === "blocking"
+    );
+    if (blocking.length > 0 && this.round <= this.getMaxRounds()) {
+      console.log(
+        `[Review Task] Round ${this.round}: sending ${blocking.length} blocking finding(s) back to the Coder`
+      );
+      this.addSubtask(new Coder(this.cassi, this, this.fixPrompt(blocking)));
+      this.addSubtask(
+        new Review(this.cassi, this, this.prompt, this.round + 1)
+      );
+      return;
+    }
+
+    this.output.summary =
+      this.findings.length === 0
+        ? "Review found no problems."
+        : `Review found ${this.findings.length} remaining problem(s):\n${formatReviewFindings(
+            this.findings
+          )}`;
+    console.log(`[Review Task] ${this.output.summary}`);
+  }
+}
@@ -3,7 +3,6 @@ import { Tester } from "./Tester.js";
 import { Cassi } from "../../cassi/Cassi.js";
 import { Task } from "../Task.js";
 import { User } from "../../user/User.js";
-import { gemini25ProPreview0325 } from "@genkit-ai/googleai";
 
 vi.mock("../../cassi/Cassi");
 vi.mock("../../user/User");
@@ -30,7 +29,11 @@ describe("Tester Task", () => {
     expect(testerTask.prompt).toBe(testPrompt);
     expect(testerTask).toBeInstanceOf(Task);
     expect(MockTask).toHaveBeenCalledTimes(1);
-    expect(MockTask).toHaveBeenCalledWith(mockCassi, mockParentTask);
+    expect(MockTask).toHaveBeenCalledWith(
+      mockCassi,
+      mockParentTask,
+      testPrompt
+    );
   });
 
   it("should have an initTask method", async () => {
@@ -48,15 +51,23 @@ describe("Tester Task", () => {
     };
     testerTask.newModel = vi.fn().mockReturnValue(mockTesterModelInstance);
 
+    testerTask.output = {
+      filesChanged: [],
+      commit: null,
+      tests: null,
+      summary: null,
+      plannedEffects: [],
+    };
+
     expect(testerTask.initTask).toBeDefined();
 
     await expect(testerTask.initTask()).resolves.toBeUndefined();
+    expect(testerTask.output.summary).toBe("mock generated test code");
 
     expect(testerTask.newModel).toHaveBeenCalledWith("Tester");
 
     expect(mockGenerate).toHaveBeenCalledWith(
       expect.objectContaining({
-        model: gemini25ProPreview0325,
         prompt: testPrompt,
       })
     );
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { describeArg, formatPlan, planEffect } from "./DryRun.js";
+import type { Invocation } from "./Invocation.js";
+
+describe("DryRun", () => {
+  describe("describeArg", () => {
+    it("should keep short strings and summarize long or multi-line ones", () => {
+      expect(describeArg("src/index.ts")).toBe("src/index.ts");
+      expect(describeArg("line 1\nline 2")).toBe("<13 chars>");
+      expect(describeArg("x".repeat(200))).toBe("<200 chars>");
+    });
+
+    it("should describe buffers by size and other values as JSON", () => {
+      expect(describeArg(Buffer.from("abc"))).toBe("<3 bytes>");
+      expect(describeArg({ a: 1 })).toBe('{"a":1}');
+      expect(describeArg(undefined)).toBe("undefined");
+    });
+  });
+
+  it("should plan an effect from an invocation", () => {
+    const invocation = {
+      toolName: "console",
+      method: "exec",
+      toolArgs: ["/repo"],
+      methodArgs: ["npm test"],
+    } as Invocation;
+
+    expect(planEffect(invocation)).toEqual({
+      toolName: "console",
+      method: "exec",
+      toolArgs: ["/repo"],
+      methodArgs: ["npm test"],
+    });
+  });
+
+  describe("formatPlan", () => {
+    it("should report when nothing is planned", () => {
+      expect(formatPlan([])).toBe("Dry run: no changes planned.");
+    });
+
+    it("should group file changes, commands, git operations and other tools", () => {
+      const plan = formatPlan([
+        {
+          toolName: "git",
+          method: "commitAll",
+          toolArgs: ["/repo"],
+          methodArgs: ["abcd1234: (dry run)"],
+        },
+        {
+          toolName: "fs",
+          method: "writeFile",
+          toolArgs: [],
+          methodArgs: ["/repo/a.ts", "<10 chars>"],
+        },
+        {
+          toolName: "console",
+          method: "exec",
+          toolArgs: ["/repo"],
+          methodArgs: ["npm install"],
+        },
+        {
+          toolName: "db",
+          method: "migrate",
+          toolArgs: [],
+          methodArgs: [],
+        },
+      ]);
+
+      expect(plan).toBe(
+        [
+          "Dry run plan:",
+          "  File changes:",
+          "    writeFile /repo/a.ts <10 chars>",
+          "  Commands:",
+          "    exec npm install (in /repo)",
+          "  Git operations:",
+          "    commitAll abcd1234: (dry run) (in /repo)",
+          "  Other tools:",
+          "    db.migrate",
+        ].join("\n")
+      );
+    });
+  });
+});
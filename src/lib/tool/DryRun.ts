@@ -0,0 +1,83 @@
+import type { Invocation } from "./Invocation.js";
+
+/**
+ * A mutating tool call that was recorded instead of executed because its
+ * task runs in dry-run mode.
+ */
+export interface PlannedEffect {
+  toolName: string;
+  method: string;
+  toolArgs: string[];
+  methodArgs: string[];
+}
+
+const MAX_ARG_LENGTH = 120;
+
+/**
+ * Describes a tool argument for display. Long strings and buffers are
+ * replaced by their size so that file contents do not end up in the plan.
+ */
+export const describeArg = (arg: any): string => {
+  if (Buffer.isBuffer(arg)) {
+    return `<${arg.length} bytes>`;
+  }
+  if (typeof arg === "string") {
+    return arg.length > MAX_ARG_LENGTH || arg.includes("\n")
+      ? `<${arg.length} chars>`
+      : arg;
+  }
+  const json = JSON.stringify(arg) ?? String(arg);
+  return json.length > MAX_ARG_LENGTH
+    ? `${json.substring(0, MAX_ARG_LENGTH)}...`
+    : json;
+};
+
+export const planEffect = (invocation: Invocation): PlannedEffect => ({
+  toolName: invocation.toolName,
+  method: invocation.method,
+  toolArgs: invocation.toolArgs.map(describeArg),
+  methodArgs: invocation.methodArgs.map(describeArg),
+});
+
+const PLAN_SECTIONS: [string, string][] = [
+  ["fs", "File changes"],
+  ["console", "Commands"],
+  ["git", "Git operations"],
+];
+
+/**
+ * Formats planned effects grouped by file changes, commands, git operations
+ * and any other tools.
+ */
+export const formatPlan = (effects: PlannedEffect[]): string => {
+  if (effects.length === 0) {
+    return "Dry run: no changes planned.";
+  }
+  const lines = ["Dry run plan:"];
+  const knownTools = PLAN_SECTIONS.map(([toolName]) => toolName);
+  const sections: [string, PlannedEffect[]][] = [
+    ...PLAN_SECTIONS.map(([toolName, title]): [string, PlannedEffect[]] => [
+      title,
+      effects.filter((effect) => effect.toolName === toolName),
+    ]),
+    [
+      "Other tools",
+      effects.filter((effect) => !knownTools.includes(effect.toolName)),
+    ],
+  ];
+  for (const [title, sectionEffects] of sections) {
+    if (sectionEffects.length === 0) {
+      continue;
+    }
+    lines.push(`  ${title}:`);
+    for (const effect of sectionEffects) {
+      const name = knownTools.includes(effect.toolName)
+        ? effect.method
+        : `${effect.toolName}.${effect.method}`;
+      const location =
+        effect.toolArgs.length > 0 ? ` (in ${effect.toolArgs.join(", ")})` : "";
+      lines.push(`    ${[name, ...effect.methodArgs].join(" ")}${location}`);
+    }
+  }
+  return lines.join("\n");
+};
@@ -146,5 +146,48 @@ describe("Invocation", () => {
       expect(invocation.endTime).toBeNull();
       expect(invocation.error).toBeNull();
     });
+
+    it("should not run the tool method when the task is cancelled", async () => {
+      const cancelledTask = new Task(mockCassi);
+      cancelledTask.cancel();
+      const mockToolMethod = vi.fn();
+      const invocation = new Invocation(
+        cancelledTask,
+        "testTool",
+        "TestImpl",
+        "testMethod",
+        mockToolMethod,
+        {},
+        [],
+        []
+      );
+
+      expect(invocation.signal).toBe(cancelledTask.getSignal());
+      await expect(invocation.invoke()).rejects.toThrow(
+        "Invocation cancelled: testTool.testMethod (Task cancelled)"
+      );
+      expect(mockToolMethod).not.toHaveBeenCalled();
+      expect(invocation.startTime).toBeNull();
+    });
+
+    it("should run the tool method of a cancelled task with a given signal", async () => {
+      const cancelledTask = new Task(mockCassi);
+      cancelledTask.cancel();
+      const mockToolMethod = vi.fn().mockResolvedValue("done");
+      const invocation = new Invocation(
+        cancelledTask,
+        "testTool",
+        "TestImpl",
+        "testMethod",
+        mockToolMethod,
+        {},
+        [],
+        [],
+        new AbortController().signal
+      );
+
+      await expect(invocation.invoke()).resolves.toBe("done");
+      expect(mockToolMethod).toHaveBeenCalled();
+    });
   });
 });
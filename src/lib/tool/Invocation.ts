@@ -12,6 +12,7 @@ export class Invocation {
   public startTime: number | null = null;
   public endTime: number | null = null;
   public error: Error | null = null;
+  public signal: AbortSignal;
 
   constructor(
     task: Task,
@@ -21,7 +22,8 @@ export class Invocation {
     toolMethod: Function,
     toolInstance: any,
     toolArgs: any[],
-    methodArgs: any[]
+    methodArgs: any[],
+    signal: AbortSignal = task.getSignal()
   ) {
     this.task = task;
     this.toolName = toolName;
@@ -31,6 +33,7 @@ export class Invocation {
     this.toolInstance = toolInstance;
     this.toolArgs = toolArgs;
     this.methodArgs = methodArgs;
+    this.signal = signal;
   }
 
   /**
@@ -43,6 +46,15 @@ export class Invocation {
         `Invocation error: toolMethod for "${this.toolName}.${this.method}" is not a function.`
       );
     }
+    if (this.signal.aborted) {
+      throw new Error(
+        `Invocation cancelled: ${this.toolName}.${this.method} (${
+          this.signal.reason instanceof Error
+            ? this.signal.reason.message
+            : "Task cancelled"
+        })`
+      );
+    }
     this.startTime = Date.now();
     try {
       const result = await this.toolMethod.apply(this.toolInstance, [
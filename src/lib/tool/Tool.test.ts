@@ -8,6 +8,7 @@ import LocalFS from "../tools/fs/LocalFS.js";
 import * as fsPromises from "fs/promises";
 import { Stats, PathLike } from "fs";
 import { Invocation } from "./Invocation.js";
+import { CassiEvents } from "../cassi/CassiEvents.js";
 import * as path from "path";
 import { fileURLToPath } from "url";
 
@@ -34,6 +35,30 @@ vi.mock("../tools/mockTool/MockToolWithArgs.js", () => ({
   default: MockToolWithArgs,
 }));
 
+class MockToolWithSignal {
+  signal: AbortSignal | null = null;
+
+  async mockMethod(): Promise<AbortSignal | null> {
+    return this.signal;
+  }
+}
+
+class MockMutatingTool {
+  static mutatingMethods = ["run"];
+
+  static dryRunResult(method: string, args: any[]) {
+    return { skipped: method, args };
+  }
+
+  async run(command: string) {
+    return `ran ${command}`;
+  }
+
+  async read() {
+    return "read result";
+  }
+}
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
@@ -107,6 +132,22 @@ describe("Tool", () => {
     expect(Tool["availableTools"]!["fs"]["index"]).toBe(LocalFS);
   });
 
+  describe("register", () => {
+    it("should replace the implementations of a tool type", async () => {
+      Tool["availableTools"] = {
+        fs: { index: LocalFS },
+      };
+
+      await toolInstance.register("fs", MockToolWithArgs);
+      await toolInstance.register("db", MockToolWithSignal);
+
+      expect(Tool["availableTools"]).toEqual({
+        fs: { MockToolWithArgs },
+        db: { MockToolWithSignal },
+      });
+    });
+  });
+
   describe("invoke", () => {
     let mockTask: Task;
 
@@ -233,6 +274,113 @@ describe("Tool", () => {
       expect(LocalFS).toHaveBeenCalledTimes(1);
       expect(LocalFS).toHaveBeenCalledWith();
     });
+
+    it("should pass the task signal to tools that accept one", async () => {
+      Tool["availableTools"] = {
+        signalTool: { MockToolWithSignal: MockToolWithSignal },
+      };
+
+      const result = await toolInstance.invoke(
+        mockTask,
+        "signalTool",
+        "mockMethod"
+      );
+
+      expect(result).toBe(mockTask.getSignal());
+    });
+
+    it("should pass a given signal instead of the task signal", async () => {
+      Tool["availableTools"] = {
+        signalTool: { MockToolWithSignal: MockToolWithSignal },
+      };
+      const signal = new AbortController().signal;
+
+      const result = await toolInstance.invoke(
+        mockTask,
+        "signalTool",
+        "mockMethod",
+        [],
+        [],
+        signal
+      );
+
+      expect(result).toBe(signal);
+    });
+
+    describe("dry run", () => {
+      beforeEach(() => {
+        Tool["availableTools"] = {
+          shell: { MockMutatingTool },
+        };
+        mockTask.dryRun = true;
+      });
+
+      it("should record mutating methods instead of running them", async () => {
+        const result = await toolInstance.invoke(
+          mockTask,
+          "shell",
+          "run",
+          ["/repo"],
+          ["npm install"]
+        );
+
+        expect(result).toEqual({ skipped: "run", args: ["npm install"] });
+        expect(mockTask.output.plannedEffects).toEqual([
+          {
+            toolName: "shell",
+            method: "run",
+            toolArgs: ["/repo"],
+            methodArgs: ["npm install"],
+          },
+        ]);
+      });
+
+      it("should still run read-only methods", async () => {
+        const result = await toolInstance.invoke(mockTask, "shell", "read");
+
+        expect(result).toBe("read result");
+        expect(mockTask.output.plannedEffects).toEqual([]);
+      });
+
+      it("should run mutating methods when the task is not a dry run", async () => {
+        mockTask.dryRun = false;
+
+        const result = await toolInstance.invoke(
+          mockTask,
+          "shell",
+          "run",
+          [],
+          ["ls"]
+        );
+
+        expect(result).toBe("ran ls");
+      });
+    });
+
+    it("should publish invocation started and finished events", async () => {
+      const events = new CassiEvents();
+      (mockTask.cassi as any).events = events;
+      const started = vi.fn();
+      const finished = vi.fn((payload: { invocation: Invocation }) => {
+        expect(payload.invocation.endTime).toBeTypeOf("number");
+      });
+      events.on("invocation:started", started);
+      events.on("invocation:finished", finished);
+      mockLocalFSInstance.readFile.mockRejectedValue(new Error("missing"));
+
+      await expect(
+        toolInstance.invoke(mockTask, "fs", "readFile", [], ["missing.txt"])
+      ).rejects.toThrow("missing");
+
+      expect(started).toHaveBeenCalledTimes(1);
+      expect(finished).toHaveBeenCalledTimes(1);
+      const { invocation } = finished.mock.calls[0][0];
+      expect(invocation).toBe(started.mock.calls[0][0].invocation);
+      expect(invocation.toolName).toBe("fs");
+      expect(invocation.method).toBe("readFile");
+      expect(invocation.error?.message).toBe("missing");
+      delete (mockTask.cassi as any).events;
+    });
   });
 
   describe("allow", () => {
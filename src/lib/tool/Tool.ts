@@ -4,6 +4,7 @@ import { fileURLToPath } from "url";
 import { User } from "../user/User.js";
 import { Config } from "../config/Config.js";
 import { Invocation } from "./Invocation.js";
+import { planEffect } from "./DryRun.js";
 import { Task } from "../task/Task.js";
 import { z } from "zod";
 
@@ -14,13 +15,25 @@ export interface ToolDefinition {
   outputSchema: z.ZodType<any>;
 }
 
+/**
+ * Static members a tool class may declare for dry runs. `mutatingMethods`
+ * lists the methods that are not executed in dry-run mode, `dryRunResult`
+ * returns the value those calls resolve to instead.
+ */
+export interface DryRunAware {
+  mutatingMethods?: string[];
+  dryRunResult?(methodName: string, methodArgs: any[]): any;
+}
+
+export type ToolConstructor = (new (...args: any[]) => any) & DryRunAware;
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 export class Tool {
   private static availableTools: Record<
     string,
-    Record<string, new (...args: any[]) => any>
+    Record<string, ToolConstructor>
   > | null = null;
   private user: User;
   private config: Config;
@@ -30,9 +43,7 @@ export class Tool {
     this.config = config;
   }
 
-  async init(): Promise<
-    Record<string, Record<string, new (...args: any[]) => any>>
-  > {
+  async init(): Promise<Record<string, Record<string, ToolConstructor>>> {
     if (Tool.availableTools !== null) {
       return Tool.availableTools;
     }
@@ -98,12 +109,25 @@ export class Tool {
     return Tool.availableTools ?? {};
   }
 
+  /**
+   * Registers a tool class for a tool type, replacing any implementation
+   * loaded for that type.
+   * @param toolType - The type/category of the tool (e.g., "fs").
+   * @param ToolClass - The class implementing the tool.
+   */
+  async register(toolType: string, ToolClass: ToolConstructor): Promise<void> {
+    const toolClasses = await this.init();
+    toolClasses[toolType] = { [ToolClass.name]: ToolClass };
+  }
+
   /**
    * Invokes a method on a specified tool.
    * @param task - The task context for this invocation.
    * @param toolName - The type/category of the tool (e.g., "fs").
    * @param methodName - The name of the method to invoke on the tool.
    * @param args - Arguments to pass to the tool method.
+   * @param signal - The abort signal observed by the invocation, defaults to
+   * the signal of the task.
    * @returns The result of the invoked tool method.
    */
   async invoke(
@@ -111,7 +135,8 @@ export class Tool {
     toolName: string,
     methodName: string,
     toolArgs?: any[],
-    methodArgs?: any[]
+    methodArgs?: any[],
+    signal: AbortSignal = task.getSignal()
   ): Promise<any> {
     const effectiveToolArgs = toolArgs ?? [];
     const effectiveMethodArgs = methodArgs ?? [];
@@ -134,6 +159,9 @@ export class Tool {
     }
 
     const toolInstance = new ToolClass(...effectiveToolArgs);
+    if ("signal" in toolInstance) {
+      toolInstance.signal = signal;
+    }
 
     const toolMethod = toolInstance[methodName];
 
@@ -151,7 +179,8 @@ export class Tool {
       toolMethod,
       toolInstance,
       effectiveToolArgs,
-      effectiveMethodArgs
+      effectiveMethodArgs,
+      signal
     );
 
     const isAllowed = await this.allow(invocation);
@@ -161,7 +190,38 @@ export class Tool {
       );
     }
 
-    return await invocation.invoke();
+    if (task.isDryRun?.() && this.isMutating(ToolClass, methodName)) {
+      const effect = planEffect(invocation);
+      task.output.plannedEffects.push(effect);
+      console.log(
+        `[Tool] Dry run, not executing ${toolName}.${methodName}(${effect.methodArgs.join(
+          ", "
+        )})`
+      );
+      return ToolClass.dryRunResult?.(methodName, effectiveMethodArgs);
+    }
+
+    const events = task.cassi?.events;
+    events?.emit("invocation:started", { invocation });
+    try {
+      return await invocation.invoke();
+    } finally {
+      events?.emit("invocation:finished", { invocation });
+    }
+  }
+
+  /**
+   * Determines if a tool method changes files, runs commands or changes the
+   * repository. Tool classes list these in a static `mutatingMethods` array.
+   * @param ToolClass - The class implementing the tool.
+   * @param methodName - The name of the method.
+   * @returns True if the method is skipped in dry-run mode.
+   */
+  isMutating(ToolClass: DryRunAware, methodName: string): boolean {
+    const mutatingMethods = ToolClass.mutatingMethods;
+    return (
+      Array.isArray(mutatingMethods) && mutatingMethods.includes(methodName)
+    );
   }
 
   /**
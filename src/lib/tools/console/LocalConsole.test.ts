@@ -39,4 +39,39 @@ describe("LocalConsole", () => {
     expect(actualCwd).toBe(expectedCwd);
     expect(result.stderr).toBe("");
   });
+
+  it("should kill the command and reject when the signal is aborted", async () => {
+    const console = new LocalConsole(process.cwd());
+    const controller = new AbortController();
+    console.signal = controller.signal;
+
+    const start = Date.now();
+    const result = console.exec("sleep 10");
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(result).rejects.toThrow("Command cancelled: sleep 10");
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it("should kill running commands with killRunningCommands", async () => {
+    const console = new LocalConsole(process.cwd());
+
+    const start = Date.now();
+    const result = console.exec("sleep 10");
+    setTimeout(() => LocalConsole.killRunningCommands(), 50);
+
+    await expect(result).resolves.toMatchObject({ code: null });
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it("should not start the command when the signal is already aborted", async () => {
+    const console = new LocalConsole(process.cwd());
+    const controller = new AbortController();
+    controller.abort();
+    console.signal = controller.signal;
+
+    await expect(console.exec("echo hello")).rejects.toThrow(
+      "Command cancelled: echo hello"
+    );
+  });
 });
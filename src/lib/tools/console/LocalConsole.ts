@@ -1,7 +1,35 @@
 import { spawn } from "child_process";
 
 export class LocalConsole {
+  static mutatingMethods = ["exec"];
+
+  /**
+   * Result returned for commands that are not run in dry-run mode.
+   */
+  static dryRunResult() {
+    return { stdout: "", stderr: "", code: 0 };
+  }
+
+  /**
+   * Process group ids of the commands that are still running.
+   */
+  private static runningCommands: Set<number> = new Set();
+
+  /**
+   * Kills the process groups of all running commands, so that commands are
+   * not left running when cassi exits before its tasks finish.
+   */
+  static killRunningCommands(): void {
+    for (const pid of LocalConsole.runningCommands) {
+      try {
+        process.kill(-pid, "SIGTERM");
+      } catch {}
+    }
+    LocalConsole.runningCommands.clear();
+  }
+
   private cwd: string;
+  public signal: AbortSignal | null = null;
 
   constructor(cwd: string) {
     this.cwd = cwd;
@@ -11,12 +39,35 @@ export class LocalConsole {
     command: string,
     stdinData?: string
   ): Promise<{ stdout: string; stderr: string; code: number | null }> {
+    const signal = this.signal;
+    if (signal?.aborted) {
+      throw new Error(`Command cancelled: ${command}`);
+    }
     return new Promise((resolve, reject) => {
       const child = spawn(command, {
         cwd: this.cwd,
         shell: true,
         stdio: ["pipe", "pipe", "pipe"],
+        detached: true,
       });
+      const pid = child.pid;
+      if (pid) {
+        LocalConsole.runningCommands.add(pid);
+      }
+
+      const onAbort = () => {
+        // the shell runs in its own process group so that commands it spawns
+        // are killed along with it
+        try {
+          if (child.pid) {
+            process.kill(-child.pid, "SIGTERM");
+          }
+        } catch {
+          child.kill("SIGTERM");
+        }
+        reject(new Error(`Command cancelled: ${command}`));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
 
       let stdout = "";
       let stderr = "";
@@ -30,10 +81,18 @@ export class LocalConsole {
       });
 
       child.on("error", (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (pid) {
+          LocalConsole.runningCommands.delete(pid);
+        }
         reject(new Error(`Spawn error: ${error.message}`));
       });
 
       child.on("close", (code) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (pid) {
+          LocalConsole.runningCommands.delete(pid);
+        }
         resolve({ stdout, stderr, code });
       });
 
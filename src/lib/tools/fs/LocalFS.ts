@@ -6,6 +6,14 @@ import { glob, GlobOptions } from "glob";
  * Provides methods for interacting with the local file system using Node.js standard libraries.
  */
 export default class LocalFS {
+  static mutatingMethods = [
+    "createDirectory",
+    "deleteDirectory",
+    "createFile",
+    "deleteFile",
+    "writeFile",
+  ];
+
   /**
    * Lists the contents of a directory.
    * @param dirPath - The path to the directory.
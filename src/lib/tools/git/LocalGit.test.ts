@@ -26,6 +26,7 @@ describe("LocalGit", () => {
     commit: vi.fn(),
     rebase: vi.fn(),
     merge: vi.fn(),
+    revparse: vi.fn(),
   } as unknown as SimpleGit;
 
   beforeEach(async () => {
@@ -109,6 +110,19 @@ describe("LocalGit", () => {
     });
   });
 
+  describe("deleteBranch", () => {
+    it("should force delete the branch", async () => {
+      vi.mocked(mockGitInstance.branch).mockResolvedValue({} as any);
+
+      await localGit.deleteBranch("task-branch");
+
+      expect(mockGitInstance.branch).toHaveBeenCalledWith([
+        "-D",
+        "task-branch",
+      ]);
+    });
+  });
+
   describe("addWorktree", () => {
     it("should call git.raw with the correct arguments for worktree add -b", async () => {
       const directory = "../new-worktree-dir";
@@ -173,6 +187,20 @@ describe("LocalGit", () => {
       expect(mockGitInstance.raw).toHaveBeenCalledTimes(1);
       expect(mockGitInstance.raw).toHaveBeenCalledWith(expectedCommand);
     });
+
+    it("should remove a worktree with changes when forced", async () => {
+      const directory = "../changed-worktree-dir";
+      vi.mocked(mockGitInstance.raw).mockResolvedValue("");
+
+      await localGit.remWorkTree(directory, true);
+
+      expect(mockGitInstance.raw).toHaveBeenCalledWith([
+        "worktree",
+        "remove",
+        "--force",
+        directory,
+      ]);
+    });
   });
 
   describe("diff", () => {
@@ -368,4 +396,98 @@ describe("LocalGit", () => {
       expect(mockGitInstance.merge).toHaveBeenCalledWith(options);
     });
   });
+
+  describe("revparse", () => {
+    it("should resolve HEAD by default and trim the hash", async () => {
+      vi.mocked(mockGitInstance.revparse).mockResolvedValue("abcdef123\n");
+
+      const result = await localGit.revparse();
+
+      expect(mockGitInstance.revparse).toHaveBeenCalledWith(["HEAD"]);
+      expect(result).toBe("abcdef123");
+    });
+
+    it("should resolve the given ref", async () => {
+      vi.mocked(mockGitInstance.revparse).mockResolvedValue("123abc");
+
+      await localGit.revparse("main");
+
+      expect(mockGitInstance.revparse).toHaveBeenCalledWith(["main"]);
+    });
+  });
+
+  describe("recentFiles", () => {
+    it("should list changed files and files of recent commits once", async () => {
+      vi.mocked(mockGitInstance.status).mockResolvedValue({
+        files: [{ path: "src/a.ts" }],
+      } as unknown as StatusResult);
+      vi.mocked(mockGitInstance.raw).mockResolvedValue(
+        "src/b.ts\nsrc/a.ts\n\nsrc/c.ts\n"
+      );
+
+      const files = await localGit.recentFiles(5);
+
+      expect(mockGitInstance.raw).toHaveBeenCalledWith([
+        "log",
+        "--max-count=5",
+        "--name-only",
+        "--format=",
+      ]);
+      expect(files).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"]);
+    });
+  });
+
+  describe("diffAll", () => {
+    it("should append the diffs of untracked files without changing the index", async () => {
+      vi.mocked(mockGitInstance.status).mockResolvedValue({
+        not_added: ["src/new.ts"],
+      } as unknown as StatusResult);
+      vi.mocked(mockGitInstance.diff).mockResolvedValue("tracked diff\n");
+      vi.mocked(mockGitInstance.raw).mockResolvedValue("new file diff\n");
+
+      const result = await localGit.diffAll("HEAD");
+
+      expect(mockGitInstance.diff).toHaveBeenCalledWith(["HEAD"]);
+      expect(mockGitInstance.raw).toHaveBeenCalledTimes(1);
+      expect(mockGitInstance.raw).toHaveBeenCalledWith([
+        "diff",
+        "--no-index",
+        "--",
+        "/dev/null",
+        "src/new.ts",
+      ]);
+      expect(result).toBe("tracked diff\nnew file diff\n");
+    });
+
+    it("should only diff tracked files without untracked files", async () => {
+      vi.mocked(mockGitInstance.status).mockResolvedValue({
+        not_added: [],
+      } as unknown as StatusResult);
+      vi.mocked(mockGitInstance.diff).mockResolvedValue("tracked diff\n");
+
+      const result = await localGit.diffAll("HEAD");
+
+      expect(mockGitInstance.raw).not.toHaveBeenCalled();
+      expect(result).toBe("tracked diff\n");
+    });
+  });
+
+  describe("changedFiles", () => {
+    it("should list changed and untracked files once, sorted", async () => {
+      vi.mocked(mockGitInstance.raw).mockResolvedValue("src/b.ts\nsrc/a.ts\n");
+      vi.mocked(mockGitInstance.status).mockResolvedValue({
+        not_added: ["src/c.ts", "src/a.ts"],
+      } as unknown as StatusResult);
+
+      const files = await localGit.changedFiles("main");
+
+      expect(mockGitInstance.raw).toHaveBeenCalledWith([
+        "diff",
+        "--name-only",
+        "--diff-filter=d",
+        "main",
+      ]);
+      expect(files).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"]);
+    });
+  });
 });
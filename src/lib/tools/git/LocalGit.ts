@@ -5,6 +5,15 @@ import { SimpleGit, SimpleGitOptions } from "simple-git";
  * Represents the local Git tool for interacting with a Git repository.
  */
 export class LocalGit {
+  static mutatingMethods = [
+    "commitAll",
+    "rebase",
+    "merge",
+    "addWorktree",
+    "remWorkTree",
+    "deleteBranch",
+  ];
+
   private git: SimpleGit;
 
   /**
@@ -33,6 +42,15 @@ export class LocalGit {
     return this.git.branch([branchName]);
   }
 
+  /**
+   * Deletes a branch, even if it is not merged.
+   * @param branchName The name of the branch to delete.
+   * @returns A promise that resolves when the branch is deleted.
+   */
+  async deleteBranch(branchName: string) {
+    return this.git.branch(["-D", branchName]);
+  }
+
   /**
    * Adds a new worktree.
    * @param directory The path for the new worktree.
@@ -53,10 +71,16 @@ export class LocalGit {
   /**
    * Removes an existing worktree.
    * @param directory The path of the worktree to remove.
+   * @param force Removes the worktree even if it has uncommitted changes.
    * @returns A promise that resolves when the worktree is removed.
    */
-  async remWorkTree(directory: string) {
-    return this.git.raw(["worktree", "remove", directory]);
+  async remWorkTree(directory: string, force: boolean = false) {
+    return this.git.raw([
+      "worktree",
+      "remove",
+      ...(force ? ["--force"] : []),
+      directory,
+    ]);
   }
 
   /**
@@ -69,6 +93,24 @@ export class LocalGit {
     return this.git.diff(options);
   }
 
+  /**
+   * Shows the changes of the working tree against a branch or commit,
+   * including untracked files. Untracked files are diffed against an empty
+   * file, so the index is left unchanged.
+   * @param target The branch or commit to compare against.
+   * @returns A promise that resolves with the diff output.
+   */
+  async diffAll(target: string): Promise<string> {
+    const diffs = [await this.git.diff([target])];
+    const status = await this.git.status();
+    for (const file of status.not_added) {
+      diffs.push(
+        await this.git.raw(["diff", "--no-index", "--", "/dev/null", file])
+      );
+    }
+    return diffs.join("");
+  }
+
   /**
    * Rebases the current branch onto another branch or commit.
    * @param options Optional array of rebase options.
@@ -87,4 +129,55 @@ export class LocalGit {
     await this.git.add("./*");
     return this.git.commit(commitMessage);
   }
+
+  /**
+   * Resolves a ref to a commit hash.
+   * @param ref The ref to resolve, defaults to HEAD.
+   * @returns A promise that resolves with the commit hash.
+   */
+  async revparse(ref: string = "HEAD"): Promise<string> {
+    return (await this.git.revparse([ref])).trim();
+  }
+
+  /**
+   * Lists the files that differ from another branch or commit, including
+   * uncommitted and untracked files. Deleted files are not included.
+   * @param target The branch or commit to compare against.
+   * @returns A promise that resolves with the sorted file paths.
+   */
+  async changedFiles(target: string): Promise<string[]> {
+    const diff = await this.git.raw([
+      "diff",
+      "--name-only",
+      "--diff-filter=d",
+      target,
+    ]);
+    const status = await this.git.status();
+    const files = [
+      ...diff.split("\n").map((line) => line.trim()),
+      ...status.not_added,
+    ].filter((file) => file.length > 0);
+    return [...new Set(files)].sort();
+  }
+
+  /**
+   * Lists the files with uncommitted changes and the files changed in the
+   * most recent commits, most recent first.
+   * @param maxCount The number of commits to include.
+   * @returns A promise that resolves with the file paths.
+   */
+  async recentFiles(maxCount: number = 20): Promise<string[]> {
+    const status = await this.git.status();
+    const log = await this.git.raw([
+      "log",
+      `--max-count=${maxCount}`,
+      "--name-only",
+      "--format=",
+    ]);
+    const files = [
+      ...status.files.map((file) => file.path),
+      ...log.split("\n").map((line) => line.trim()),
+    ].filter((file) => file.length > 0);
+    return [...new Set(files)];
+  }
 }
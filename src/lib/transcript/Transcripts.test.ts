@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { z } from "genkit";
+import { modelRef } from "genkit/model";
+import { genkitPlugin } from "genkit/plugin";
+import { Transcripts } from "./Transcripts.js";
+import { Models, GenerateModelOptions } from "../model/Models.js";
+import { Task } from "../task/Task.js";
+import { CassiEvents } from "../cassi/CassiEvents.js";
+import type { Cassi } from "../cassi/Cassi.js";
+
+const fakeModel = vi.fn();
+
+const fakePlugin = genkitPlugin("fake", async (ai) => {
+  ai.defineModel(
+    { name: "fake/model", supports: { tools: true, multiturn: true } },
+    async (request) => fakeModel(request)
+  );
+});
+
+class Reader extends Models {
+  public readFile = vi.fn(async ({ path }: { path: string }) => `${path}!`);
+
+  constructor(plugin: any, task: Task) {
+    super(plugin, task, modelRef({ name: "fake/model" }));
+    this.initializeTools([
+      [
+        {
+          name: "readFile",
+          description: "Read a file",
+          inputSchema: z.object({ path: z.string() }),
+          outputSchema: z.string(),
+        },
+        this.readFile,
+      ],
+    ]);
+  }
+
+  async generate(options: GenerateModelOptions): Promise<string> {
+    return this.generateWithTools({
+      ...options,
+      tools: this.tools,
+      returnToolRequests: true,
+    });
+  }
+}
+
+class Writer extends Reader {}
+
+describe("Transcripts", () => {
+  let repositoryDir: string;
+  let cassi: Cassi;
+  let transcripts: Transcripts;
+
+  const newCassi = () => {
+    const events = new CassiEvents();
+    const cassi = {
+      events,
+      repository: { repositoryDir },
+    } as unknown as Cassi;
+    cassi.transcripts = new Transcripts(cassi);
+    return cassi;
+  };
+
+  const newTask = (cassi: Cassi, taskId: string | null = "abcd1234-task") => {
+    const task = new Task(cassi);
+    task.taskId = taskId;
+    return task;
+  };
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "transcripts-"));
+    cassi = newCassi();
+    transcripts = cassi.transcripts;
+    fakeModel.mockReset();
+    fakeModel
+      .mockResolvedValueOnce({
+        message: {
+          role: "model",
+          content: [
+            {
+              toolRequest: { name: "readFile", ref: "1", input: { path: "a" } },
+            },
+          ],
+        },
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 2 },
+      })
+      .mockResolvedValueOnce({
+        message: { role: "model", content: [{ text: "Read a!" }] },
+        finishReason: "stop",
+        usage: { inputTokens: 20, outputTokens: 3 },
+      });
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should record model calls including tool requests per task", async () => {
+    transcripts.startRecording();
+    const reader = new Reader(fakePlugin, newTask(cassi));
+
+    const text = await reader.generate({ prompt: "Read a" });
+
+    expect(text).toBe("Read a!");
+    const file = transcripts.getTranscriptPath("abcd1234-task");
+    expect(file).toBe(
+      path.join(repositoryDir, ".cassi", "transcripts", "abcd1234-task.jsonl")
+    );
+    const entries = (await fs.readFile(file, "utf-8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      index: 0,
+      taskName: "Task",
+      modelClass: "Reader",
+      model: "fake/model",
+      request: { prompt: "Read a" },
+      response: {
+        toolRequests: [
+          { toolRequest: { name: "readFile", ref: "1", input: { path: "a" } } },
+        ],
+      },
+    });
+    expect(entries[1]).toMatchObject({
+      index: 1,
+      request: { prompt: null },
+      response: { text: "Read a!", usage: { inputTokens: 20 } },
+    });
+  });
+
+  it("should replay a recording offline with the same tool calls", async () => {
+    transcripts.startRecording();
+    await new Reader(fakePlugin, newTask(cassi)).generate({ prompt: "Read a" });
+    fakeModel.mockReset();
+
+    const replayCassi = newCassi();
+    await replayCassi.transcripts.startReplay("abcd1234-task");
+    const reader = new Reader(fakePlugin, newTask(replayCassi, null));
+
+    const text = await reader.generate({ prompt: "Read a" });
+
+    expect(text).toBe("Read a!");
+    expect(fakeModel).not.toHaveBeenCalled();
+    expect(reader.readFile).toHaveBeenCalledWith({ path: "a" });
+    expect(reader.usage.totalTokens).toBe(35);
+  });
+
+  it("should fail when a different model class makes the next request", async () => {
+    transcripts.startRecording();
+    await new Reader(fakePlugin, newTask(cassi)).generate({ prompt: "Read a" });
+
+    const replayCassi = newCassi();
+    const file = transcripts.getTranscriptPath("abcd1234-task");
+    await replayCassi.transcripts.startReplay(file);
+    const writer = new Writer(fakePlugin, newTask(replayCassi));
+
+    await expect(writer.generate({ prompt: "Read a" })).rejects.toThrow(
+      `Transcript ${file} mismatch at entry 0: recorded a Reader request but Writer made the request`
+    );
+  });
+
+  it("should fail when the transcript has no more responses", async () => {
+    const file = path.join(repositoryDir, "empty.jsonl");
+    await fs.writeFile(file, "");
+    await transcripts.startReplay(file);
+    const reader = new Reader(fakePlugin, newTask(cassi));
+
+    await expect(reader.generate({ prompt: "Read a" })).rejects.toThrow(
+      `Transcript ${file} has no more recorded responses for Reader`
+    );
+  });
+
+  it("should fail to replay a missing transcript", async () => {
+    await expect(transcripts.startReplay("missing")).rejects.toThrow(
+      `Cannot read transcript ${transcripts.getTranscriptPath("missing")}`
+    );
+    expect(transcripts.isReplaying()).toBe(false);
+  });
+
+  it("should write calls made before the task has an id when it gets one", async () => {
+    transcripts.startRecording();
+    const task = newTask(cassi, null);
+    const reader = new Reader(fakePlugin, task);
+
+    await reader.generate({ prompt: "Read a" });
+    await expect(fs.readdir(repositoryDir)).resolves.toEqual([]);
+
+    task.setTaskId("read a");
+    fakeModel.mockResolvedValueOnce({
+      message: { role: "model", content: [{ text: "Done" }] },
+      finishReason: "stop",
+    });
+    await reader.generate({ prompt: "Again" });
+
+    const content = await fs.readFile(
+      transcripts.getTranscriptPath(task.taskId!),
+      "utf-8"
+    );
+    expect(content.trim().split("\n")).toHaveLength(3);
+  });
+
+  it("should name the file after the task when it ends without an id", async () => {
+    transcripts.startRecording();
+    const task = newTask(cassi, null);
+    await new Reader(fakePlugin, task).generate({ prompt: "Read a" });
+
+    cassi.events.emit("task:finished", { task });
+    await vi.waitFor(async () => {
+      const files = await fs.readdir(transcripts.transcriptsDir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/^Task-.*\.jsonl$/);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { Cassi } from "../cassi/Cassi.js";
+import type { Models } from "../model/Models.js";
+import type { Task } from "../task/Task.js";
+
+export type TranscriptMode = "off" | "record" | "replay";
+
+/**
+ * The parts of a genkit generate response that models use. Replayed
+ * responses are plain objects with these properties.
+ */
+export interface TranscriptResponse {
+  text: string;
+  usage: any;
+  finishReason: string | null;
+  toolRequests: any[];
+  messages: any[];
+  output: any;
+}
+
+/**
+ * One model call as stored in `.cassi/transcripts/<taskId>.jsonl`.
+ */
+export interface TranscriptEntry {
+  index: number;
+  timestamp: string;
+  taskName: string;
+  modelClass: string;
+  model: string | null;
+  request: { prompt: any };
+  response: TranscriptResponse;
+}
+
+const toTranscriptResponse = (response: any): TranscriptResponse => ({
+  text: response?.text ?? "",
+  usage: response?.usage ?? null,
+  finishReason: response?.finishReason ?? null,
+  toolRequests: response?.toolRequests ?? [],
+  messages: response?.messages ?? [],
+  output: response?.output ?? null,
+});
+
+/**
+ * Records every model call made through `Models` and replays recorded calls
+ * so that tasks can run offline and deterministically.
+ *
+ * Recordings are written per root task to `.cassi/transcripts/<taskId>.jsonl`.
+ * Calls made before the root task has a taskId are kept until it has one, or
+ * until the task ends, in which case the file is named after the task.
+ * Replay returns the recorded responses in order and fails if a different
+ * model class makes the next request.
+ */
+export class Transcripts {
+  public cassi: Cassi;
+  public mode: TranscriptMode = "off";
+  public source: string | null = null;
+  private entries: TranscriptEntry[] = [];
+  private replayIndex: number = 0;
+  private pending: Map<Task, TranscriptEntry[]> = new Map();
+  private counts: Map<Task, number> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(cassi: Cassi) {
+    this.cassi = cassi;
+    this.cassi.events.on("task:finished", ({ task }) => this.onTaskEnd(task));
+    this.cassi.events.on("task:failed", ({ task }) => this.onTaskEnd(task));
+  }
+
+  get transcriptsDir(): string {
+    return path.join(
+      path.resolve(this.cassi.repository.repositoryDir),
+      ".cassi",
+      "transcripts"
+    );
+  }
+
+  getTranscriptPath(name: string): string {
+    return path.join(this.transcriptsDir, `${name}.jsonl`);
+  }
+
+  startRecording(): void {
+    this.mode = "record";
+  }
+
+  /**
+   * Loads a transcript and replays it for all following model calls.
+   * @param source A transcript file or the taskId of a recorded task.
+   */
+  async startReplay(source: string): Promise<void> {
+    const file =
+      source.endsWith(".jsonl") || source.includes(path.sep)
+        ? path.resolve(source)
+        : this.getTranscriptPath(source);
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf-8");
+    } catch (error: any) {
+      throw new Error(`Cannot read transcript ${file}: ${error.message}`);
+    }
+    this.entries = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as TranscriptEntry);
+    this.replayIndex = 0;
+    this.source = file;
+    this.mode = "replay";
+  }
+
+  isReplaying(): boolean {
+    return this.mode === "replay";
+  }
+
+  /**
+   * Returns the next recorded response.
+   * @throws Error if the transcript has no more responses or the next one was
+   * recorded for a different model class.
+   */
+  replay(model: Models): TranscriptResponse {
+    const modelClass = model.constructor.name;
+    const entry = this.entries[this.replayIndex];
+    if (!entry) {
+      throw new Error(
+        `Transcript ${this.source} has no more recorded responses for ${modelClass}`
+      );
+    }
+    if (entry.modelClass !== modelClass) {
+      throw new Error(
+        `Transcript ${this.source} mismatch at entry ${entry.index}: recorded a ${entry.modelClass} request but ${modelClass} made the request`
+      );
+    }
+    this.replayIndex++;
+    return entry.response;
+  }
+
+  /**
+   * Records a model call if recording is enabled.
+   */
+  async record(
+    model: Models,
+    modelName: string | null,
+    options: any,
+    response: any
+  ): Promise<void> {
+    if (this.mode !== "record") {
+      return;
+    }
+    const rootTask = model.task.getRootTask();
+    const index = this.counts.get(rootTask) ?? 0;
+    this.counts.set(rootTask, index + 1);
+    const entry: TranscriptEntry = {
+      index,
+      timestamp: new Date().toISOString(),
+      taskName: model.task.constructor.name,
+      modelClass: model.constructor.name,
+      model: modelName,
+      request: { prompt: options?.prompt ?? null },
+      response: toTranscriptResponse(response),
+    };
+    const pending = [...(this.pending.get(rootTask) ?? []), entry];
+    if (!rootTask.taskId) {
+      this.pending.set(rootTask, pending);
+      return;
+    }
+    this.pending.delete(rootTask);
+    await this.append(rootTask.taskId, pending);
+  }
+
+  private async onTaskEnd(task: Task): Promise<void> {
+    if (task.parentTask) {
+      return;
+    }
+    this.counts.delete(task);
+    const pending = this.pending.get(task);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(task);
+    const name =
+      task.taskId ??
+      `${task.constructor.name}-${pending[0].timestamp.replace(/[:.]/g, "-")}`;
+    try {
+      await this.append(name, pending);
+    } catch (error) {
+      console.error(
+        `[Transcripts] Error writing transcript ${name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Appends entries to a transcript file. Writes are queued so entries are
+   * stored in the order they were recorded.
+   */
+  private append(name: string, entries: TranscriptEntry[]): Promise<void> {
+    const write = this.writing.then(async () => {
+      await fs.mkdir(this.transcriptsDir, { recursive: true });
+      await fs.appendFile(
+        this.getTranscriptPath(name),
+        entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+        "utf-8"
+      );
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+}
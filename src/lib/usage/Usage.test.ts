@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  UsageRecord,
+  addCost,
+  calculateCost,
+  formatUsageReport,
+  getPrice,
+  summarizeUsage,
+} from "./Usage.js";
+
+const prices = {
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "openai-compatible/qwen": { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+const makeRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  timestamp: "2025-01-01T00:00:00.000Z",
+  sessionId: "session-1",
+  taskId: "abcd1234-task",
+  requestType: "Code",
+  taskName: "Coder",
+  modelClass: "Coder",
+  model: "googleai/gemini-2.0-flash",
+  inputTokens: 1000,
+  outputTokens: 500,
+  totalTokens: 1500,
+  cost: 0.0003,
+  ...overrides,
+});
+
+describe("Usage", () => {
+  describe("addCost", () => {
+    it("should treat null as an unknown cost", () => {
+      expect(addCost(null, null)).toBeNull();
+      expect(addCost(null, 0.5)).toBe(0.5);
+      expect(addCost(0.25, 0.5)).toBe(0.75);
+    });
+  });
+
+  describe("getPrice", () => {
+    it("should find prices by full name or name without provider", () => {
+      expect(getPrice(prices, "googleai/gemini-2.0-flash")).toBe(
+        prices["gemini-2.0-flash"]
+      );
+      expect(getPrice(prices, "openai-compatible/qwen")).toBe(
+        prices["openai-compatible/qwen"]
+      );
+      expect(getPrice(prices, "googleai/gemini-2.5-pro")).toBeNull();
+      expect(getPrice(undefined, "gemini-2.0-flash")).toBeNull();
+      expect(getPrice(prices, null)).toBeNull();
+    });
+  });
+
+  describe("calculateCost", () => {
+    it("should calculate the cost per million tokens", () => {
+      expect(
+        calculateCost(prices, "gemini-2.0-flash", {
+          inputTokens: 2_000_000,
+          outputTokens: 1_000_000,
+        })
+      ).toBeCloseTo(0.6);
+    });
+
+    it("should return null for models without a price", () => {
+      expect(
+        calculateCost(prices, "gemini-2.5-pro", { inputTokens: 10 })
+      ).toBeNull();
+    });
+  });
+
+  describe("summarizeUsage", () => {
+    it("should sum usage per request type, model class, model and session", () => {
+      const summary = summarizeUsage([
+        makeRecord(),
+        makeRecord({ modelClass: "CommitMessage", taskName: "GitCommitMerge" }),
+        makeRecord({
+          taskId: "efgh5678-task",
+          sessionId: "session-2",
+          model: "googleai/gemini-2.5-pro",
+          cost: null,
+        }),
+        makeRecord({
+          taskId: "ijkl9012-ask",
+          requestType: "Ask",
+          modelClass: "Ask",
+        }),
+      ]);
+
+      expect(summary.total).toEqual({
+        inputTokens: 4000,
+        outputTokens: 2000,
+        totalTokens: 6000,
+        calls: 4,
+        cost: expect.closeTo(0.0009),
+      });
+      expect(summary.byRequestType.Code).toMatchObject({
+        requests: 2,
+        calls: 3,
+        totalTokens: 4500,
+      });
+      expect(summary.byRequestType.Ask.requests).toBe(1);
+      expect(summary.byModelClass.Coder.calls).toBe(2);
+      expect(summary.byModel["googleai/gemini-2.5-pro"].cost).toBeNull();
+      expect(summary.bySession["session-2"].calls).toBe(1);
+    });
+  });
+
+  describe("formatUsageReport", () => {
+    it("should report that no usage was recorded", () => {
+      expect(formatUsageReport(summarizeUsage([]))).toBe(
+        "No model usage recorded."
+      );
+    });
+
+    it("should format totals and breakdowns", () => {
+      const report = formatUsageReport(
+        summarizeUsage([
+          makeRecord(),
+          makeRecord({ model: "googleai/gemini-2.5-pro", cost: null }),
+        ])
+      );
+
+      expect(report).toBe(
+        [
+          "Total: 2 call(s), 3000 tokens (2000 in, 1000 out), cost $0.0003",
+          "By request type:",
+          "  Code: 1 request(s), 2 call(s), 3000 tokens (2000 in, 1000 out), cost $0.0003",
+          "By model class:",
+          "  Coder: 2 call(s), 3000 tokens (2000 in, 1000 out), cost $0.0003",
+          "By model:",
+          "  googleai/gemini-2.0-flash: 1 call(s), 1500 tokens (1000 in, 500 out), cost $0.0003",
+          "  googleai/gemini-2.5-pro: 1 call(s), 1500 tokens (1000 in, 500 out), cost n/a",
+          "By session:",
+          "  session-1: 2 call(s), 3000 tokens (2000 in, 1000 out), cost $0.0003",
+        ].join("\n")
+      );
+    });
+  });
+});
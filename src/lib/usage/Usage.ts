@@ -0,0 +1,207 @@
+import type { JSONSchemaType } from "ajv";
+import type { TokenUsage } from "../task/TaskResult.js";
+
+/**
+ * Price of a model in US dollars per million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * The `prices` section of the config file, keyed by model name with or
+ * without the provider prefix, e.g. "googleai/gemini-2.0-flash" or
+ * "gemini-2.0-flash".
+ */
+export type PricesConfig = Record<string, ModelPrice>;
+
+export const pricesSchema: JSONSchemaType<PricesConfig> = {
+  type: "object",
+  required: [],
+  additionalProperties: {
+    type: "object",
+    properties: {
+      inputPerMillion: { type: "number", minimum: 0 },
+      outputPerMillion: { type: "number", minimum: 0 },
+    },
+    required: ["inputPerMillion", "outputPerMillion"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * One model call as stored in `.cassi/usage`.
+ */
+export interface UsageRecord extends TokenUsage {
+  timestamp: string;
+  sessionId: string;
+  /** Id of the root task the call was made for. */
+  taskId: string | null;
+  /** Name of the root task, the kind of request, e.g. "Code" or "Ask". */
+  requestType: string;
+  /** Name of the task that created the model. */
+  taskName: string;
+  modelClass: string;
+  model: string | null;
+  /** Cost in US dollars, null if there is no price for the model. */
+  cost: number | null;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number | null;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byRequestType: Record<string, UsageTotals & { requests: number }>;
+  byModelClass: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  calls: 0,
+  cost: null,
+});
+
+/**
+ * Adds two costs where null means unknown. The sum is only null if both
+ * costs are unknown.
+ */
+export const addCost = (a: number | null, b: number | null): number | null =>
+  a === null && b === null ? null : (a ?? 0) + (b ?? 0);
+
+/**
+ * Returns the configured price for a model name, trying the name without
+ * the provider prefix if there is no price for the full name.
+ */
+export const getPrice = (
+  prices: PricesConfig | undefined,
+  model: string | null
+): ModelPrice | null => {
+  if (!prices || !model) {
+    return null;
+  }
+  return prices[model] ?? prices[model.split("/").slice(1).join("/")] ?? null;
+};
+
+/**
+ * Calculates the cost of a model call in US dollars.
+ * @returns The cost, or null if there is no price for the model.
+ */
+export const calculateCost = (
+  prices: PricesConfig | undefined,
+  model: string | null,
+  usage: Partial<TokenUsage> | undefined
+): number | null => {
+  const price = getPrice(prices, model);
+  if (!price) {
+    return null;
+  }
+  return (
+    ((usage?.inputTokens ?? 0) * price.inputPerMillion +
+      (usage?.outputTokens ?? 0) * price.outputPerMillion) /
+    1_000_000
+  );
+};
+
+export const addRecord = (
+  totals: UsageTotals,
+  record: UsageRecord
+): UsageTotals => ({
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  totalTokens: totals.totalTokens + record.totalTokens,
+  calls: totals.calls + 1,
+  cost: addCost(totals.cost, record.cost),
+});
+
+/**
+ * Sums usage records in total, per kind of request, per model class, per
+ * model and per session.
+ */
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = {
+    total: emptyTotals(),
+    byRequestType: {},
+    byModelClass: {},
+    byModel: {},
+    bySession: {},
+  };
+  const requests: Record<string, Set<string>> = {};
+
+  for (const record of records) {
+    summary.total = addRecord(summary.total, record);
+
+    const requestIds = (requests[record.requestType] ??= new Set());
+    requestIds.add(record.taskId ?? `${record.sessionId}:${record.timestamp}`);
+    summary.byRequestType[record.requestType] = {
+      ...addRecord(
+        summary.byRequestType[record.requestType] ?? emptyTotals(),
+        record
+      ),
+      requests: requestIds.size,
+    };
+
+    summary.byModelClass[record.modelClass] = addRecord(
+      summary.byModelClass[record.modelClass] ?? emptyTotals(),
+      record
+    );
+    const model = record.model ?? "unknown";
+    summary.byModel[model] = addRecord(
+      summary.byModel[model] ?? emptyTotals(),
+      record
+    );
+    summary.bySession[record.sessionId] = addRecord(
+      summary.bySession[record.sessionId] ?? emptyTotals(),
+      record
+    );
+  }
+  return summary;
+};
+
+export const formatCost = (cost: number | null): string =>
+  cost === null ? "n/a" : `$${cost.toFixed(4)}`;
+
+export const formatTotals = (totals: UsageTotals): string =>
+  `${totals.calls} call(s), ${totals.totalTokens} tokens (${totals.inputTokens} in, ${totals.outputTokens} out), cost ${formatCost(totals.cost)}`;
+
+const formatSection = (
+  title: string,
+  entries: Record<string, UsageTotals & { requests?: number }>
+): string[] => {
+  const names = Object.keys(entries).sort();
+  if (names.length === 0) {
+    return [];
+  }
+  return [
+    `${title}:`,
+    ...names.map((name) => {
+      const totals = entries[name];
+      const requests =
+        totals.requests !== undefined ? `${totals.requests} request(s), ` : "";
+      return `  ${name}: ${requests}${formatTotals(totals)}`;
+    }),
+  ];
+};
+
+/**
+ * Formats a usage summary as a human readable report.
+ */
+export const formatUsageReport = (summary: UsageSummary): string => {
+  if (summary.total.calls === 0) {
+    return "No model usage recorded.";
+  }
+  return [
+    `Total: ${formatTotals(summary.total)}`,
+    ...formatSection("By request type", summary.byRequestType),
+    ...formatSection("By model class", summary.byModelClass),
+    ...formatSection("By model", summary.byModel),
+    ...formatSection("By session", summary.bySession),
+  ].join("\n");
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { UsageStore } from "./UsageStore.js";
+import type { UsageRecord } from "./Usage.js";
+
+const makeRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  timestamp: "2025-01-01T00:00:00.000Z",
+  sessionId: "session-1",
+  taskId: "abcd1234-task",
+  requestType: "Code",
+  taskName: "Coder",
+  modelClass: "Coder",
+  model: "googleai/gemini-2.0-flash",
+  inputTokens: 10,
+  outputTokens: 5,
+  totalTokens: 15,
+  cost: null,
+  ...overrides,
+});
+
+describe("UsageStore", () => {
+  let repositoryDir: string;
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "usage-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should append records to the session file under .cassi/usage", async () => {
+    const usageStore = new UsageStore(repositoryDir, "session-1");
+
+    await Promise.all([
+      usageStore.record(makeRecord()),
+      usageStore.record(makeRecord({ modelClass: "CommitMessage" })),
+    ]);
+
+    expect(usageStore.sessionFile).toBe(
+      path.join(repositoryDir, ".cassi", "usage", "session-1.jsonl")
+    );
+    const lines = (await fs.readFile(usageStore.sessionFile, "utf-8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.modelClass)).toEqual([
+      "Coder",
+      "CommitMessage",
+    ]);
+  });
+
+  it("should keep the totals of the session", async () => {
+    const usageStore = new UsageStore(repositoryDir, "session-1");
+
+    await usageStore.record(makeRecord({ cost: 0.5 }));
+    await usageStore.record(makeRecord());
+
+    expect(usageStore.session).toEqual({
+      inputTokens: 20,
+      outputTokens: 10,
+      totalTokens: 30,
+      calls: 2,
+      cost: 0.5,
+    });
+  });
+
+  it("should list the records of all sessions and skip unreadable lines", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await new UsageStore(repositoryDir, "session-1").record(makeRecord());
+    const usageStore = new UsageStore(repositoryDir, "session-2");
+    await usageStore.record(makeRecord({ sessionId: "session-2" }));
+    await fs.appendFile(usageStore.sessionFile, "{ invalid\n");
+
+    const records = await usageStore.list();
+
+    expect(records.map((record) => record.sessionId)).toEqual([
+      "session-1",
+      "session-2",
+    ]);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("should return an empty list when no usage was recorded", async () => {
+    expect(await new UsageStore(repositoryDir).list()).toEqual([]);
+  });
+});
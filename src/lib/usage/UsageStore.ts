@@ -0,0 +1,84 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { UsageRecord, UsageTotals, addRecord, emptyTotals } from "./Usage.js";
+
+/**
+ * Appends a record for every model call to `.cassi/usage/<sessionId>.jsonl`
+ * and keeps the totals of the current session.
+ */
+export class UsageStore {
+  public readonly usageDir: string;
+  public readonly sessionId: string;
+  public session: UsageTotals = emptyTotals();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    repositoryDir: string,
+    sessionId: string = new Date().toISOString().replace(/[:.]/g, "-")
+  ) {
+    this.usageDir = path.join(path.resolve(repositoryDir), ".cassi", "usage");
+    this.sessionId = sessionId;
+  }
+
+  get sessionFile(): string {
+    return path.join(this.usageDir, `${this.sessionId}.jsonl`);
+  }
+
+  /**
+   * Adds a record to the session totals and appends it to the session file.
+   * Writes are queued so records are stored in the order they were added.
+   */
+  record(record: UsageRecord): Promise<void> {
+    this.session = addRecord(this.session, record);
+    const write = this.writing.then(async () => {
+      await fs.mkdir(this.usageDir, { recursive: true });
+      await fs.appendFile(
+        this.sessionFile,
+        `${JSON.stringify(record)}\n`,
+        "utf-8"
+      );
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Reads the records of all sessions. Lines that cannot be parsed are
+   * skipped.
+   */
+  async list(): Promise<UsageRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.usageDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const file of files.sort()) {
+      if (!file.endsWith(".jsonl")) {
+        continue;
+      }
+      const content = await fs.readFile(
+        path.join(this.usageDir, file),
+        "utf-8"
+      );
+      for (const line of content.split("\n")) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          records.push(JSON.parse(line) as UsageRecord);
+        } catch (error) {
+          console.error(
+            `[UsageStore] Skipping unreadable usage record in ${file}`
+          );
+        }
+      }
+    }
+    return records;
+  }
+}
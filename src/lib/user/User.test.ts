@@ -1,6 +1,7 @@
 import { User } from "./User.js";
 import { Prompt } from "../prompt/Prompt.js";
 import Input from "../prompt/prompts/Input.js";
+import { CassiEvents } from "../cassi/CassiEvents.js";
 
 import { describe, beforeEach, test, expect, vi } from "vitest";
 
@@ -40,4 +41,28 @@ describe("User", () => {
     await expect(user.prompt(mockPrompt)).resolves.toBeUndefined();
     expect(customPromptFn).toHaveBeenCalledWith(mockPrompt);
   });
+
+  test("prompt should publish requested and answered events", async () => {
+    const order: string[] = [];
+    user = new User(
+      async () => {},
+      async () => {
+        order.push("promptFn");
+      }
+    );
+    user.events = new CassiEvents();
+    const mockPrompt = new Input("Test input");
+    user.events.on("prompt:requested", ({ prompt }) => {
+      expect(prompt).toBe(mockPrompt);
+      order.push("requested");
+    });
+    user.events.on("prompt:answered", ({ prompt }) => {
+      expect(prompt).toBe(mockPrompt);
+      order.push("answered");
+    });
+
+    await user.prompt(mockPrompt);
+
+    expect(order).toEqual(["requested", "promptFn", "answered"]);
+  });
 });
@@ -1,8 +1,10 @@
 import { Prompt } from "../prompt/Prompt.js";
+import type { CassiEvents } from "../cassi/CassiEvents.js";
 
 export class User {
   initFn: () => Promise<void>;
   promptFn: (prompt: Prompt) => Promise<void>;
+  events: CassiEvents | null = null;
 
   constructor(
     initFn: () => Promise<void> = async () => {},
@@ -17,6 +19,8 @@ export class User {
   }
 
   async prompt(prompt: Prompt): Promise<void> {
+    this.events?.emit("prompt:requested", { prompt });
     await this.promptFn(prompt);
+    this.events?.emit("prompt:answered", { prompt });
   }
 }
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  Workflows,
+  DEFAULT_WORKFLOW,
+  PLAN_WORKFLOW,
+  REVIEW_WORKFLOW,
+  TESTS_WORKFLOW,
+} from "./Workflows.js";
+import { Task } from "../task/Task.js";
+import type { Cassi } from "../cassi/Cassi.js";
+
+describe("Workflows", () => {
+  let repositoryDir: string;
+  let mockCassi: Cassi;
+  let workflows: Workflows;
+
+  const writeWorkflow = async (file: string, data: any) => {
+    const dir = path.join(repositoryDir, ".cassi", "workflows");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, file),
+      typeof data === "string" ? data : JSON.stringify(data)
+    );
+  };
+
+  beforeEach(async () => {
+    repositoryDir = await fs.mkdtemp(path.join(os.tmpdir(), "workflows-"));
+    mockCassi = {
+      repository: { repositoryDir },
+      config: { configData: { apiKeys: { gemini: "key" } } },
+      task: {
+        availableTasks: new Map<string, typeof Task>([
+          ["Coder", Task],
+          ["Tester", Task],
+          ["RequirePassingTests", Task],
+          ["Review", Task],
+          ["GitCommitMerge", Task],
+        ]),
+        newTask: vi.fn(
+          (name: string, parent: Task, ...args: any[]) =>
+            new Task(mockCassi, parent, ...args)
+        ),
+      },
+    } as unknown as Cassi;
+    workflows = new Workflows(mockCassi);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(repositoryDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should fall back to the default workflow", async () => {
+    await workflows.init();
+
+    expect(workflows.get()).toBe(DEFAULT_WORKFLOW);
+    expect(DEFAULT_WORKFLOW.steps.map((step) => step.task)).toEqual([
+      "Coder",
+      "Tester",
+      "RequirePassingTests",
+      "GitCommitMerge",
+    ]);
+  });
+
+  it("should provide the built-in review workflow with a Review step before the merge", async () => {
+    await workflows.init();
+
+    expect(workflows.get("review")).toBe(REVIEW_WORKFLOW);
+    expect(REVIEW_WORKFLOW.steps.map((step) => step.task)).toEqual([
+      "Coder",
+      "Tester",
+      "RequirePassingTests",
+      "Review",
+      "GitCommitMerge",
+    ]);
+  });
+
+  it("should provide the built-in plan workflow", async () => {
+    await workflows.init();
+
+    expect(workflows.get("plan")).toBe(PLAN_WORKFLOW);
+    expect(PLAN_WORKFLOW.steps[0]).toEqual({
+      task: "Plan",
+      args: ["{{prompt}}"],
+    });
+  });
+
+  it("should provide the built-in tests workflow with a CreateTests step", async () => {
+    await workflows.init();
+
+    expect(workflows.get("tests")).toBe(TESTS_WORKFLOW);
+    expect(TESTS_WORKFLOW.steps.map((step) => step.task)).toEqual([
+      "Coder",
+      "CreateTests",
+      "Tester",
+      "RequirePassingTests",
+      "Review",
+      "GitCommitMerge",
+    ]);
+  });
+
+  it("should load workflows from the config file", async () => {
+    mockCassi.config.configData!.workflows = {
+      quick: [{ task: "Coder", args: ["{{prompt}}"] }],
+    };
+    mockCassi.config.configData!.workflow = "quick";
+
+    await workflows.init();
+
+    expect(workflows.get().name).toBe("quick");
+    expect(workflows.get("default")).toBe(DEFAULT_WORKFLOW);
+  });
+
+  it("should load workflow files and let them override config entries", async () => {
+    mockCassi.config.configData!.workflows = {
+      quick: [{ task: "Coder" }],
+    };
+    await writeWorkflow("quick.json", {
+      description: "Code and merge",
+      steps: [{ task: "Coder" }, { task: "GitCommitMerge" }],
+    });
+    await writeWorkflow("other.json", {
+      name: "named",
+      steps: [{ task: "Tester", args: [""] }],
+    });
+    await writeWorkflow("notes.txt", "ignored");
+
+    await workflows.init();
+
+    expect(workflows.get("quick")).toEqual({
+      name: "quick",
+      description: "Code and merge",
+      steps: [{ task: "Coder" }, { task: "GitCommitMerge" }],
+    });
+    expect(workflows.get("named").steps).toEqual([
+      { task: "Tester", args: [""] },
+    ]);
+  });
+
+  it("should throw for invalid workflow files", async () => {
+    await writeWorkflow("bad.json", { steps: [{ name: "Coder" }] });
+
+    await expect(workflows.init()).rejects.toThrow(
+      /Workflow file .*bad\.json validation failed/
+    );
+  });
+
+  it("should throw for workflow files that are not JSON", async () => {
+    await writeWorkflow("bad.json", "{ invalid");
+
+    await expect(workflows.init()).rejects.toThrow(
+      /Error reading workflow file .*bad\.json/
+    );
+  });
+
+  it("should throw for workflows that use unknown tasks", async () => {
+    await writeWorkflow("lint.json", { steps: [{ task: "Lint" }] });
+
+    await expect(workflows.init()).rejects.toThrow(
+      /Workflow "lint" from .*lint\.json uses unknown task "Lint"\./
+    );
+  });
+
+  it("should throw for unknown workflow names", () => {
+    expect(() => workflows.get("missing")).toThrow(
+      'Workflow "missing" not found.'
+    );
+  });
+
+  it("should add workflow steps as subtasks with variables substituted", () => {
+    const task = new Task(mockCassi);
+
+    workflows.addSubtasks(task, null, { prompt: "add a feature" });
+
+    expect(task.subTasks).toHaveLength(4);
+    expect(mockCassi.task.newTask).toHaveBeenNthCalledWith(
+      1,
+      "Coder",
+      task,
+      "add a feature"
+    );
+    expect(mockCassi.task.newTask).toHaveBeenNthCalledWith(
+      2,
+      "Tester",
+      task,
+      ""
+    );
+    expect(mockCassi.task.newTask).toHaveBeenNthCalledWith(
+      4,
+      "GitCommitMerge",
+      task
+    );
+  });
+});
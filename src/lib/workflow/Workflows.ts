@@ -0,0 +1,238 @@
+import fs from "fs/promises";
+import path from "path";
+import Ajv from "ajv";
+import type { JSONSchemaType, ErrorObject } from "ajv";
+import type { Cassi } from "../cassi/Cassi.js";
+import type { Task } from "../task/Task.js";
+
+export interface WorkflowStep {
+  task: string;
+  args?: string[];
+}
+
+export interface Workflow {
+  name: string;
+  description?: string;
+  steps: WorkflowStep[];
+}
+
+interface WorkflowFile {
+  name?: string;
+  description?: string;
+  steps: WorkflowStep[];
+}
+
+export const workflowStepSchema: JSONSchemaType<WorkflowStep> = {
+  type: "object",
+  properties: {
+    task: { type: "string", minLength: 1 },
+    args: { type: "array", items: { type: "string" }, nullable: true },
+  },
+  required: ["task"],
+  additionalProperties: false,
+};
+
+const workflowFileSchema: JSONSchemaType<WorkflowFile> = {
+  type: "object",
+  properties: {
+    name: { type: "string", nullable: true, minLength: 1 },
+    description: { type: "string", nullable: true },
+    steps: { type: "array", items: workflowStepSchema, minItems: 1 },
+  },
+  required: ["steps"],
+  additionalProperties: false,
+};
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  name: "default",
+  description: "Code, test, require passing tests and merge.",
+  steps: [
+    { task: "Coder", args: ["{{prompt}}"] },
+    { task: "Tester", args: [""] },
+    { task: "RequirePassingTests" },
+    { task: "GitCommitMerge" },
+  ],
+};
+
+export const PLAN_WORKFLOW: Workflow = {
+  name: "plan",
+  description:
+    "Plan the changes, code each approved step with a build check, test and merge.",
+  steps: [
+    { task: "Plan", args: ["{{prompt}}"] },
+    { task: "Tester", args: [""] },
+    { task: "RequirePassingTests" },
+    { task: "GitCommitMerge" },
+  ],
+};
+
+export const REVIEW_WORKFLOW: Workflow = {
+  name: "review",
+  description: "Code, test, require passing tests, review and merge.",
+  steps: [
+    { task: "Coder", args: ["{{prompt}}"] },
+    { task: "Tester", args: [""] },
+    { task: "RequirePassingTests" },
+    { task: "Review", args: ["{{prompt}}"] },
+    { task: "GitCommitMerge" },
+  ],
+};
+
+export const TESTS_WORKFLOW: Workflow = {
+  name: "tests",
+  description:
+    "Code, write tests for the changed files, test, require passing tests, review and merge.",
+  steps: [
+    { task: "Coder", args: ["{{prompt}}"] },
+    { task: "CreateTests", args: ["{{prompt}}"] },
+    { task: "Tester", args: [""] },
+    { task: "RequirePassingTests" },
+    { task: "Review", args: ["{{prompt}}"] },
+    { task: "GitCommitMerge" },
+  ],
+};
+
+const BUILT_IN_WORKFLOWS = [
+  DEFAULT_WORKFLOW,
+  PLAN_WORKFLOW,
+  REVIEW_WORKFLOW,
+  TESTS_WORKFLOW,
+];
+
+/**
+ * Named sequences of subtasks. Besides the built-in "default", "plan",
+ * "review" and "tests" workflows, workflows come from the `workflows` section
+ * of the config file and from `.cassi/workflows/*.json` in the repository,
+ * files override config entries with the same name.
+ *
+ * Arguments may reference variables passed by the running task, e.g.
+ * `{{prompt}}`.
+ */
+export class Workflows {
+  public cassi: Cassi;
+  public workflows: Map<string, Workflow> = new Map(
+    BUILT_IN_WORKFLOWS.map((workflow) => [workflow.name, workflow])
+  );
+
+  constructor(cassi: Cassi) {
+    this.cassi = cassi;
+  }
+
+  get workflowsDir(): string {
+    return path.join(
+      path.resolve(this.cassi.repository.repositoryDir),
+      ".cassi",
+      "workflows"
+    );
+  }
+
+  async init(): Promise<void> {
+    this.workflows.clear();
+    for (const workflow of BUILT_IN_WORKFLOWS) {
+      this.workflows.set(workflow.name, workflow);
+    }
+
+    const configWorkflows = this.cassi.config.configData?.workflows ?? {};
+    for (const [name, steps] of Object.entries(configWorkflows)) {
+      this.add({ name, steps }, "config");
+    }
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.workflowsDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    const ajv = new (Ajv as any).default();
+    const validate = ajv.compile(workflowFileSchema);
+
+    for (const file of files.sort()) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      const filePath = path.join(this.workflowsDir, file);
+      let data: any;
+      try {
+        data = JSON.parse(await fs.readFile(filePath, "utf-8"));
+      } catch (error: any) {
+        throw new Error(
+          `Error reading workflow file ${filePath}: ${error.message}`
+        );
+      }
+      if (!validate(data)) {
+        const errors = validate.errors
+          ?.map(
+            (err: ErrorObject) => `${err.instancePath || "root"} ${err.message}`
+          )
+          .join(", ");
+        throw new Error(
+          `Workflow file ${filePath} validation failed: ${errors}`
+        );
+      }
+      this.add(
+        {
+          name: data.name ?? path.basename(file, ".json"),
+          description: data.description,
+          steps: data.steps,
+        },
+        filePath
+      );
+    }
+  }
+
+  private add(workflow: Workflow, source: string): void {
+    const availableTasks = this.cassi.task.availableTasks;
+    for (const step of workflow.steps) {
+      if (availableTasks.size > 0 && !availableTasks.has(step.task)) {
+        throw new Error(
+          `Workflow "${workflow.name}" from ${source} uses unknown task "${step.task}".`
+        );
+      }
+    }
+    this.workflows.set(workflow.name, workflow);
+  }
+
+  /**
+   * Returns a workflow by name. Without a name the workflow from the `workflow`
+   * config setting is used, falling back to the default workflow.
+   * @throws Error if a named workflow does not exist.
+   */
+  get(name?: string | null): Workflow {
+    const workflowName =
+      name ?? this.cassi.config.configData?.workflow ?? DEFAULT_WORKFLOW.name;
+    const workflow = this.workflows.get(workflowName);
+    if (!workflow) {
+      throw new Error(`Workflow "${workflowName}" not found.`);
+    }
+    return workflow;
+  }
+
+  /**
+   * Creates the steps of a workflow as subtasks of a task.
+   * @param task The task to add the subtasks to.
+   * @param name The workflow name, see `get`.
+   * @param vars Values for `{{name}}` references in string arguments.
+   */
+  addSubtasks(
+    task: Task,
+    name?: string | null,
+    vars: Record<string, string> = {}
+  ): void {
+    const workflow = this.get(name);
+    console.log(
+      `[Workflows] Using workflow "${workflow.name}" for ${task.constructor.name}`
+    );
+    for (const step of workflow.steps) {
+      const args = (step.args ?? []).map((arg) =>
+        arg.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+          key in vars ? (vars[key] ?? "") : match
+        )
+      );
+      task.addSubtask(this.cassi.task.newTask(step.task, task, ...args));
+    }
+  }
+}